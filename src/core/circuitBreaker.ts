@@ -0,0 +1,173 @@
+import { CircuitBreakerOptions, CircuitState, GatewayHealth } from "../types";
+import { ProviderUnavailableError } from "./errors";
+import { isRetryableError } from "./retry";
+
+/**
+ * Default number of consecutive failures opening the circuit
+ */
+const DEFAULT_FAILURE_THRESHOLD = 5;
+
+/**
+ * Default time the circuit stays open, in milliseconds
+ */
+const DEFAULT_COOLDOWN_MS = 30000;
+
+/**
+ * Circuit breaker guarding the HTTP calls made to a provider
+ *
+ * After a number of consecutive failures the circuit opens and calls fail
+ * fast with a ProviderUnavailableError. Once the cool-down window is over,
+ * a single trial call is let through: its success closes the circuit, its
+ * failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures: number = 0;
+  private openedAt: number | null = null;
+  private trialInFlight: boolean = false;
+  private readonly enabled: boolean;
+  private readonly options: CircuitBreakerOptions;
+
+  /**
+   * Creates a new circuit breaker
+   *
+   * @param provider Name of the guarded provider
+   * @param options Breaker settings, or false to let every call through
+   * @param now Clock returning the current time in milliseconds
+   */
+  constructor(
+    private readonly provider: string,
+    options: CircuitBreakerOptions | false = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.enabled = options !== false;
+    this.options = options || {};
+  }
+
+  /**
+   * Get the current state of the circuit
+   *
+   * @returns Circuit state, half_open once an open circuit cooled down
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && this.now() >= this.getRetryAt()) {
+      this.transition("half_open");
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Get the health of the guarded provider
+   *
+   * @returns Provider health
+   */
+  getHealth(): GatewayHealth {
+    const state = this.getState();
+
+    return {
+      provider: this.provider,
+      state,
+      available:
+        state === "closed" || (state === "half_open" && !this.trialInFlight),
+      failures: this.failures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt) : undefined,
+      retryAt: state === "open" ? new Date(this.getRetryAt()) : undefined,
+    };
+  }
+
+  /**
+   * Run a provider call through the breaker
+   *
+   * @param call Provider call
+   * @returns Promise resolving to the result of the call
+   * @throws ProviderUnavailableError if the circuit is open
+   */
+  async execute<T>(call: () => Promise<T>): Promise<T> {
+    if (!this.enabled) {
+      return call();
+    }
+
+    const state = this.getState();
+
+    if (state === "open" || (state === "half_open" && this.trialInFlight)) {
+      throw new ProviderUnavailableError(
+        `Circuit breaker open for ${this.provider}: calls are suspended until ${new Date(
+          this.getRetryAt()
+        ).toISOString()}`,
+        { provider: this.provider }
+      );
+    }
+
+    const trial = state === "half_open";
+    this.trialInFlight = trial;
+
+    try {
+      const result = await call();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      const isFailure = this.options.isFailure || isRetryableError;
+
+      if (isFailure(error)) {
+        this.recordFailure();
+      } else {
+        // The provider answered, so it is up
+        this.recordSuccess();
+      }
+
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Close the circuit after a successful call
+   */
+  private recordSuccess(): void {
+    this.failures = 0;
+    this.transition("closed");
+  }
+
+  /**
+   * Count a failure, opening the circuit when the threshold is reached
+   */
+  private recordFailure(): void {
+    const threshold =
+      this.options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+
+    this.failures++;
+
+    if (this.state === "half_open" || this.failures >= threshold) {
+      this.openedAt = this.now();
+      this.transition("open");
+    }
+  }
+
+  /**
+   * Get the time the next trial call is allowed at
+   */
+  private getRetryAt(): number {
+    const cooldownMs = this.options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+
+    return (this.openedAt ?? 0) + cooldownMs;
+  }
+
+  /**
+   * Move the circuit to a new state, notifying the state change hook
+   */
+  private transition(to: CircuitState): void {
+    const from = this.state;
+
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+
+    this.options.onStateChange?.({ provider: this.provider, from, to });
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Details attached to a payment error
+ */
+export interface PaymentErrorOptions {
+  /**
+   * Name of the provider that raised the error
+   */
+  provider?: string;
+
+  /**
+   * Error code returned by the provider
+   */
+  providerCode?: string;
+
+  /**
+   * HTTP status of the provider response
+   */
+  httpStatus?: number;
+
+  /**
+   * Whether the operation may succeed if attempted again
+   */
+  retryable?: boolean;
+
+  /**
+   * Raw provider response body
+   */
+  raw?: unknown;
+
+  /**
+   * Underlying error
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error raised by the package
+ */
+export class PaymentError extends Error {
+  /**
+   * Stable error kind, e.g. "validation_error"
+   */
+  readonly code: string = "payment_error";
+  readonly provider?: string;
+  readonly providerCode?: string;
+  readonly httpStatus?: number;
+  readonly retryable: boolean;
+  readonly raw?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message);
+    this.name = "PaymentError";
+    this.provider = options.provider;
+    this.providerCode = options.providerCode;
+    this.httpStatus = options.httpStatus;
+    this.retryable = options.retryable ?? false;
+    this.raw = options.raw;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The request was rejected because it is invalid
+ */
+export class ValidationError extends PaymentError {
+  readonly code = "validation_error";
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message, options);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * The provider rejected the credentials
+ */
+export class AuthenticationError extends PaymentError {
+  readonly code = "authentication_error";
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message, options);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * The provider could not be reached or failed to serve the request
+ */
+export class ProviderUnavailableError extends PaymentError {
+  readonly code = "provider_unavailable";
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+/**
+ * The requested payment or resource does not exist
+ */
+export class NotFoundError extends PaymentError {
+  readonly code = "not_found";
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * The provider throttled the request
+ */
+export class RateLimitError extends PaymentError {
+  readonly code = "rate_limited";
+
+  /**
+   * Delay requested by the provider before retrying, in milliseconds
+   */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: PaymentErrorOptions & { retryAfterMs?: number } = {}
+  ) {
+    super(message, { retryable: true, ...options });
+    this.name = "RateLimitError";
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * A payment already exists for this reference
+ */
+export class DuplicateReferenceError extends PaymentError {
+  readonly code = "duplicate_reference";
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message, options);
+    this.name = "DuplicateReferenceError";
+  }
+}
+
+/**
+ * The package or a gateway is not configured for the operation
+ */
+export class ConfigurationError extends PaymentError {
+  readonly code = "configuration_error";
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message, options);
+    this.name = "ConfigurationError";
+  }
+}
+
+/**
+ * The provider does not support the operation
+ */
+export class UnsupportedOperationError extends PaymentError {
+  readonly code = "unsupported_operation";
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message, options);
+    this.name = "UnsupportedOperationError";
+  }
+}
+
+/**
+ * A payment cannot move from its current status to the reported one
+ */
+export class InvalidTransitionError extends PaymentError {
+  readonly code = "invalid_transition";
+
+  constructor(message: string, options: PaymentErrorOptions = {}) {
+    super(message, options);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+/**
+ * Options for converting a failed provider call into a PaymentError
+ */
+export interface ToPaymentErrorOptions {
+  /**
+   * Name of the provider that was called
+   */
+  provider: string;
+
+  /**
+   * Message used when the provider does not give one
+   */
+  message: string;
+
+  /**
+   * Extract the provider message and code from an error response body
+   */
+  parseBody?: (data: unknown) => { message?: string; code?: string };
+}
+
+/**
+ * Shape of the HTTP client errors inspected by toPaymentError
+ */
+interface HttpClientError {
+  isAxiosError?: boolean;
+  code?: string;
+  message?: string;
+  response?: {
+    status: number;
+    data?: unknown;
+    headers?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Convert a failed provider call into the matching PaymentError
+ *
+ * Errors that already are PaymentErrors are returned unchanged.
+ *
+ * @param error Error thrown by the provider call
+ * @param options Conversion options
+ * @returns Typed payment error
+ */
+export function toPaymentError(
+  error: unknown,
+  options: ToPaymentErrorOptions
+): PaymentError {
+  if (error instanceof PaymentError) {
+    return error;
+  }
+
+  const httpError = (error || {}) as HttpClientError;
+  const response = httpError.isAxiosError ? httpError.response : undefined;
+
+  // No response: the provider could not be reached or timed out
+  if (!response) {
+    const reason =
+      error instanceof Error || httpError.message
+        ? httpError.message
+        : "Unknown error";
+    return new ProviderUnavailableError(`${options.message}: ${reason}`, {
+      provider: options.provider,
+      providerCode: httpError.code,
+      cause: error,
+    });
+  }
+
+  const body = options.parseBody ? options.parseBody(response.data) : {};
+  const details: PaymentErrorOptions = {
+    provider: options.provider,
+    providerCode: body.code,
+    httpStatus: response.status,
+    raw: response.data,
+    cause: error,
+  };
+  const message =
+    body.message ||
+    (httpError.message
+      ? `${options.message}: ${httpError.message}`
+      : options.message);
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, details);
+    case 401:
+    case 403:
+      return new AuthenticationError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 409:
+      return new DuplicateReferenceError(message, details);
+    case 429: {
+      const retryAfter = Number(response.headers?.["retry-after"]);
+      return new RateLimitError(message, {
+        ...details,
+        retryAfterMs: Number.isFinite(retryAfter)
+          ? retryAfter * 1000
+          : undefined,
+      });
+    }
+    default:
+      return response.status >= 500
+        ? new ProviderUnavailableError(message, details)
+        : new PaymentError(message, details);
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  EventDispatchResult,
+  EventHandlerError,
+  WebhookEvent,
+  WebhookEventHandler,
+  WebhookEventType,
+  WebhookListenerOptions,
+  WildcardEventHandler,
+} from "../types";
+
+/**
+ * Registered webhook event listener
+ */
+interface Listener {
+  type: WebhookEventType | "*";
+  handler: WildcardEventHandler;
+  options: WebhookListenerOptions;
+  once: boolean;
+}
+
+/**
+ * Check whether a value matches a single value or any value of a list
+ *
+ * @param expected Single value, list of accepted values, or undefined to accept anything
+ * @param actual Value to check
+ * @returns True if the value is accepted
+ */
+function matches(
+  expected: string | string[] | undefined,
+  actual: string | null
+): boolean {
+  if (expected === undefined) {
+    return true;
+  }
+
+  const accepted = Array.isArray(expected) ? expected : [expected];
+  return actual !== null && accepted.includes(actual);
+}
+
+/**
+ * Report a listener failure on the console
+ *
+ * @param failure Listener failure
+ */
+function logHandlerError(failure: EventHandlerError): void {
+  console.error(
+    `Webhook event listener failed on ${failure.event.type} from ${
+      failure.alias || failure.event.gatewayName
+    }:`,
+    failure.error
+  );
+}
+
+/**
+ * Dispatches webhook events to typed listeners
+ *
+ * Listeners of an event run concurrently and are all awaited. A failing
+ * listener does not affect the others: its error is reported and returned
+ * with the dispatch result.
+ */
+export class WebhookEventEmitter {
+  private listeners: Listener[] = [];
+
+  /**
+   * Creates a new event emitter
+   *
+   * @param onError Called with every listener failure (default: logged on the console)
+   */
+  constructor(
+    private readonly onError: (
+      failure: EventHandlerError
+    ) => void = logHandlerError
+  ) {}
+
+  /**
+   * Listen to events of a type, or to every event with "*"
+   *
+   * @param type Event type, or "*" for every event
+   * @param handler Listener, receiving the event with its data narrowed to the type
+   * @param options Provider and gateway instance filters
+   * @returns Function removing the listener
+   */
+  on<T extends WebhookEventType>(
+    type: T,
+    handler: WebhookEventHandler<T>,
+    options?: WebhookListenerOptions
+  ): () => void;
+  on(
+    type: "*",
+    handler: WildcardEventHandler,
+    options?: WebhookListenerOptions
+  ): () => void;
+  on(
+    type: WebhookEventType | "*",
+    handler: WildcardEventHandler,
+    options: WebhookListenerOptions = {}
+  ): () => void {
+    return this.add({ type, handler, options, once: false });
+  }
+
+  /**
+   * Listen to the next event of a type, or to the next event with "*"
+   *
+   * @param type Event type, or "*" for every event
+   * @param handler Listener, receiving the event with its data narrowed to the type
+   * @param options Provider and gateway instance filters
+   * @returns Function removing the listener
+   */
+  once<T extends WebhookEventType>(
+    type: T,
+    handler: WebhookEventHandler<T>,
+    options?: WebhookListenerOptions
+  ): () => void;
+  once(
+    type: "*",
+    handler: WildcardEventHandler,
+    options?: WebhookListenerOptions
+  ): () => void;
+  once(
+    type: WebhookEventType | "*",
+    handler: WildcardEventHandler,
+    options: WebhookListenerOptions = {}
+  ): () => void {
+    return this.add({ type, handler, options, once: true });
+  }
+
+  /**
+   * Remove a listener
+   *
+   * @param type Event type the listener was added for
+   * @param handler Listener to remove
+   * @returns True if the listener was registered
+   */
+  off<T extends WebhookEventType>(
+    type: T | "*",
+    handler: WebhookEventHandler<T> | WildcardEventHandler
+  ): boolean {
+    const index = this.listeners.findIndex(
+      (listener) => listener.type === type && listener.handler === handler
+    );
+
+    if (index === -1) {
+      return false;
+    }
+
+    this.listeners.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the number of listeners of an event type
+   *
+   * @param type Event type, or "*" for wildcard listeners
+   * @returns Number of listeners, or of all listeners if no type is given
+   */
+  listenerCount(type?: WebhookEventType | "*"): number {
+    return type === undefined
+      ? this.listeners.length
+      : this.listeners.filter((listener) => listener.type === type).length;
+  }
+
+  /**
+   * Dispatch an event to its listeners and wait for all of them
+   *
+   * @param event Webhook event
+   * @param alias Alias of the gateway instance the event came from, if known
+   * @returns Promise resolving to the number of listeners and their failures
+   */
+  async emit(
+    event: WebhookEvent,
+    alias: string | null = null
+  ): Promise<EventDispatchResult> {
+    const targets = this.listeners.filter(
+      (listener) =>
+        (listener.type === "*" || listener.type === event.type) &&
+        matches(listener.options.provider, event.gatewayName) &&
+        matches(listener.options.alias, alias)
+    );
+
+    // Remove one-time listeners before they run, so they never run twice
+    this.listeners = this.listeners.filter(
+      (listener) => !(listener.once && targets.includes(listener))
+    );
+
+    const errors: EventHandlerError[] = [];
+
+    await Promise.all(
+      targets.map(async (listener) => {
+        try {
+          await listener.handler(event);
+        } catch (error) {
+          errors.push({ event, alias, error });
+        }
+      })
+    );
+
+    for (const failure of errors) {
+      try {
+        this.onError(failure);
+      } catch {
+        // A failing reporter must not break the dispatch
+      }
+    }
+
+    return { listeners: targets.length, errors };
+  }
+
+  /**
+   * Register a listener
+   */
+  private add(listener: Listener): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    };
+  }
+}
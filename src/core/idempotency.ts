@@ -0,0 +1,225 @@
+import {
+  IdempotencyOptions,
+  IdempotencyRecord,
+  IdempotencyStore,
+} from "../types";
+import {
+  DuplicateReferenceError,
+  PaymentError,
+  ProviderUnavailableError,
+} from "./errors";
+
+/**
+ * Default time idempotency records are kept, in milliseconds
+ */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a failed operation may still have been carried out by the
+ * provider, e.g. after a timeout or a 5xx reply
+ *
+ * Calls refused before being sent, such as by an open circuit breaker, and
+ * errors the provider replied with are known failures.
+ *
+ * @param error Error the operation failed with
+ * @returns True if the outcome of the operation is unknown
+ */
+function isOutcomeUnknown(error: unknown): boolean {
+  if (!(error instanceof PaymentError)) {
+    return true;
+  }
+
+  return (
+    error instanceof ProviderUnavailableError &&
+    (error.cause !== undefined || error.httpStatus !== undefined)
+  );
+}
+
+/**
+ * Idempotency store keeping records in process memory
+ *
+ * Records are lost on restart and not shared between processes.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<
+    string,
+    { record: IdempotencyRecord; expiresAt: number }
+  >();
+
+  /**
+   * Creates a new in-memory idempotency store
+   *
+   * @param now Clock returning the current time in milliseconds
+   */
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const entry = this.records.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= this.now()) {
+      this.records.delete(key);
+      return null;
+    }
+
+    return entry.record;
+  }
+
+  async setIfAbsent(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<boolean> {
+    if (await this.get(key)) {
+      return false;
+    }
+
+    await this.set(key, record, ttlMs);
+    return true;
+  }
+
+  async set(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<void> {
+    this.records.set(key, { record, expiresAt: this.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Runs operations at most once per idempotency key
+ *
+ * A completed operation is replayed from the store. Concurrent calls in the
+ * same process share the pending operation, while calls from other
+ * processes are rejected until it completes. Failed operations are not
+ * recorded, so they can be attempted again, unless they may have reached
+ * the provider: their key is kept as unknown, so a retry cannot charge
+ * twice.
+ */
+export class IdempotencyLayer {
+  private readonly store: IdempotencyStore;
+  private readonly ttlMs: number;
+  private inFlight = new Map<
+    string,
+    { fingerprint: string; promise: Promise<unknown> }
+  >();
+
+  /**
+   * Creates a new idempotency layer
+   *
+   * @param options Idempotency settings
+   */
+  constructor(options: IdempotencyOptions = {}) {
+    this.store = options.store || new InMemoryIdempotencyStore();
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /**
+   * Run an operation once for a key
+   *
+   * @param key Idempotency key
+   * @param fingerprint Summary of the request the key was given for
+   * @param operation Operation to run
+   * @returns Promise resolving to the response of the operation, replayed if it already completed
+   * @throws DuplicateReferenceError if the key was used for another request, the operation is running elsewhere or its outcome is unknown
+   */
+  async run<T>(
+    key: string,
+    fingerprint: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const pending = this.inFlight.get(key);
+
+    if (pending) {
+      this.checkFingerprint(key, pending.fingerprint, fingerprint);
+      return pending.promise as Promise<T>;
+    }
+
+    const promise = this.execute(key, fingerprint, operation).finally(() =>
+      this.inFlight.delete(key)
+    );
+    this.inFlight.set(key, { fingerprint, promise });
+
+    return promise;
+  }
+
+  /**
+   * Claim the key in the store, then run the operation and record its response
+   */
+  private async execute<T>(
+    key: string,
+    fingerprint: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const claim: IdempotencyRecord = {
+      status: "in_progress",
+      fingerprint,
+      createdAt: new Date(),
+    };
+
+    if (!(await this.store.setIfAbsent(key, claim, this.ttlMs))) {
+      const existing = await this.store.get(key);
+
+      if (existing) {
+        this.checkFingerprint(key, existing.fingerprint, fingerprint);
+
+        if (existing.status === "completed") {
+          return existing.response as T;
+        }
+
+        if (existing.status === "unknown") {
+          throw new DuplicateReferenceError(
+            `The outcome of the request with idempotency key ${key} is unknown: check it with the provider before sending it with a new key`
+          );
+        }
+
+        throw new DuplicateReferenceError(
+          `A request with idempotency key ${key} is already in progress`
+        );
+      }
+
+      // The record expired in the meantime
+      await this.store.set(key, claim, this.ttlMs);
+    }
+
+    try {
+      const response = await operation();
+      await this.store.set(
+        key,
+        { ...claim, status: "completed", response },
+        this.ttlMs
+      );
+      return response;
+    } catch (error) {
+      if (isOutcomeUnknown(error)) {
+        await this.store.set(key, { ...claim, status: "unknown" }, this.ttlMs);
+      } else {
+        await this.store.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reject keys reused for a different request
+   */
+  private checkFingerprint(
+    key: string,
+    expected: string,
+    actual: string
+  ): void {
+    if (expected !== actual) {
+      throw new DuplicateReferenceError(
+        `Idempotency key ${key} was already used for a different request`
+      );
+    }
+  }
+}
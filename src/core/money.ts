@@ -0,0 +1,310 @@
+import { CurrencyAmountLimits } from "../types";
+import { ValidationError } from "./errors";
+
+/**
+ * Number of minor unit digits of ISO 4217 currencies
+ *
+ * Currencies missing from the table use DEFAULT_CURRENCY_EXPONENT.
+ */
+export const CURRENCY_EXPONENTS: Record<string, number> = {
+  // Currencies without minor units
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  // Currencies with three minor unit digits
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/**
+ * Number of minor unit digits of currencies missing from the table
+ */
+const DEFAULT_CURRENCY_EXPONENT = 2;
+
+/**
+ * Decimal amount, e.g. "-19.99"
+ */
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Get the number of minor unit digits of a currency
+ *
+ * @param currency ISO 4217 currency code
+ * @returns Exponent of the currency, e.g. 0 for XOF and 2 for EUR
+ */
+export function getCurrencyExponent(currency: string): number {
+  return (
+    CURRENCY_EXPONENTS[currency.toUpperCase()] ?? DEFAULT_CURRENCY_EXPONENT
+  );
+}
+
+/**
+ * Amount of money held as an integer number of minor units
+ *
+ * Keeping amounts in minor units avoids floating point drift: 19.99 EUR is
+ * stored as 1999 cents, 5000 XOF as 5000 francs.
+ */
+export class Money {
+  /**
+   * Creates a new amount of money
+   *
+   * @param minor Amount in minor units
+   * @param currency Upper case ISO 4217 currency code
+   */
+  private constructor(
+    readonly minor: number,
+    readonly currency: string
+  ) {}
+
+  /**
+   * Create an amount from a number of minor units
+   *
+   * @param minor Amount in minor units, e.g. 1999 for 19.99 EUR
+   * @param currency ISO 4217 currency code
+   * @returns Amount of money
+   * @throws ValidationError if the amount is not a safe integer
+   */
+  static fromMinor(minor: number, currency: string): Money {
+    if (!Number.isSafeInteger(minor)) {
+      throw new ValidationError(
+        `Invalid amount: ${minor} is not a whole number of minor units`
+      );
+    }
+
+    return new Money(minor, currency.toUpperCase());
+  }
+
+  /**
+   * Create an amount from its major unit value
+   *
+   * The value is converted through its decimal representation, so 19.99
+   * becomes exactly 1999 cents. Trailing zeros beyond the precision of the
+   * currency are accepted, other extra digits are rejected.
+   *
+   * @param amount Amount in major units, as a number or a decimal string
+   * @param currency ISO 4217 currency code
+   * @returns Amount of money
+   * @throws ValidationError if the amount is not a decimal number or is more precise than the currency
+   */
+  static fromMajor(amount: number | string, currency: string): Money {
+    const text = typeof amount === "number" ? String(amount) : amount.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+
+    if (!match) {
+      throw new ValidationError(`Invalid amount: ${amount}`);
+    }
+
+    const [, sign, units, fraction = ""] = match;
+    const exponent = getCurrencyExponent(currency);
+
+    if (/[^0]/.test(fraction.slice(exponent))) {
+      throw new ValidationError(
+        `Invalid amount: ${currency.toUpperCase()} amounts have at most ${exponent} decimals, got ${text}`
+      );
+    }
+
+    const digits = units + fraction.slice(0, exponent).padEnd(exponent, "0");
+
+    return Money.fromMinor(Number(`${sign || ""}${digits}`), currency);
+  }
+
+  /**
+   * Number of minor unit digits of the currency
+   */
+  get exponent(): number {
+    return getCurrencyExponent(this.currency);
+  }
+
+  /**
+   * Get the amount in major units
+   *
+   * @returns Amount in major units, e.g. 19.99
+   */
+  toMajor(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Format the amount in major units with the precision of its currency
+   *
+   * @returns Decimal string, e.g. "19.99" for EUR or "5000" for XOF
+   */
+  toString(): string {
+    const digits = String(Math.abs(this.minor)).padStart(
+      this.exponent + 1,
+      "0"
+    );
+    const units = digits.slice(0, digits.length - this.exponent);
+    const fraction = digits.slice(digits.length - this.exponent);
+    const sign = this.minor < 0 ? "-" : "";
+
+    return fraction ? `${sign}${units}.${fraction}` : `${sign}${units}`;
+  }
+
+  /**
+   * Add another amount of the same currency
+   *
+   * @param other Amount to add
+   * @returns Sum of both amounts
+   * @throws ValidationError if the currencies differ
+   */
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinor(this.minor + other.minor, this.currency);
+  }
+
+  /**
+   * Subtract another amount of the same currency
+   *
+   * @param other Amount to subtract
+   * @returns Difference of both amounts
+   * @throws ValidationError if the currencies differ
+   */
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinor(this.minor - other.minor, this.currency);
+  }
+
+  /**
+   * Compare with another amount of the same currency
+   *
+   * @param other Amount to compare with
+   * @returns Negative, zero or positive number as this amount is smaller, equal or larger
+   * @throws ValidationError if the currencies differ
+   */
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.minor - other.minor;
+  }
+
+  /**
+   * Check whether another amount is the same
+   *
+   * @param other Amount to compare with
+   * @returns True if both the currency and the amount match
+   */
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  /**
+   * Serialize the amount for JSON
+   */
+  toJSON(): { amount: string; currency: string } {
+    return { amount: this.toString(), currency: this.currency };
+  }
+
+  /**
+   * Reject arithmetic across currencies
+   */
+  private assertSameCurrency(other: Money): void {
+    if (this.currency !== other.currency) {
+      throw new ValidationError(
+        `Currency mismatch: cannot combine ${this.currency} and ${other.currency} amounts`
+      );
+    }
+  }
+}
+
+/**
+ * Check whether an amount fits the precision of its currency
+ *
+ * @param amount Amount in major units
+ * @param currency ISO 4217 currency code
+ * @returns True if the amount has no more decimals than the currency allows
+ */
+export function hasCurrencyPrecision(
+  amount: number | string,
+  currency: string
+): boolean {
+  try {
+    Money.fromMajor(amount, currency);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert an amount received from a provider to major units
+ *
+ * Amounts are read through their decimal representation rather than
+ * parseFloat, so malformed values are rejected instead of truncated.
+ *
+ * @param amount Amount in major units, as sent by the provider
+ * @param currency ISO 4217 currency code, when the provider sends one
+ * @returns Amount in major units, exact to the precision of the currency
+ * @throws ValidationError if the amount is not a decimal number or is more precise than the currency
+ */
+export function parseMajorAmount(
+  amount: number | string,
+  currency?: string
+): number {
+  if (currency) {
+    return Money.fromMajor(amount, currency).toMajor();
+  }
+
+  const text = typeof amount === "number" ? String(amount) : amount.trim();
+
+  if (!DECIMAL_PATTERN.test(text)) {
+    throw new ValidationError(`Invalid amount: ${amount}`);
+  }
+
+  return Number(text);
+}
+
+/**
+ * Check an amount against the limits of a provider
+ *
+ * @param money Amount to check
+ * @param limits Limits keyed by currency code
+ * @param provider Name of the provider the limits belong to
+ * @throws ValidationError if the amount is not positive or outside the limits of its currency
+ */
+export function assertAmountWithinLimits(
+  money: Money,
+  limits: CurrencyAmountLimits,
+  provider: string
+): void {
+  const { currency } = money;
+
+  if (money.minor <= 0) {
+    throw new ValidationError(`Invalid amount: ${money} ${currency}`, {
+      provider,
+    });
+  }
+
+  const { min, max } = limits[currency] || {};
+
+  if (min !== undefined && money.compare(Money.fromMajor(min, currency)) < 0) {
+    throw new ValidationError(
+      `Invalid amount: ${money} ${currency} is below the ${provider} minimum of ${min} ${currency}`,
+      { provider }
+    );
+  }
+
+  if (max !== undefined && money.compare(Money.fromMajor(max, currency)) > 0) {
+    throw new ValidationError(
+      `Invalid amount: ${money} ${currency} is above the ${provider} maximum of ${max} ${currency}`,
+      { provider }
+    );
+  }
+}
@@ -0,0 +1,242 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  RawWebhookBody,
+  WebhookSignatureOptions,
+  WebhookValidationResult,
+} from "../types";
+import { ValidationError } from "./errors";
+
+/**
+ * Default header carrying a signature over the webhook body
+ */
+const DEFAULT_SIGNATURE_HEADER = "x-signature";
+
+/**
+ * Base64 or base64url text, with optional padding
+ */
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]+={0,2}$/;
+
+/**
+ * Check whether a webhook payload is a body as received rather than parsed
+ *
+ * @param payload Webhook payload
+ * @returns True if the payload is a Buffer or a string
+ */
+export function isRawWebhookBody(payload: unknown): payload is RawWebhookBody {
+  return Buffer.isBuffer(payload) || typeof payload === "string";
+}
+
+/**
+ * Parse a webhook body according to its content type
+ *
+ * Bodies that are neither declared nor shaped as JSON are read as form
+ * fields, the format most providers post their notifications in.
+ *
+ * @param body Body exactly as received
+ * @param contentType Content-Type header of the request
+ * @returns Parsed payload, or null if the body is empty
+ * @throws ValidationError if a JSON body is malformed
+ */
+export function parseWebhookBody(
+  body: RawWebhookBody,
+  contentType = ""
+): unknown {
+  const text = Buffer.isBuffer(body) ? body.toString("utf8") : body;
+
+  if (!text.trim()) {
+    return null;
+  }
+
+  if (contentType.toLowerCase().includes("json") || /^\s*[[{]/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ValidationError("Malformed webhook payload");
+    }
+  }
+
+  const payload: Record<string, string> = {};
+  new URLSearchParams(text).forEach((value, key) => {
+    payload[key] = value;
+  });
+  return payload;
+}
+
+/**
+ * Read a webhook payload that may still be a raw body
+ *
+ * @param payload Parsed payload, or body exactly as received
+ * @param contentType Content-Type header of the request
+ * @returns Parsed payload, with the received bytes when the body was raw
+ * @throws ValidationError if a JSON body is malformed
+ */
+export function readWebhookPayload(
+  payload: unknown,
+  contentType?: string
+): { payload: unknown; rawBody?: Buffer } {
+  if (!isRawWebhookBody(payload)) {
+    return { payload };
+  }
+
+  return {
+    payload: parseWebhookBody(payload, contentType),
+    rawBody: Buffer.isBuffer(payload) ? payload : Buffer.from(payload, "utf8"),
+  };
+}
+
+/**
+ * Get a header of a webhook request, whatever the case of its name
+ *
+ * @param headers Request headers
+ * @param name Header name
+ * @returns Header value, or undefined if missing
+ */
+export function getHeader(
+  headers: Record<string, string>,
+  name: string
+): string | undefined {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find((key) => key.toLowerCase() === lower);
+  return key !== undefined ? headers[key] : undefined;
+}
+
+/**
+ * Parse text as a JSON object or array
+ *
+ * @param text Text to parse
+ * @returns Parsed value, or undefined if the text is not a JSON object or array
+ */
+function parseJsonObject(text: string): unknown {
+  if (!/^\s*[[{]/.test(text)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode a field carrying JSON, possibly URL or base64 encoded
+ *
+ * Providers echo merchant data back in a single field, sometimes encoded
+ * once more, e.g. Paytech custom_field. Plain JSON is tried first, then URL
+ * decoding, then base64.
+ *
+ * @param value Field value
+ * @returns Decoded JSON value, or undefined if the field does not carry JSON
+ */
+export function decodeEncodedJson(value: string): unknown {
+  const plain = parseJsonObject(value);
+  if (plain !== undefined) {
+    return plain;
+  }
+
+  if (/%[0-9A-Fa-f]{2}/.test(value)) {
+    try {
+      const decoded = decodeURIComponent(value.replace(/\+/g, " "));
+      const parsed = parseJsonObject(decoded);
+      if (parsed !== undefined) {
+        return parsed;
+      }
+    } catch {
+      // Not URL encoded after all
+    }
+  }
+
+  const compact = value.trim();
+  if (BASE64_PATTERN.test(compact)) {
+    const decoded = Buffer.from(
+      compact.replace(/-/g, "+").replace(/_/g, "/"),
+      "base64"
+    ).toString("utf8");
+    return parseJsonObject(decoded);
+  }
+
+  return undefined;
+}
+
+/**
+ * Verify an HMAC signature computed over a webhook body
+ *
+ * The signature is checked against the exact bytes received, in constant
+ * time. Hex and base64 signatures are accepted, with or without an
+ * algorithm prefix such as "sha256=".
+ *
+ * @param rawBody Body exactly as received
+ * @param signature Signature sent with the webhook
+ * @param secret Secret shared with the provider
+ * @param algorithm HMAC digest algorithm (default: sha256)
+ * @returns True if the signature matches the body
+ */
+export function verifyBodySignature(
+  rawBody: RawWebhookBody,
+  signature: string,
+  secret: string,
+  algorithm = "sha256"
+): boolean {
+  const received = signature.trim().replace(/^(?:sha\d+|md5)=/i, "");
+  const digest = createHmac(algorithm, secret).update(rawBody).digest();
+
+  for (const encoding of ["hex", "base64"] as const) {
+    const expected = Buffer.from(digest.toString(encoding), "utf8");
+    const actual = Buffer.from(
+      encoding === "hex" ? received.toLowerCase() : received,
+      "utf8"
+    );
+
+    if (
+      expected.length === actual.length &&
+      timingSafeEqual(expected, actual)
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check the signature over the body of a webhook, when one is required
+ *
+ * @param options Body signature settings of the gateway, or undefined if none is required
+ * @param headers HTTP headers from the webhook request
+ * @param rawBody Body exactly as received
+ * @returns Validation result, valid if no signature is required
+ */
+export function checkBodySignature(
+  options: WebhookSignatureOptions | undefined,
+  headers: Record<string, string>,
+  rawBody?: Buffer
+): WebhookValidationResult {
+  if (!options) {
+    return { isValid: true };
+  }
+
+  if (!rawBody) {
+    return {
+      isValid: false,
+      reason: "Raw body required to verify the webhook signature",
+    };
+  }
+
+  const signature = getHeader(
+    headers,
+    options.header || DEFAULT_SIGNATURE_HEADER
+  );
+
+  if (!signature) {
+    return { isValid: false, reason: "Missing signature header" };
+  }
+
+  return verifyBodySignature(
+    rawBody,
+    signature,
+    options.secret,
+    options.algorithm
+  )
+    ? { isValid: true }
+    : { isValid: false, reason: "Invalid signature" };
+}
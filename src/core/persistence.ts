@@ -0,0 +1,830 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import {
+  PaymentLookup,
+  PaymentRecord,
+  PaymentRequest,
+  PaymentResponse,
+  PaymentStatusSource,
+  PaymentStore,
+  PersistenceOptions,
+  RefundRecord,
+  RefundResponse,
+  Transaction,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventRecord,
+  WebhookEventType,
+} from "../types";
+import { ValidationError } from "./errors";
+import { Money } from "./money";
+import { getWebhookDeliveryKey } from "./replay";
+import { assertTransition, canTransition } from "./transitions";
+
+/**
+ * Default maximum number of payments kept by an in-memory store
+ */
+const DEFAULT_MAX_PAYMENTS = 10000;
+
+/**
+ * Check whether a payment matches every field of a lookup
+ *
+ * @param payment Payment record
+ * @param lookup Fields to match
+ * @returns True if every given field is equal
+ */
+function matchesLookup(payment: PaymentRecord, lookup: PaymentLookup): boolean {
+  return (
+    (lookup.alias === undefined || payment.alias === lookup.alias) &&
+    (lookup.reference === undefined ||
+      payment.reference === lookup.reference) &&
+    (lookup.paymentId === undefined ||
+      payment.paymentId === lookup.paymentId) &&
+    (lookup.gatewayReference === undefined ||
+      payment.gatewayReference === lookup.gatewayReference)
+  );
+}
+
+/**
+ * Copy a payment record, so stored records are not changed by callers
+ */
+function copyPayment(payment: PaymentRecord): PaymentRecord {
+  return {
+    ...payment,
+    history: payment.history.map((change) => ({ ...change })),
+    refunds: payment.refunds.map((refund) => ({ ...refund })),
+  };
+}
+
+/**
+ * Get the total refunded for a payment
+ *
+ * Refunds issued without an amount count as the full payment.
+ *
+ * @param payment Payment record
+ * @returns Total refunded, or undefined if the amount or currency of the payment is unknown
+ */
+function getRefundedAmount(payment: PaymentRecord): Money | undefined {
+  if (payment.amount === undefined || !payment.currency) {
+    return undefined;
+  }
+
+  const captured = Money.fromMajor(payment.amount, payment.currency);
+
+  return payment.refunds
+    .filter((refund) => refund.status !== TransactionStatus.FAILED)
+    .reduce(
+      (total, refund) =>
+        total.add(
+          refund.amount !== undefined
+            ? Money.fromMajor(refund.amount, captured.currency)
+            : captured
+        ),
+      Money.fromMinor(0, captured.currency)
+    );
+}
+
+/**
+ * Get the refund totals of a payment, with the status they amount to
+ *
+ * @param payment Payment record
+ * @returns Total refunded, balance left and status, or an empty object if the amount of the payment is unknown
+ */
+function summarizeRefunds(payment: PaymentRecord): Pick<
+  RefundResponse,
+  "refundedAmount" | "refundableAmount"
+> & {
+  status?: TransactionStatus;
+} {
+  const refunded = getRefundedAmount(payment);
+
+  if (!refunded || refunded.minor === 0) {
+    return {};
+  }
+
+  const balance = Money.fromMajor(
+    payment.amount as number,
+    refunded.currency
+  ).subtract(refunded);
+  const left = balance.minor > 0 ? balance.toMajor() : 0;
+
+  return {
+    refundedAmount: refunded.toMajor(),
+    refundableAmount: left,
+    status:
+      left > 0
+        ? TransactionStatus.PARTIALLY_REFUNDED
+        : TransactionStatus.REFUNDED,
+  };
+}
+
+/**
+ * Payment store keeping payments and webhook events in process memory
+ *
+ * Data is lost on restart and not shared between processes. The number of
+ * payments is bounded: the least recently updated ones are forgotten first,
+ * with their webhook events.
+ */
+export class InMemoryPaymentStore implements PaymentStore {
+  protected payments = new Map<string, PaymentRecord>();
+  protected webhookEvents = new Map<string, WebhookEventRecord>();
+
+  /**
+   * Creates a new in-memory payment store
+   *
+   * @param maxPayments Maximum number of payments kept (default: 10000)
+   */
+  constructor(private readonly maxPayments: number = DEFAULT_MAX_PAYMENTS) {}
+
+  async findPayment(lookup: PaymentLookup): Promise<PaymentRecord | null> {
+    let found: PaymentRecord | null = null;
+
+    for (const payment of this.payments.values()) {
+      if (
+        matchesLookup(payment, lookup) &&
+        (!found || payment.updatedAt.getTime() >= found.updatedAt.getTime())
+      ) {
+        found = payment;
+      }
+    }
+
+    return found ? copyPayment(found) : null;
+  }
+
+  async savePayment(payment: PaymentRecord): Promise<void> {
+    // Moved last, so the payments stay ordered by last update
+    this.payments.delete(payment.id);
+    this.payments.set(payment.id, copyPayment(payment));
+    this.evict();
+  }
+
+  async saveWebhookEvent(record: WebhookEventRecord): Promise<void> {
+    this.webhookEvents.set(record.id, { ...record });
+  }
+
+  async listWebhookEvents(
+    paymentRecordId: string
+  ): Promise<WebhookEventRecord[]> {
+    return Array.from(this.webhookEvents.values())
+      .filter((record) => record.paymentRecordId === paymentRecordId)
+      .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime())
+      .map((record) => ({ ...record }));
+  }
+
+  async listPending(createdBefore: Date): Promise<PaymentRecord[]> {
+    return Array.from(this.payments.values())
+      .filter(
+        (payment) =>
+          payment.status === TransactionStatus.PENDING &&
+          payment.createdAt.getTime() < createdBefore.getTime()
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(copyPayment);
+  }
+
+  /**
+   * Forget the least recently updated payments beyond the maximum
+   */
+  private evict(): void {
+    for (const id of this.payments.keys()) {
+      if (this.payments.size <= this.maxPayments) {
+        return;
+      }
+
+      this.payments.delete(id);
+      for (const [recordId, record] of this.webhookEvents) {
+        if (record.paymentRecordId === id) {
+          this.webhookEvents.delete(recordId);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Contents of the file of a FilePaymentStore, with dates as ISO strings
+ */
+interface PaymentStoreFile {
+  payments: PaymentRecord[];
+  webhookEvents: WebhookEventRecord[];
+}
+
+/**
+ * Turn the dates of a payment read from JSON back into Date objects
+ */
+function revivePayment(payment: PaymentRecord): PaymentRecord {
+  return {
+    ...payment,
+    history: payment.history.map((change) => ({
+      ...change,
+      at: new Date(change.at),
+    })),
+    refunds: payment.refunds.map((refund) => ({
+      ...refund,
+      createdAt: new Date(refund.createdAt),
+    })),
+    createdAt: new Date(payment.createdAt),
+    updatedAt: new Date(payment.updatedAt),
+  };
+}
+
+/**
+ * Turn the dates of a webhook event read from JSON back into Date objects
+ */
+function reviveWebhookEvent(record: WebhookEventRecord): WebhookEventRecord {
+  return {
+    ...record,
+    event: { ...record.event, createdAt: new Date(record.event.createdAt) },
+    receivedAt: new Date(record.receivedAt),
+  };
+}
+
+/**
+ * Payment store keeping payments and webhook events in a JSON file
+ *
+ * A reference adapter for single-process deployments: the whole file is
+ * read on first use and rewritten, through a temporary file, on every
+ * change. Use a database-backed store when several processes share the
+ * history.
+ */
+export class FilePaymentStore extends InMemoryPaymentStore {
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new file payment store
+   *
+   * @param filePath Path of the JSON file, created if missing
+   */
+  constructor(private readonly filePath: string) {
+    super(Infinity);
+  }
+
+  async findPayment(lookup: PaymentLookup): Promise<PaymentRecord | null> {
+    await this.load();
+    return await super.findPayment(lookup);
+  }
+
+  async savePayment(payment: PaymentRecord): Promise<void> {
+    await this.load();
+    await super.savePayment(payment);
+    await this.write();
+  }
+
+  async saveWebhookEvent(record: WebhookEventRecord): Promise<void> {
+    await this.load();
+    await super.saveWebhookEvent(record);
+    await this.write();
+  }
+
+  async listWebhookEvents(
+    paymentRecordId: string
+  ): Promise<WebhookEventRecord[]> {
+    await this.load();
+    return await super.listWebhookEvents(paymentRecordId);
+  }
+
+  async listPending(createdBefore: Date): Promise<PaymentRecord[]> {
+    await this.load();
+    return await super.listPending(createdBefore);
+  }
+
+  /**
+   * Read the file once, starting empty if it does not exist
+   *
+   * A failed read is not kept, so the next operation reads the file again,
+   * e.g. once it has been repaired.
+   */
+  private load(): Promise<void> {
+    this.loading ??= readFile(this.filePath, "utf8")
+      .then(
+        (text) => {
+          const contents = JSON.parse(text) as PaymentStoreFile;
+
+          for (const payment of contents.payments) {
+            this.payments.set(payment.id, revivePayment(payment));
+          }
+          for (const record of contents.webhookEvents) {
+            this.webhookEvents.set(record.id, reviveWebhookEvent(record));
+          }
+        },
+        (error: NodeJS.ErrnoException) => {
+          if (error.code !== "ENOENT") {
+            throw error;
+          }
+        }
+      )
+      .catch((error) => {
+        this.loading = undefined;
+        throw error;
+      });
+
+    return this.loading;
+  }
+
+  /**
+   * Rewrite the file, one write at a time
+   */
+  private write(): Promise<void> {
+    const contents: PaymentStoreFile = {
+      payments: Array.from(this.payments.values()),
+      webhookEvents: Array.from(this.webhookEvents.values()),
+    };
+    const text = JSON.stringify(contents, null, 2);
+    const tmpPath = `${this.filePath}.tmp`;
+
+    // A failed write must not block the following ones
+    const write = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(tmpPath, text, "utf8");
+        await rename(tmpPath, this.filePath);
+      });
+
+    this.writing = write;
+    return write;
+  }
+}
+
+/**
+ * Records the payments, refunds and webhook events of a hub in its store
+ *
+ * A status change is appended to the history of a payment only when the
+ * status differs from the last known one. Status changes are checked
+ * against the transaction state machine, so a late failure notification
+ * cannot overwrite a completed payment.
+ */
+export class PaymentRecorder {
+  private readonly store: PaymentStore;
+  private readonly invalidTransitions: "flag" | "reject";
+
+  /**
+   * Creates a new payment recorder
+   *
+   * @param options Payment persistence settings
+   * @param now Clock returning the current time in milliseconds
+   */
+  constructor(
+    options: PersistenceOptions = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.store = options.store || new InMemoryPaymentStore();
+    this.invalidTransitions = options.invalidTransitions ?? "flag";
+  }
+
+  /**
+   * Find a payment
+   *
+   * @param lookup Fields to match
+   * @returns Promise resolving to the payment, or null if none matches
+   * @throws ValidationError if the lookup has no reference, paymentId or gatewayReference
+   */
+  async find(lookup: PaymentLookup): Promise<PaymentRecord | null> {
+    if (!lookup.reference && !lookup.paymentId && !lookup.gatewayReference) {
+      throw new ValidationError(
+        "A reference, paymentId or gatewayReference is required to find a payment"
+      );
+    }
+
+    return await this.store.findPayment(lookup);
+  }
+
+  /**
+   * List the webhook events received for a payment
+   *
+   * @param paymentRecordId ID of the payment record
+   * @returns Promise resolving to the events, oldest first
+   */
+  async listWebhookEvents(
+    paymentRecordId: string
+  ): Promise<WebhookEventRecord[]> {
+    return await this.store.listWebhookEvents(paymentRecordId);
+  }
+
+  /**
+   * List the payments still pending that were created before a date
+   *
+   * @param createdBefore Date the payments were created before
+   * @returns Promise resolving to the payments, oldest first
+   */
+  async listPending(createdBefore: Date): Promise<PaymentRecord[]> {
+    return await this.store.listPending(createdBefore);
+  }
+
+  /**
+   * Record a payment that was created, or created again with the same reference
+   *
+   * @param gateway Gateway instance that served the payment
+   * @param request Payment request
+   * @param response Payment response
+   */
+  async recordPayment(
+    gateway: { alias: string; provider: string },
+    request: PaymentRequest,
+    response: PaymentResponse
+  ): Promise<void> {
+    const existing = await this.store.findPayment({
+      alias: gateway.alias,
+      reference: request.reference,
+    });
+    const payment: PaymentRecord = {
+      ...(existing ?? this.createRecord(gateway)),
+      reference: request.reference,
+      paymentId: response.paymentId ?? existing?.paymentId,
+      gatewayReference: response.gatewayReference ?? existing?.gatewayReference,
+      amount: request.amount,
+      currency: request.currency,
+      description: request.description,
+      customerEmail: request.customerEmail,
+      metadata: request.metadata,
+      redirectUrl: response.redirectUrl ?? existing?.redirectUrl,
+    };
+    const status = response.success
+      ? (response.status ?? TransactionStatus.PENDING)
+      : TransactionStatus.FAILED;
+
+    // A response replayed by the idempotency layer does not reset the status
+    await this.store.savePayment(
+      existing?.history.length
+        ? { ...payment, updatedAt: new Date(this.now()) }
+        : this.withStatus(payment, status, "create")
+    );
+  }
+
+  /**
+   * Check a refund against the refundable balance of the payment
+   *
+   * Payments the hub does not know, or whose amount it does not know, are
+   * only checked for a positive amount.
+   *
+   * @param gateway Gateway instance the refund is issued on
+   * @param paymentId ID of the payment to refund
+   * @param amount Amount to refund, or undefined for the full payment
+   * @returns Promise resolving to the amount to send: the requested one, or the balance left when a partially refunded payment is refunded in full
+   * @throws ValidationError if the amount is not positive or exceeds the refundable balance
+   * @throws InvalidTransitionError if the payment is neither completed nor partially refunded and invalid transitions are rejected
+   */
+  async checkRefund(
+    gateway: { alias: string; provider: string },
+    paymentId: string,
+    amount?: number
+  ): Promise<number | undefined> {
+    if (amount !== undefined && !(amount > 0)) {
+      throw new ValidationError(`Invalid refund amount: ${amount}`, {
+        provider: gateway.provider,
+      });
+    }
+
+    const payment = await this.store.findPayment({
+      alias: gateway.alias,
+      paymentId,
+    });
+
+    if (!payment) {
+      return amount;
+    }
+
+    if (this.invalidTransitions === "reject" && payment.history.length > 0) {
+      assertTransition(
+        payment.status,
+        TransactionStatus.PARTIALLY_REFUNDED,
+        gateway.provider
+      );
+    }
+
+    const refunded = getRefundedAmount(payment);
+    if (!refunded) {
+      return amount;
+    }
+
+    const balance = Money.fromMajor(
+      payment.amount as number,
+      refunded.currency
+    ).subtract(refunded);
+
+    if (balance.minor <= 0) {
+      throw new ValidationError("Payment already fully refunded", {
+        provider: gateway.provider,
+      });
+    }
+
+    if (amount === undefined) {
+      return refunded.minor > 0 ? balance.toMajor() : undefined;
+    }
+
+    if (Money.fromMajor(amount, balance.currency).compare(balance) > 0) {
+      throw new ValidationError(
+        `Refund amount exceeds the refundable balance: ${amount} > ${balance.toMajor()} ${balance.currency}`,
+        { provider: gateway.provider }
+      );
+    }
+
+    return amount;
+  }
+
+  /**
+   * Check the status a webhook reports, when invalid transitions are rejected
+   *
+   * @param alias Alias of the gateway instance that processed the webhook
+   * @param event Webhook event
+   * @throws InvalidTransitionError if the payment cannot move to the status of the event
+   */
+  async checkWebhook(alias: string, event: WebhookEvent): Promise<void> {
+    if (
+      this.invalidTransitions !== "reject" ||
+      event.type === WebhookEventType.UNKNOWN
+    ) {
+      return;
+    }
+
+    const payment = await this.findWebhookPayment(alias, event);
+
+    if (payment?.history.length) {
+      assertTransition(payment.status, event.data.status, event.gatewayName);
+    }
+  }
+
+  /**
+   * Settle the status of a refund webhook against the amount of the payment
+   *
+   * Providers do not always tell partial refunds apart, so a refund of less
+   * than the payment amount partially refunds it, like an API refund.
+   *
+   * @param alias Alias of the gateway instance that processed the webhook
+   * @param event Webhook event
+   * @returns Promise resolving to the event, partially refunded if it refunds less than the payment amount
+   */
+  async settleWebhook(
+    alias: string,
+    event: WebhookEvent
+  ): Promise<WebhookEvent> {
+    const { amount, currency, status } = event.data;
+
+    if (
+      event.type !== WebhookEventType.REFUND_SUCCESS ||
+      status !== TransactionStatus.REFUNDED ||
+      amount === undefined
+    ) {
+      return event;
+    }
+
+    const payment = await this.findWebhookPayment(alias, event);
+
+    if (
+      payment?.amount === undefined ||
+      !payment.currency ||
+      (currency && currency.toUpperCase() !== payment.currency.toUpperCase())
+    ) {
+      return event;
+    }
+
+    const refunded = Money.fromMajor(amount, payment.currency);
+    if (
+      refunded.compare(Money.fromMajor(payment.amount, payment.currency)) >= 0
+    ) {
+      return event;
+    }
+
+    return {
+      ...event,
+      data: { ...event.data, status: TransactionStatus.PARTIALLY_REFUNDED },
+    };
+  }
+
+  /**
+   * Record the status of a payment reported by verifyPayment
+   *
+   * @param gateway Gateway instance the payment was verified on
+   * @param paymentId ID of the payment
+   * @param status Reported status
+   */
+  async recordStatus(
+    gateway: { alias: string; provider: string },
+    paymentId: string,
+    status: TransactionStatus
+  ): Promise<void> {
+    const payment = (await this.store.findPayment({
+      alias: gateway.alias,
+      paymentId,
+    })) ?? { ...this.createRecord(gateway), paymentId };
+
+    await this.store.savePayment(this.withStatus(payment, status, "verify"));
+  }
+
+  /**
+   * Record the details of a payment reported by getTransaction
+   *
+   * @param gateway Gateway instance the payment was looked up on
+   * @param transaction Transaction details
+   */
+  async recordTransaction(
+    gateway: { alias: string; provider: string },
+    transaction: Transaction
+  ): Promise<void> {
+    const existing = await this.store.findPayment({
+      alias: gateway.alias,
+      paymentId: transaction.paymentId,
+    });
+    const payment: PaymentRecord = {
+      ...(existing ?? this.createRecord(gateway)),
+      paymentId: transaction.paymentId,
+      reference: existing?.reference ?? transaction.reference,
+      gatewayReference:
+        transaction.gatewayReference ?? existing?.gatewayReference,
+      amount: existing?.amount ?? transaction.amount,
+      currency: existing?.currency ?? transaction.currency,
+      description: existing?.description ?? transaction.description,
+      metadata: existing?.metadata ?? transaction.metadata,
+    };
+
+    await this.store.savePayment(
+      this.withStatus(payment, transaction.status, "transaction")
+    );
+  }
+
+  /**
+   * Record a refund issued for a payment
+   *
+   * The status of the refund is settled against the amount of the payment:
+   * partially refunded until the refunds add up to it, refunded after.
+   *
+   * @param gateway Gateway instance the refund was issued on
+   * @param paymentId ID of the refunded payment
+   * @param amount Amount sent to the provider, or undefined for the full payment
+   * @param response Refund response
+   * @param options Reason given for the refund, and whether the response was replayed by the idempotency layer rather than issued now
+   * @returns Promise resolving to the response, with the settled status, the total refunded and the balance left when the payment amount is known
+   */
+  async recordRefund(
+    gateway: { alias: string; provider: string },
+    paymentId: string,
+    amount: number | undefined,
+    response: RefundResponse,
+    options: { reason?: string; replayed?: boolean } = {}
+  ): Promise<RefundResponse> {
+    const existing = (await this.store.findPayment({
+      alias: gateway.alias,
+      paymentId,
+    })) ?? { ...this.createRecord(gateway), paymentId };
+
+    if (options.replayed || !response.success) {
+      return { ...response, ...summarizeRefunds(existing) };
+    }
+
+    const refund: RefundRecord = {
+      refundId: response.refundId,
+      amount: response.amount ?? amount,
+      reason: options.reason,
+      status: TransactionStatus.REFUNDED,
+      createdAt: response.createdAt ?? new Date(this.now()),
+    };
+    const summary = summarizeRefunds({
+      ...existing,
+      refunds: [...existing.refunds, refund],
+    });
+    const status =
+      summary.status ?? response.status ?? TransactionStatus.REFUNDED;
+    const payment = this.withStatus(
+      { ...existing, refunds: [...existing.refunds, { ...refund, status }] },
+      status,
+      "refund"
+    );
+
+    await this.store.savePayment(payment);
+    return { ...response, ...summary };
+  }
+
+  /**
+   * Record a webhook event, updating the status of the payment it is about
+   *
+   * Events of unknown types are stored without changing the payment. The
+   * status of synthetic events is recorded as found by reconciliation.
+   *
+   * @param alias Alias of the gateway instance that processed the webhook
+   * @param event Webhook event
+   */
+  async recordWebhook(alias: string, event: WebhookEvent): Promise<void> {
+    const { paymentId, reference, gatewayReference } = event.data;
+    const existing = await this.findWebhookPayment(alias, event);
+
+    let payment: PaymentRecord = {
+      ...(existing ??
+        this.createRecord({ alias, provider: event.gatewayName })),
+      reference: existing?.reference ?? reference,
+      paymentId: existing?.paymentId ?? paymentId,
+      gatewayReference: gatewayReference ?? existing?.gatewayReference,
+      amount: existing?.amount ?? event.data.amount,
+      currency: existing?.currency ?? event.data.currency,
+    };
+
+    if (event.type !== WebhookEventType.UNKNOWN) {
+      payment = this.withStatus(
+        payment,
+        event.data.status,
+        event.synthetic ? "reconciliation" : "webhook"
+      );
+    }
+
+    await this.store.savePayment(payment);
+    await this.store.saveWebhookEvent({
+      id: getWebhookDeliveryKey(event),
+      alias,
+      paymentRecordId: payment.id,
+      event,
+      receivedAt: new Date(this.now()),
+    });
+  }
+
+  /**
+   * Find the payment a webhook event is about, by payment ID or reference
+   */
+  private async findWebhookPayment(
+    alias: string,
+    event: WebhookEvent
+  ): Promise<PaymentRecord | null> {
+    const { paymentId, reference } = event.data;
+
+    return (
+      (paymentId && (await this.store.findPayment({ alias, paymentId }))) ||
+      (reference && (await this.store.findPayment({ alias, reference }))) ||
+      null
+    );
+  }
+
+  /**
+   * Create the record of a payment first seen now
+   */
+  private createRecord(gateway: {
+    alias: string;
+    provider: string;
+  }): PaymentRecord {
+    const now = new Date(this.now());
+
+    return {
+      id: `pay_${randomUUID()}`,
+      alias: gateway.alias,
+      provider: gateway.provider,
+      status: TransactionStatus.PENDING,
+      history: [],
+      refunds: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Set the status of a payment, appending it to the history if it changed
+   * or is the first one known
+   *
+   * A status the payment cannot move to is kept out of the payment and
+   * flagged in the history, or rejected.
+   *
+   * @throws InvalidTransitionError if the transition is invalid and invalid transitions are rejected
+   */
+  private withStatus(
+    payment: PaymentRecord,
+    status: TransactionStatus,
+    source: PaymentStatusSource
+  ): PaymentRecord {
+    const at = new Date(this.now());
+
+    if (payment.history.length === 0) {
+      return {
+        ...payment,
+        status,
+        history: [{ status, source, at }],
+        updatedAt: at,
+      };
+    }
+
+    if (payment.status === status) {
+      return { ...payment, updatedAt: at };
+    }
+
+    const from = payment.status;
+
+    if (!canTransition(from, status)) {
+      if (this.invalidTransitions === "reject") {
+        assertTransition(from, status, payment.provider);
+      }
+
+      return {
+        ...payment,
+        history: [
+          ...payment.history,
+          { from, status, source, at, invalid: true },
+        ],
+        updatedAt: at,
+      };
+    }
+
+    return {
+      ...payment,
+      status,
+      history: [...payment.history, { from, status, source, at }],
+      updatedAt: at,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  PaymentWaitResult,
+  TransactionStatus,
+  WaitForPaymentOptions,
+} from "../types";
+import { PaymentError, ValidationError } from "./errors";
+
+/**
+ * Default time to wait for a payment to settle, in milliseconds
+ */
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Default delay between the first two status checks, in milliseconds
+ */
+const DEFAULT_INTERVAL_MS = 5000;
+
+/**
+ * Default factor applied to the delay after every status check
+ */
+const DEFAULT_BACKOFF = 1.5;
+
+/**
+ * Default maximum delay between two status checks, in milliseconds
+ */
+const DEFAULT_MAX_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Wait for a delay, unless the signal aborts or the payment is notified first
+ *
+ * @param ms Delay in milliseconds
+ * @param signal Signal aborting the wait
+ * @param notified Promise resolving to the status a webhook reported
+ * @returns Promise resolving to the notified status, or undefined once the delay elapsed
+ */
+function waitForNextCheck(
+  ms: number,
+  signal?: AbortSignal,
+  notified?: Promise<TransactionStatus>
+): Promise<TransactionStatus | undefined> {
+  return new Promise((resolve, reject) => {
+    const settle = (status?: TransactionStatus) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(status);
+    };
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => settle(), ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    notified?.then(settle);
+  });
+}
+
+/**
+ * Check the status of a payment until it settles
+ *
+ * The first check is made right away, then the delay between two checks
+ * grows by the backoff factor, up to its maximum. Transient provider errors
+ * are reported through onProgress and checked again; other errors reject.
+ *
+ * @param paymentId ID of the payment
+ * @param verify Status check of the payment
+ * @param options Wait settings
+ * @param notified Promise resolving to the status a webhook reported for the payment, ending the wait early
+ * @param now Clock returning the current time in milliseconds
+ * @returns Promise resolving to the settled status, or to the last known status on timeout
+ * @throws ValidationError if the wait settings are invalid
+ * @throws PaymentError if a status check fails for a reason that is not transient
+ */
+export async function pollPaymentStatus(
+  paymentId: string,
+  verify: () => Promise<TransactionStatus>,
+  options: WaitForPaymentOptions = {},
+  notified?: Promise<TransactionStatus>,
+  now: () => number = Date.now
+): Promise<PaymentWaitResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const backoff = options.backoff ?? DEFAULT_BACKOFF;
+  const maxIntervalMs = options.maxIntervalMs ?? DEFAULT_MAX_INTERVAL_MS;
+
+  if (!(intervalMs > 0) || !(maxIntervalMs > 0) || !(backoff >= 1)) {
+    throw new ValidationError(
+      "The polling interval must be positive and the backoff at least 1"
+    );
+  }
+
+  options.signal?.throwIfAborted();
+
+  const startedAt = now();
+  let status = TransactionStatus.PENDING;
+  let delayMs = intervalMs;
+
+  for (let attempt = 1; ; attempt++) {
+    let error: unknown;
+    try {
+      status = await verify();
+    } catch (caught) {
+      if (!(caught instanceof PaymentError && caught.retryable)) {
+        throw caught;
+      }
+      error = caught;
+    }
+
+    const elapsedMs = now() - startedAt;
+    const settled = status !== TransactionStatus.PENDING;
+    const remainingMs = timeoutMs - elapsedMs;
+    const nextDelayMs =
+      settled || remainingMs <= 0
+        ? undefined
+        : Math.min(delayMs, maxIntervalMs, remainingMs);
+
+    options.onProgress?.({
+      paymentId,
+      attempt,
+      status,
+      error,
+      elapsedMs,
+      nextDelayMs,
+    });
+
+    if (nextDelayMs === undefined) {
+      return {
+        paymentId,
+        status,
+        timedOut: !settled,
+        source: "poll",
+        attempts: attempt,
+        elapsedMs,
+      };
+    }
+
+    const reported = await waitForNextCheck(
+      nextDelayMs,
+      options.signal,
+      notified
+    );
+
+    if (reported) {
+      return {
+        paymentId,
+        status: reported,
+        timedOut: false,
+        source: "webhook",
+        attempts: attempt,
+        elapsedMs: now() - startedAt,
+      };
+    }
+
+    delayMs *= backoff;
+  }
+}
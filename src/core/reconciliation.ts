@@ -0,0 +1,365 @@
+import {
+  PaymentRecord,
+  ReconciliationCandidate,
+  ReconciliationOptions,
+  ReconciliationResult,
+  Transaction,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../types";
+import { NotFoundError, ValidationError } from "./errors";
+import { Money } from "./money";
+import { canTransition } from "./transitions";
+
+/**
+ * Default minimum age of the stored pending payments to check, in milliseconds
+ */
+const DEFAULT_MIN_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Default maximum number of payments checked at the same time
+ */
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Default minimum time between two provider calls, in milliseconds
+ */
+const DEFAULT_MIN_INTERVAL_MS = 250;
+
+/**
+ * Default time between two runs of the reconciliation scheduler, in milliseconds
+ */
+const DEFAULT_SCHEDULER_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Type of the synthetic webhook event reporting each status
+ */
+const STATUS_EVENT_TYPES: Record<TransactionStatus, WebhookEventType> = {
+  [TransactionStatus.PENDING]: WebhookEventType.PAYMENT_PENDING,
+  [TransactionStatus.COMPLETED]: WebhookEventType.PAYMENT_SUCCESS,
+  [TransactionStatus.FAILED]: WebhookEventType.PAYMENT_FAILED,
+  [TransactionStatus.CANCELED]: WebhookEventType.PAYMENT_CANCELED,
+  [TransactionStatus.PARTIALLY_REFUNDED]: WebhookEventType.REFUND_SUCCESS,
+  [TransactionStatus.REFUNDED]: WebhookEventType.REFUND_SUCCESS,
+};
+
+/**
+ * Payment as reported by its provider
+ */
+export type ProviderPayment = Pick<
+  Transaction,
+  "status" | "amount" | "currency" | "gatewayReference" | "gatewayName"
+>;
+
+/**
+ * Payment to check, on a known gateway instance
+ */
+type Candidate = ReconciliationCandidate & { alias: string };
+
+/**
+ * Hub operations the reconciler checks and reports payments through
+ */
+export interface ReconciliationSource {
+  /**
+   * List the payments still pending that were created before a date
+   */
+  listPending(createdBefore: Date): Promise<PaymentRecord[]>;
+
+  /**
+   * Get a payment from the provider of a gateway instance, without recording it
+   *
+   * @throws NotFoundError if the provider does not know the payment
+   */
+  lookup(alias: string, paymentId: string): Promise<ProviderPayment>;
+
+  /**
+   * Dispatch a webhook event to the event listeners of a gateway instance
+   */
+  dispatch(event: WebhookEvent, alias: string): Promise<unknown>;
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a limiter spacing calls by a minimum interval
+ *
+ * @param minIntervalMs Minimum time between two calls, in milliseconds
+ * @param now Clock returning the current time in milliseconds
+ * @returns Function resolving once the next call may start
+ */
+function createThrottle(
+  minIntervalMs: number,
+  now: () => number
+): () => Promise<void> {
+  let nextAt = -Infinity;
+
+  return async () => {
+    const at = Math.max(now(), nextAt);
+    nextAt = at + minIntervalMs;
+
+    const waitMs = at - now();
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+  };
+}
+
+/**
+ * Check whether the provider reports another amount than the expected one
+ *
+ * @param expected Amount known locally
+ * @param actual Amount reported by the provider
+ * @returns True if both amounts are known and differ, in value or currency
+ */
+function amountsDiffer(
+  expected: { amount?: number; currency?: string },
+  actual: { amount?: number; currency?: string }
+): boolean {
+  if (expected.amount === undefined || actual.amount === undefined) {
+    return false;
+  }
+
+  const currency = expected.currency ?? actual.currency;
+
+  if (!currency) {
+    return expected.amount !== actual.amount;
+  }
+
+  if (actual.currency && actual.currency !== currency) {
+    return true;
+  }
+
+  return !Money.fromMajor(expected.amount, currency).equals(
+    Money.fromMajor(actual.amount, currency)
+  );
+}
+
+/**
+ * Checks payments against their provider, for the webhooks that never arrived
+ *
+ * Each payment is looked up on the gateway instance that served it, with
+ * getTransaction where supported so amounts are compared too. A status
+ * change the state machine allows is dispatched as a synthetic webhook
+ * event, flagged with synthetic, which updates the payment store and runs
+ * the listeners like the webhook would have. The event has the delivery
+ * key of the real webhook, so a late real delivery is a duplicate. A
+ * payment whose amount differs is only reported, never dispatched.
+ *
+ * Provider calls are limited in number and spaced in time, so a large
+ * backlog does not trip the rate limits of the provider.
+ */
+export class PaymentReconciler {
+  /**
+   * Creates a new payment reconciler
+   *
+   * @param source Hub operations used to list, look up and report payments
+   * @param now Clock returning the current time in milliseconds
+   */
+  constructor(
+    private readonly source: ReconciliationSource,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Check payments against their provider
+   *
+   * A payment whose check fails is reported with the error, and the others
+   * are still checked.
+   *
+   * @param options Payments to check, limits and reporting settings
+   * @param alias Alias of the gateway instance the stored payments are checked for (default: every instance)
+   * @returns Promise resolving to the outcome of each check, in the order of the payments
+   * @throws ValidationError if the concurrency or the interval is invalid
+   */
+  async run(
+    options: ReconciliationOptions & { payments?: Candidate[] } = {},
+    alias?: string
+  ): Promise<ReconciliationResult[]> {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    const minIntervalMs = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+
+    if (
+      !Number.isSafeInteger(concurrency) ||
+      concurrency < 1 ||
+      !(minIntervalMs >= 0)
+    ) {
+      throw new ValidationError(
+        "The reconciliation concurrency must be a positive integer and the interval not negative"
+      );
+    }
+
+    const payments =
+      options.payments ??
+      (await this.listPending(options.minAgeMs ?? DEFAULT_MIN_AGE_MS, alias));
+    const throttle = createThrottle(minIntervalMs, this.now);
+    const results: ReconciliationResult[] = new Array(payments.length);
+    let next = 0;
+
+    const work = async () => {
+      while (next < payments.length) {
+        const index = next++;
+
+        await throttle();
+        const result = await this.check(
+          payments[index],
+          options.dispatch !== false
+        );
+
+        if (result.mismatches.length > 0 || result.error !== undefined) {
+          options.onMismatch?.(result);
+        }
+        results[index] = result;
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, payments.length) }, work)
+    );
+    return results;
+  }
+
+  /**
+   * Check payments against their provider periodically
+   *
+   * The timer does not keep the process alive. A run is skipped while the
+   * previous one is still checking.
+   *
+   * @param options Payments to check, limits and reporting settings
+   * @param alias Alias of the gateway instance the stored payments are checked for (default: every instance)
+   * @param intervalMs Time between two runs, in milliseconds (default: 15 minutes)
+   * @param onError Called when a run fails, e.g. because the store is unavailable
+   * @returns Function stopping the scheduler
+   */
+  start(
+    options: ReconciliationOptions & { payments?: Candidate[] } = {},
+    alias?: string,
+    intervalMs: number = DEFAULT_SCHEDULER_INTERVAL_MS,
+    onError: (error: unknown) => void = (error) =>
+      console.error("Payment reconciliation failed:", error)
+  ): () => void {
+    let running = false;
+
+    const timer = setInterval(() => {
+      if (running) {
+        return;
+      }
+
+      running = true;
+      this.run(options, alias)
+        .catch(onError)
+        .finally(() => {
+          running = false;
+        });
+    }, intervalMs);
+    timer.unref?.();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * List the stored payments still pending after a minimum age
+   */
+  private async listPending(
+    minAgeMs: number,
+    alias?: string
+  ): Promise<Candidate[]> {
+    const pending = await this.source.listPending(
+      new Date(this.now() - minAgeMs)
+    );
+
+    return pending
+      .filter(
+        (payment): payment is PaymentRecord & { paymentId: string } =>
+          !!payment.paymentId && (!alias || payment.alias === alias)
+      )
+      .map((payment) => ({
+        alias: payment.alias,
+        paymentId: payment.paymentId,
+        reference: payment.reference,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+      }));
+  }
+
+  /**
+   * Check a payment against its provider, dispatching the status change found
+   */
+  private async check(
+    payment: Candidate,
+    dispatch: boolean
+  ): Promise<ReconciliationResult> {
+    const status = payment.status ?? TransactionStatus.PENDING;
+    const result: ReconciliationResult = {
+      alias: payment.alias,
+      paymentId: payment.paymentId,
+      reference: payment.reference,
+      status,
+      amount: payment.amount,
+      currency: payment.currency,
+      mismatches: [],
+    };
+
+    let found: ProviderPayment;
+    try {
+      found = await this.source.lookup(payment.alias, payment.paymentId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return { ...result, mismatches: ["not_found"] };
+      }
+      return { ...result, error };
+    }
+
+    result.providerStatus = found.status;
+    result.providerAmount = found.amount;
+    result.providerCurrency = found.currency;
+
+    if (found.status !== status) {
+      result.mismatches.push("status");
+    }
+    if (amountsDiffer(payment, found)) {
+      result.mismatches.push("amount");
+    }
+
+    // A payment of another amount is reported for review, not fulfilled
+    if (
+      !dispatch ||
+      result.mismatches.includes("amount") ||
+      found.status === status ||
+      !canTransition(status, found.status)
+    ) {
+      return result;
+    }
+
+    // Reported with the amount of the provider, for listeners to check
+    const event: WebhookEvent = {
+      type: STATUS_EVENT_TYPES[found.status],
+      data: {
+        reference: payment.reference ?? payment.paymentId,
+        paymentId: payment.paymentId,
+        amount: found.amount ?? payment.amount,
+        currency: found.currency ?? payment.currency,
+        status: found.status,
+        gatewayReference: found.gatewayReference,
+      },
+      createdAt: new Date(this.now()),
+      gatewayName: found.gatewayName,
+      synthetic: true,
+    };
+
+    try {
+      await this.source.dispatch(event, payment.alias);
+      result.event = event;
+    } catch (error) {
+      result.error = error;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,99 @@
+import { PaymentGateway } from "../types";
+import { ConfigurationError } from "./errors";
+
+/**
+ * Factory creating a new, uninitialized gateway instance
+ */
+export type GatewayFactory = () => PaymentGateway;
+
+/**
+ * Options for registering a payment provider
+ */
+export interface RegisterProviderOptions {
+  /**
+   * Replace an existing registration with the same name
+   */
+  override?: boolean;
+}
+
+/**
+ * Registered gateway factories, keyed by provider name
+ */
+const providers = new Map<string, GatewayFactory>();
+
+/**
+ * Register a payment provider so it can be selected by name
+ *
+ * @param name Provider name passed to MultiPaymentGateway.initialize
+ * @param factory Factory creating a new gateway instance
+ * @param options Registration options
+ * @throws ConfigurationError if the name is empty or already registered
+ */
+export function registerProvider(
+  name: string,
+  factory: GatewayFactory,
+  options: RegisterProviderOptions = {}
+): void {
+  if (!name) {
+    throw new ConfigurationError("Provider name is required");
+  }
+
+  if (providers.has(name) && !options.override) {
+    throw new ConfigurationError(
+      `Payment provider already registered: ${name}`
+    );
+  }
+
+  providers.set(name, factory);
+}
+
+/**
+ * Remove a payment provider registration
+ *
+ * @param name Provider name
+ * @returns True if the provider was registered
+ */
+export function unregisterProvider(name: string): boolean {
+  return providers.delete(name);
+}
+
+/**
+ * Check whether a payment provider is registered
+ *
+ * @param name Provider name
+ * @returns True if the provider is registered
+ */
+export function isProviderRegistered(name: string): boolean {
+  return providers.has(name);
+}
+
+/**
+ * Get the names of all registered payment providers
+ *
+ * @returns Registered provider names, in registration order
+ */
+export function getRegisteredProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Create a new gateway instance for a registered provider
+ *
+ * @param name Provider name
+ * @returns New, uninitialized gateway instance
+ * @throws ConfigurationError if the provider is not registered
+ */
+export function createGateway(name: string): PaymentGateway {
+  const factory = providers.get(name);
+
+  if (!factory) {
+    const registered = getRegisteredProviders();
+    throw new ConfigurationError(
+      `Unsupported payment provider: ${name}. Registered providers: ${
+        registered.length > 0 ? registered.join(", ") : "none"
+      }`
+    );
+  }
+
+  return factory();
+}
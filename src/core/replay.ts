@@ -0,0 +1,175 @@
+import {
+  WebhookEvent,
+  WebhookEventType,
+  WebhookReplayOptions,
+  WebhookReplayStore,
+  WebhookValidationResult,
+} from "../types";
+
+/**
+ * Default time deliveries are remembered, in milliseconds
+ */
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Events a payment can be reported with once per provider transaction
+ */
+const REFUND_EVENTS: WebhookEventType[] = [
+  WebhookEventType.REFUND_SUCCESS,
+  WebhookEventType.REFUND_FAILED,
+];
+
+/**
+ * Webhook replay store keeping deliveries in process memory
+ *
+ * Deliveries are forgotten on restart and not shared between processes.
+ */
+export class InMemoryWebhookReplayStore implements WebhookReplayStore {
+  private expiries = new Map<string, number>();
+
+  /**
+   * Creates a new in-memory webhook replay store
+   *
+   * @param now Clock returning the current time in milliseconds
+   */
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async has(key: string): Promise<boolean> {
+    const expiresAt = this.expiries.get(key);
+
+    if (expiresAt === undefined) {
+      return false;
+    }
+
+    if (expiresAt <= this.now()) {
+      this.expiries.delete(key);
+      return false;
+    }
+
+    return true;
+  }
+
+  async add(key: string, ttlMs: number): Promise<boolean> {
+    if (await this.has(key)) {
+      return false;
+    }
+
+    this.expiries.set(key, this.now() + ttlMs);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.expiries.delete(key);
+  }
+}
+
+/**
+ * Get the key identifying a webhook delivery
+ *
+ * Deliveries are the same when they come from the same provider and carry
+ * the same payment and event type. Refund events are also told apart by
+ * their provider transaction, since a payment can be refunded more than
+ * once. Payment events are not, because a status lookup may report another
+ * provider reference than the webhook, e.g. the operator ID of CinetPay.
+ *
+ * @param event Webhook event
+ * @returns Delivery key
+ */
+export function getWebhookDeliveryKey(event: WebhookEvent): string {
+  return JSON.stringify([
+    event.gatewayName,
+    event.data.paymentId ?? event.data.reference,
+    event.type,
+    REFUND_EVENTS.includes(event.type)
+      ? (event.data.gatewayReference ?? null)
+      : null,
+  ]);
+}
+
+/**
+ * Rejects stale webhooks and detects duplicate deliveries
+ *
+ * A delivery is recorded once it has been dispatched successfully, so a
+ * webhook whose processing failed is processed again when redelivered.
+ */
+export class WebhookReplayGuard {
+  private readonly store: WebhookReplayStore;
+  private readonly ttlMs: number;
+  private readonly toleranceMs?: number;
+
+  /**
+   * Creates a new webhook replay guard
+   *
+   * @param options Replay protection settings
+   * @param now Clock returning the current time in milliseconds
+   */
+  constructor(
+    options: WebhookReplayOptions = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.store = options.store || new InMemoryWebhookReplayStore(now);
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.toleranceMs =
+      options.toleranceSeconds !== undefined
+        ? options.toleranceSeconds * 1000
+        : undefined;
+  }
+
+  /**
+   * Check a valid webhook against the tolerance window and past deliveries
+   *
+   * With a tolerance window, a webhook without a valid provider timestamp
+   * is rejected, since its age cannot be checked.
+   *
+   * @param event Webhook event
+   * @returns Validation result, invalid if stale and flagged if a duplicate
+   */
+  async check(event: WebhookEvent): Promise<WebhookValidationResult> {
+    if (this.toleranceMs !== undefined) {
+      const sentAt = event.createdAt.getTime();
+
+      if (event.timestampMissing || Number.isNaN(sentAt)) {
+        return {
+          isValid: false,
+          reason: "Missing or invalid webhook timestamp",
+        };
+      }
+
+      if (Math.abs(this.now() - sentAt) > this.toleranceMs) {
+        return {
+          isValid: false,
+          reason: "Webhook timestamp outside the tolerance window",
+        };
+      }
+    }
+
+    if (await this.store.has(getWebhookDeliveryKey(event))) {
+      return {
+        isValid: true,
+        duplicate: true,
+        reason: "Duplicate webhook delivery",
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Record a delivery before dispatching it
+   *
+   * @param event Webhook event
+   * @returns True if the delivery is new, false if it is a duplicate
+   */
+  async claim(event: WebhookEvent): Promise<boolean> {
+    return await this.store.add(getWebhookDeliveryKey(event), this.ttlMs);
+  }
+
+  /**
+   * Forget a delivery whose dispatch failed, so its redelivery is processed
+   *
+   * @param event Webhook event
+   */
+  async release(event: WebhookEvent): Promise<void> {
+    await this.store.delete(getWebhookDeliveryKey(event));
+  }
+}
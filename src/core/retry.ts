@@ -0,0 +1,223 @@
+import { RetryAttempt, RetryPolicy } from "../types";
+
+/**
+ * Policy used for the settings a gateway configuration leaves out
+ */
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, "onAttempt">> = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  jitter: "full",
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryableErrorCodes: [
+    "ECONNRESET",
+    "ECONNABORTED",
+    "ETIMEDOUT",
+    "ECONNREFUSED",
+    "EAI_AGAIN",
+    "EPIPE",
+    "ERR_NETWORK",
+  ],
+};
+
+/**
+ * HTTP statuses with which a provider refuses a request without processing it
+ */
+const UNPROCESSED_STATUSES = [408, 429];
+
+/**
+ * Network error codes raised before a request reaches the provider
+ */
+const UNSENT_ERROR_CODES = ["ECONNREFUSED", "EAI_AGAIN"];
+
+/**
+ * Options for a retried provider call
+ */
+export interface WithRetryOptions {
+  /**
+   * Name of the provider that is called
+   */
+  provider: string;
+
+  /**
+   * Gateway operation, reported to the attempt hook
+   */
+  operation: string;
+
+  /**
+   * Retry policy of the gateway, false disables retries
+   */
+  policy?: RetryPolicy | false;
+
+  /**
+   * Whether sending the call twice is harmless (default: true)
+   *
+   * Calls that are not idempotent, such as creating a payment, are only
+   * retried when the provider cannot have processed them: after a timeout
+   * or a 5xx reply, a retry could charge twice.
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * Shape of the HTTP client errors inspected by the retry policy
+ */
+interface HttpClientError {
+  code?: string;
+  response?: {
+    status: number;
+    headers?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Check whether an HTTP client error is worth retrying
+ *
+ * @param error Error thrown by the HTTP client
+ * @param policy Retry policy
+ * @returns True if the status or network error code is retryable
+ */
+export function isRetryableError(
+  error: unknown,
+  policy: RetryPolicy = {}
+): boolean {
+  const httpError = (error || {}) as HttpClientError;
+
+  if (httpError.response) {
+    return (
+      policy.retryableStatuses || DEFAULT_RETRY_POLICY.retryableStatuses
+    ).includes(httpError.response.status);
+  }
+
+  return (
+    httpError.code !== undefined &&
+    (
+      policy.retryableErrorCodes || DEFAULT_RETRY_POLICY.retryableErrorCodes
+    ).includes(httpError.code)
+  );
+}
+
+/**
+ * Check whether a failed call cannot have been processed by the provider
+ *
+ * @param error Error thrown by the HTTP client
+ * @returns True if the request never reached the provider or was refused unprocessed
+ */
+function isUnprocessedError(error: unknown): boolean {
+  const httpError = (error || {}) as HttpClientError;
+
+  if (httpError.response) {
+    return UNPROCESSED_STATUSES.includes(httpError.response.status);
+  }
+
+  return (
+    httpError.code !== undefined && UNSENT_ERROR_CODES.includes(httpError.code)
+  );
+}
+
+/**
+ * Compute the delay before a retry
+ *
+ * @param attempt Number of the attempt that failed, starting at 1
+ * @param policy Retry policy
+ * @param random Random number generator returning values in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy = {},
+  random: () => number = Math.random
+): number {
+  const baseDelayMs = policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs;
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs;
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+  switch (policy.jitter ?? DEFAULT_RETRY_POLICY.jitter) {
+    case "none":
+      return delay;
+    case "equal":
+      return Math.round(delay / 2 + (random() * delay) / 2);
+    default:
+      return Math.round(random() * delay);
+  }
+}
+
+/**
+ * Get the delay a provider asked for in a Retry-After header
+ *
+ * @param error Error thrown by the HTTP client
+ * @returns Delay in milliseconds, if the provider sent one
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  const header = (error as HttpClientError)?.response?.headers?.["retry-after"];
+  const seconds = Number(header);
+  return header !== undefined && Number.isFinite(seconds)
+    ? seconds * 1000
+    : undefined;
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a provider call, retrying it with exponential backoff on transient failures
+ *
+ * The error of the last attempt is thrown unchanged, so callers keep
+ * converting HTTP client errors to PaymentErrors themselves.
+ *
+ * @param call Provider call, receiving the attempt number
+ * @param options Retry options
+ * @returns Promise resolving to the result of the first successful attempt
+ */
+export async function withRetry<T>(
+  call: (attempt: number) => Promise<T>,
+  options: WithRetryOptions
+): Promise<T> {
+  const policy = options.policy || {};
+  const maxAttempts =
+    options.policy === false
+      ? 1
+      : Math.max(1, policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts);
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs;
+
+  const report = (attempt: Omit<RetryAttempt, "provider" | "operation">) =>
+    policy.onAttempt?.({
+      provider: options.provider,
+      operation: options.operation,
+      ...attempt,
+    });
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await call(attempt);
+      report({ attempt, maxAttempts, willRetry: false });
+      return result;
+    } catch (error) {
+      const willRetry =
+        attempt < maxAttempts &&
+        isRetryableError(error, policy) &&
+        (options.idempotent !== false || isUnprocessedError(error));
+
+      if (!willRetry) {
+        report({ attempt, maxAttempts, error, willRetry });
+        throw error;
+      }
+
+      // Never retry sooner than the provider asked for, within the maximum
+      // delay so a provider header cannot stall the call
+      const delayMs = Math.min(
+        maxDelayMs,
+        Math.max(
+          computeRetryDelay(attempt, policy),
+          getRetryAfterMs(error) ?? 0
+        )
+      );
+      report({ attempt, maxAttempts, error, willRetry, delayMs });
+      await sleep(delayMs);
+    }
+  }
+}
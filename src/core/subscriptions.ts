@@ -0,0 +1,1097 @@
+import { randomUUID } from "crypto";
+import {
+  PaymentRequest,
+  PaymentResponse,
+  PlanSubscriptionRequest,
+  Subscription,
+  SubscriptionBillingResult,
+  SubscriptionInterval,
+  SubscriptionOptions,
+  SubscriptionPlan,
+  SubscriptionRequest,
+  SubscriptionResponse,
+  SubscriptionStore,
+  SubscriptionUpdate,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../types";
+import { NotFoundError, PaymentError, ValidationError } from "./errors";
+import { Money } from "./money";
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Default time between two runs of the billing scheduler, in milliseconds
+ */
+const DEFAULT_SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Default delays before each retry of a failed cycle, in milliseconds
+ */
+const DEFAULT_RETRY_DELAYS_MS = [1, 3, 7].map((days) => days * DAY_MS);
+
+/**
+ * Payment events reporting the outcome of a billed cycle
+ */
+const PAYMENT_OUTCOME_EVENTS: WebhookEventType[] = [
+  WebhookEventType.PAYMENT_SUCCESS,
+  WebhookEventType.PAYMENT_FAILED,
+  WebhookEventType.PAYMENT_CANCELED,
+];
+
+/**
+ * Billing periods a subscription can use
+ */
+const SUBSCRIPTION_INTERVALS: SubscriptionInterval[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+];
+
+/**
+ * Add months to a date, keeping its day within the target month
+ *
+ * @param date Date to start from
+ * @param months Number of months to add
+ * @returns Shifted date, e.g. February 29th for January 31st plus a month of a leap year
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = date.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+
+  return result;
+}
+
+/**
+ * Get the date a subscription cycle is due
+ *
+ * Dates are counted from the start date rather than from the previous
+ * cycle, so a subscription started on January 31st is billed on the last
+ * day of shorter months and on the 31st again afterwards.
+ *
+ * @param startDate Date the first cycle is billed
+ * @param interval Billing period
+ * @param intervalCount Number of periods between two cycles
+ * @param periods Number of cycles after the first one
+ * @returns Due date of the cycle
+ * @throws ValidationError if the interval is not supported
+ */
+export function addBillingPeriods(
+  startDate: Date,
+  interval: SubscriptionInterval,
+  intervalCount: number,
+  periods: number
+): Date {
+  const count = intervalCount * periods;
+
+  switch (interval) {
+    case "daily":
+      return new Date(startDate.getTime() + count * DAY_MS);
+    case "weekly":
+      return new Date(startDate.getTime() + count * 7 * DAY_MS);
+    case "monthly":
+      return addMonths(startDate, count);
+    case "yearly":
+      return addMonths(startDate, count * 12);
+    default:
+      throw new ValidationError(`Invalid subscription interval: ${interval}`);
+  }
+}
+
+/**
+ * Check the pricing of a plan or subscription
+ *
+ * @throws ValidationError if the amount, interval or interval count is invalid
+ */
+function assertValidSchedule(
+  amount: number,
+  currency: string,
+  interval: SubscriptionInterval,
+  intervalCount: number
+): void {
+  const money = Money.fromMajor(amount, currency);
+
+  if (money.minor <= 0) {
+    throw new ValidationError(`Invalid amount: ${money} ${money.currency}`);
+  }
+
+  if (!SUBSCRIPTION_INTERVALS.includes(interval)) {
+    throw new ValidationError(`Invalid subscription interval: ${interval}`);
+  }
+
+  if (!Number.isSafeInteger(intervalCount) || intervalCount < 1) {
+    throw new ValidationError(
+      `Invalid subscription interval count: ${intervalCount}`
+    );
+  }
+}
+
+/**
+ * Check whether a subscription has a cycle to bill at a date
+ *
+ * @param subscription Subscription
+ * @param date Date to check
+ * @returns True if the next cycle of an active subscription whose last cycle is paid, or the retry of a past due one, is due
+ */
+function isDue(subscription: Subscription, date: Date): boolean {
+  switch (subscription.status) {
+    case "active":
+      return (
+        !subscription.awaitingPayment &&
+        subscription.nextBillingDate.getTime() <= date.getTime()
+      );
+    case "past_due":
+      return (
+        (subscription.retryAt ?? subscription.nextBillingDate).getTime() <=
+        date.getTime()
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether a subscription expired because its last cycle was billed,
+ * rather than because every retry of a failed cycle failed
+ *
+ * @param subscription Subscription
+ * @returns True if the next cycle would fall after the end date
+ */
+function hasEnded(subscription: Subscription): boolean {
+  return (
+    subscription.status === "expired" &&
+    subscription.endDate !== undefined &&
+    subscription.nextBillingDate.getTime() > subscription.endDate.getTime()
+  );
+}
+
+/**
+ * Subscription store keeping plans and subscriptions in process memory
+ *
+ * Data is lost on restart and not shared between processes.
+ */
+export class InMemorySubscriptionStore implements SubscriptionStore {
+  private plans = new Map<string, SubscriptionPlan>();
+  private subscriptions = new Map<string, Subscription>();
+
+  async getPlan(id: string): Promise<SubscriptionPlan | null> {
+    const plan = this.plans.get(id);
+    return plan ? { ...plan } : null;
+  }
+
+  async savePlan(plan: SubscriptionPlan): Promise<void> {
+    this.plans.set(plan.id, { ...plan });
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    const subscription = this.subscriptions.get(id);
+    return subscription ? { ...subscription } : null;
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    this.subscriptions.set(subscription.id, { ...subscription });
+  }
+
+  async listDue(date: Date): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter((subscription) => isDue(subscription, date))
+      .map((subscription) => ({ ...subscription }));
+  }
+}
+
+/**
+ * Hub operations the subscription engine bills through
+ */
+export interface SubscriptionBilling {
+  /**
+   * Create a payment on a gateway instance
+   */
+  charge(alias: string, request: PaymentRequest): Promise<PaymentResponse>;
+
+  /**
+   * Dispatch a subscription event to the event listeners
+   */
+  emit(event: WebhookEvent, alias: string): Promise<unknown>;
+}
+
+/**
+ * Outcome of a cycle billed successfully
+ */
+interface BilledCycle {
+  subscription: Subscription;
+
+  /**
+   * Payment created, unless the credit of the subscription covered the cycle
+   */
+  payment?: PaymentResponse;
+
+  /**
+   * Amount charged, in major units
+   */
+  charged: number;
+}
+
+/**
+ * Bills subscriptions on providers without native recurring payments
+ *
+ * Each cycle is a regular payment created on the gateway instance the
+ * subscription was created on, with the reference
+ * "<subscription id>-<cycle>-<attempt>" so an attempt is never charged twice
+ * and each retry gets a payment of its own. Its outcome arrives through the
+ * payment webhooks, with subscriptionId and cycle in the metadata, and is
+ * applied with recordPaymentEvent. The next cycle is not billed until the
+ * payment of the current one completes.
+ *
+ * A cycle whose payment cannot be created, or fails or is canceled later,
+ * makes the subscription past due and is retried after each delay of the
+ * dunning policy; the subscription expires once every retry failed. Every
+ * change of status emits a subscription event.
+ *
+ * Run a single scheduler at a time: the store is not locked while a
+ * subscription is billed.
+ */
+export class SubscriptionEngine {
+  private readonly store: SubscriptionStore;
+  private readonly retryDelaysMs: number[];
+
+  /**
+   * Creates a new subscription engine
+   *
+   * @param options Subscription settings
+   * @param billing Hub operations used to create payments and dispatch events
+   * @param now Clock returning the current time in milliseconds
+   */
+  constructor(
+    options: SubscriptionOptions = {},
+    private readonly billing: SubscriptionBilling,
+    private readonly now: () => number = Date.now
+  ) {
+    this.store = options.store || new InMemorySubscriptionStore();
+    this.retryDelaysMs =
+      options.dunning?.retryDelaysMs ?? DEFAULT_RETRY_DELAYS_MS;
+  }
+
+  /**
+   * Create or replace a plan
+   *
+   * @param plan Plan details
+   * @returns Promise resolving to the stored plan
+   * @throws ValidationError if the pricing of the plan is invalid
+   */
+  async createPlan(plan: SubscriptionPlan): Promise<SubscriptionPlan> {
+    if (!plan.id) {
+      throw new ValidationError("Subscription plan ID is required");
+    }
+
+    assertValidSchedule(
+      plan.amount,
+      plan.currency,
+      plan.interval,
+      plan.intervalCount ?? 1
+    );
+
+    await this.store.savePlan(plan);
+    return plan;
+  }
+
+  /**
+   * Get a plan
+   *
+   * @param id Plan ID
+   * @returns Promise resolving to the plan, or null if it does not exist
+   */
+  async getPlan(id: string): Promise<SubscriptionPlan | null> {
+    return await this.store.getPlan(id);
+  }
+
+  /**
+   * Create a subscription, billing its first cycle if it starts now
+   *
+   * A subscription whose first payment fails is not stored.
+   *
+   * @param request Subscription details, or the plan to subscribe to
+   * @param gateway Gateway instance billing the subscription
+   * @returns Promise resolving to the subscription, with the first payment redirect URL if it was billed
+   * @throws NotFoundError if the plan does not exist
+   * @throws ValidationError if the subscription details are invalid
+   * @throws PaymentError if the first payment fails
+   */
+  async create(
+    request: SubscriptionRequest | PlanSubscriptionRequest,
+    gateway: { alias: string; provider: string }
+  ): Promise<SubscriptionResponse> {
+    const details = await this.resolveRequest(request);
+    const intervalCount = details.intervalCount ?? 1;
+
+    assertValidSchedule(
+      details.amount,
+      details.currency,
+      details.interval,
+      intervalCount
+    );
+
+    if (!details.customerEmail) {
+      throw new ValidationError("Customer email is required");
+    }
+
+    const createdAt = new Date(this.now());
+    const startDate = details.startDate ?? createdAt;
+
+    if (details.endDate && details.endDate.getTime() < startDate.getTime()) {
+      throw new ValidationError("Subscription end date is before its start");
+    }
+
+    let subscription: Subscription = {
+      id: `sub_${randomUUID()}`,
+      planId: "planId" in request ? request.planId : undefined,
+      planName: details.planName,
+      amount: details.amount,
+      currency: details.currency.toUpperCase(),
+      interval: details.interval,
+      intervalCount,
+      status: "active",
+      alias: gateway.alias,
+      provider: gateway.provider,
+      customerEmail: details.customerEmail,
+      customerName: details.customerName,
+      customerPhone: details.customerPhone,
+      metadata: details.metadata,
+      returnUrl: details.returnUrl,
+      cancelUrl: details.cancelUrl,
+      webhookUrl: details.webhookUrl,
+      startDate,
+      billingAnchor: startDate,
+      anchorCycle: 0,
+      endDate: details.endDate,
+      nextBillingDate: startDate,
+      cycle: 0,
+      failedAttempts: 0,
+      createdAt,
+    };
+
+    let billed: BilledCycle | undefined;
+    if (startDate.getTime() <= createdAt.getTime()) {
+      billed = await this.issuePayment(subscription);
+      subscription = billed.subscription;
+    }
+
+    const payment = billed?.payment;
+
+    await this.store.save(subscription);
+    await this.emit(WebhookEventType.SUBSCRIPTION_CREATED, subscription);
+
+    if (billed) {
+      await this.emitBilled(billed);
+    }
+
+    return {
+      success: true,
+      subscriptionId: subscription.id,
+      redirectUrl: payment?.redirectUrl,
+      status: subscription.status,
+      gatewayReference: payment?.paymentId,
+      createdAt,
+      nextBillingDate: subscription.nextBillingDate,
+    };
+  }
+
+  /**
+   * Get a subscription
+   *
+   * @param id Subscription ID
+   * @returns Promise resolving to the subscription, or null if it does not exist
+   */
+  async get(id: string): Promise<Subscription | null> {
+    return await this.store.get(id);
+  }
+
+  /**
+   * Cancel a subscription, so no further cycle is billed
+   *
+   * @param id Subscription ID
+   * @returns Promise resolving to true if the subscription was canceled, false if it had already ended
+   * @throws NotFoundError if the subscription does not exist
+   */
+  async cancel(id: string): Promise<boolean> {
+    const subscription = await this.require(id);
+
+    if (
+      subscription.status === "canceled" ||
+      subscription.status === "expired"
+    ) {
+      return false;
+    }
+
+    const canceled: Subscription = {
+      ...subscription,
+      status: "canceled",
+      retryAt: undefined,
+      canceledAt: new Date(this.now()),
+    };
+
+    await this.store.save(canceled);
+    await this.emit(WebhookEventType.SUBSCRIPTION_CANCELED, canceled);
+    return true;
+  }
+
+  /**
+   * Pause a subscription, so no cycle is billed until it resumes
+   *
+   * A past due subscription stops being retried.
+   *
+   * @param id Subscription ID
+   * @returns Promise resolving to the paused subscription
+   * @throws NotFoundError if the subscription does not exist
+   * @throws ValidationError if the subscription is not active or past due
+   */
+  async pause(id: string): Promise<Subscription> {
+    const subscription = await this.require(id);
+
+    if (
+      subscription.status !== "active" &&
+      subscription.status !== "past_due"
+    ) {
+      throw new ValidationError(
+        `Cannot pause a ${subscription.status} subscription`
+      );
+    }
+
+    const paused: Subscription = {
+      ...subscription,
+      status: "paused",
+      retryAt: undefined,
+      pausedAt: new Date(this.now()),
+    };
+
+    await this.store.save(paused);
+    await this.emit(WebhookEventType.SUBSCRIPTION_PAUSED, paused);
+    return paused;
+  }
+
+  /**
+   * Resume a paused subscription
+   *
+   * Cycles that fell due while paused are not billed: if the next billing
+   * date has passed, a new period starts now and is billed on the next run.
+   * A subscription resumed after its end date expires.
+   *
+   * @param id Subscription ID
+   * @returns Promise resolving to the resumed subscription
+   * @throws NotFoundError if the subscription does not exist
+   * @throws ValidationError if the subscription is not paused
+   */
+  async resume(id: string): Promise<Subscription> {
+    const subscription = await this.require(id);
+
+    if (subscription.status !== "paused") {
+      throw new ValidationError(
+        `Cannot resume a ${subscription.status} subscription`
+      );
+    }
+
+    const now = new Date(this.now());
+
+    if (
+      subscription.endDate &&
+      subscription.endDate.getTime() < now.getTime()
+    ) {
+      const expired: Subscription = {
+        ...subscription,
+        status: "expired",
+        pausedAt: undefined,
+      };
+
+      await this.store.save(expired);
+      await this.emit(WebhookEventType.SUBSCRIPTION_EXPIRED, expired);
+      return expired;
+    }
+
+    let resumed: Subscription = {
+      ...subscription,
+      status: "active",
+      failedAttempts: 0,
+      pausedAt: undefined,
+    };
+
+    if (subscription.nextBillingDate.getTime() <= now.getTime()) {
+      resumed = {
+        ...resumed,
+        billingAnchor: now,
+        anchorCycle: subscription.cycle,
+        nextBillingDate: now,
+      };
+    }
+
+    await this.store.save(resumed);
+    await this.emit(WebhookEventType.SUBSCRIPTION_RESUMED, resumed);
+    return resumed;
+  }
+
+  /**
+   * Change the plan, price or interval of a subscription
+   *
+   * Without proration, the current period is kept and the change applies
+   * from the next cycle. With immediate proration, the unused part of the
+   * current period is credited and a new period is billed now at the new
+   * price, less the credit; cycles whose price the credit covers are not
+   * charged. A period whose payment has not completed is not prorated.
+   *
+   * @param id Subscription ID
+   * @param changes Changes to apply
+   * @returns Promise resolving to the updated subscription
+   * @throws NotFoundError if the subscription or the plan does not exist
+   * @throws ValidationError if the subscription has ended, the changes are invalid or the plan uses another currency
+   */
+  async update(id: string, changes: SubscriptionUpdate): Promise<Subscription> {
+    const subscription = await this.require(id);
+
+    if (
+      subscription.status === "canceled" ||
+      subscription.status === "expired"
+    ) {
+      throw new ValidationError(
+        `Cannot update a ${subscription.status} subscription`
+      );
+    }
+
+    let plan: SubscriptionPlan | null = null;
+    if (changes.planId) {
+      plan = await this.store.getPlan(changes.planId);
+
+      if (!plan) {
+        throw new NotFoundError(
+          `Subscription plan not found: ${changes.planId}`
+        );
+      }
+
+      if (plan.currency.toUpperCase() !== subscription.currency) {
+        throw new ValidationError(
+          `Cannot switch a ${subscription.currency} subscription to a ${plan.currency} plan`
+        );
+      }
+    }
+
+    let updated: Subscription = {
+      ...subscription,
+      planId: plan?.id ?? subscription.planId,
+      planName: changes.planName ?? plan?.name ?? subscription.planName,
+      amount: changes.amount ?? plan?.amount ?? subscription.amount,
+      interval: changes.interval ?? plan?.interval ?? subscription.interval,
+      intervalCount:
+        changes.intervalCount ??
+        (plan ? (plan.intervalCount ?? 1) : subscription.intervalCount),
+      metadata:
+        plan?.metadata || changes.metadata
+          ? { ...subscription.metadata, ...plan?.metadata, ...changes.metadata }
+          : subscription.metadata,
+      // Later cycles are counted from the next billing date, at the new interval
+      billingAnchor: subscription.nextBillingDate,
+      anchorCycle: subscription.cycle,
+    };
+
+    assertValidSchedule(
+      updated.amount,
+      updated.currency,
+      updated.interval,
+      updated.intervalCount
+    );
+
+    const prorate =
+      changes.proration === "immediate" &&
+      subscription.status === "active" &&
+      !subscription.awaitingPayment;
+
+    if (prorate) {
+      const now = new Date(this.now());
+
+      updated = {
+        ...updated,
+        credit: this.getUnusedCredit(subscription, now).toMajor() || undefined,
+        billingAnchor: now,
+        nextBillingDate: now,
+      };
+    }
+
+    await this.store.save(updated);
+    await this.emit(WebhookEventType.SUBSCRIPTION_UPDATED, updated, {
+      proration: prorate ? "immediate" : "none",
+    });
+
+    if (!prorate) {
+      return updated;
+    }
+
+    const { subscription: billed } = await this.bill(updated);
+    return billed;
+  }
+
+  /**
+   * Bill every subscription that is due, one after the other
+   *
+   * Failed cycles are retried on the schedule of the dunning policy.
+   *
+   * @returns Promise resolving to the outcome of each billed subscription
+   */
+  async billDue(): Promise<SubscriptionBillingResult[]> {
+    const due = await this.store.listDue(new Date(this.now()));
+    const results: SubscriptionBillingResult[] = [];
+
+    for (const subscription of due) {
+      results.push(await this.bill(subscription));
+    }
+
+    return results;
+  }
+
+  /**
+   * Apply the outcome of a cycle payment reported by a payment event
+   *
+   * Events are matched to the last billed cycle through the subscriptionId
+   * and cycle of the payment metadata. A completed payment settles the
+   * cycle, clearing the failed attempts and emitting a completed
+   * subscription payment event, so the next cycle can be billed. A failed
+   * or canceled payment puts the cycle back to be billed again on the
+   * schedule of the dunning policy, or once a paused subscription resumes.
+   * Other events, and events of earlier or settled cycles, are ignored.
+   *
+   * @param event Payment webhook event
+   * @returns Promise resolving to the updated subscription, or null if the event changed none
+   */
+  async recordPaymentEvent(event: WebhookEvent): Promise<Subscription | null> {
+    const subscription = await this.findBilledCycle(event);
+
+    if (!subscription) {
+      return null;
+    }
+
+    if (event.type === WebhookEventType.PAYMENT_SUCCESS) {
+      const paid: Subscription = {
+        ...subscription,
+        awaitingPayment: undefined,
+        attempts: undefined,
+        failedAttempts: 0,
+      };
+
+      await this.store.save(paid);
+      await this.emit(WebhookEventType.SUBSCRIPTION_PAYMENT, paid, {
+        status: TransactionStatus.COMPLETED,
+        amount: event.data.amount ?? subscription.amount,
+        cycle: subscription.cycle,
+        paymentId: event.data.paymentId ?? subscription.lastPaymentId,
+      });
+      return paid;
+    }
+
+    if (subscription.status === "paused") {
+      const unbilled: Subscription = {
+        ...this.unbill(subscription),
+        status: "paused",
+      };
+
+      await this.store.save(unbilled);
+      return unbilled;
+    }
+
+    if (subscription.status !== "active" && !hasEnded(subscription)) {
+      return null;
+    }
+
+    const { subscription: failed } = await this.recordFailure(
+      this.unbill(subscription),
+      new PaymentError(`Payment ${event.data.status}`, {
+        provider: subscription.provider,
+      })
+    );
+    return failed;
+  }
+
+  /**
+   * Bill due subscriptions periodically
+   *
+   * The timer does not keep the process alive. A run is skipped while the
+   * previous one is still billing.
+   *
+   * @param intervalMs Time between two runs, in milliseconds (default: 1 hour)
+   * @param onError Called when a run fails, e.g. because the store is unavailable
+   * @returns Function stopping the scheduler
+   */
+  start(
+    intervalMs: number = DEFAULT_SCHEDULER_INTERVAL_MS,
+    onError: (error: unknown) => void = (error) =>
+      console.error("Subscription billing failed:", error)
+  ): () => void {
+    let running = false;
+
+    const timer = setInterval(() => {
+      if (running) {
+        return;
+      }
+
+      running = true;
+      this.billDue()
+        .catch(onError)
+        .finally(() => {
+          running = false;
+        });
+    }, intervalMs);
+    timer.unref?.();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Get a subscription that must exist
+   *
+   * @throws NotFoundError if the subscription does not exist
+   */
+  private async require(id: string): Promise<Subscription> {
+    const subscription = await this.store.get(id);
+
+    if (!subscription) {
+      throw new NotFoundError(`Subscription not found: ${id}`);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Get the subscription whose last billed cycle a payment event reports
+   *
+   * @returns Subscription, or null if the event is not the outcome of the unpaid last billed cycle of a subscription
+   */
+  private async findBilledCycle(
+    event: WebhookEvent
+  ): Promise<Subscription | null> {
+    if (!PAYMENT_OUTCOME_EVENTS.includes(event.type)) {
+      return null;
+    }
+
+    const { subscriptionId, cycle } = event.data.metadata ?? {};
+    if (typeof subscriptionId !== "string") {
+      return null;
+    }
+
+    const subscription = await this.store.get(subscriptionId);
+
+    if (
+      !subscription?.awaitingPayment ||
+      subscription.cycle !== Number(cycle) ||
+      (event.data.paymentId !== undefined &&
+        subscription.lastPaymentId !== undefined &&
+        event.data.paymentId !== subscription.lastPaymentId)
+    ) {
+      return null;
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Put the last billed cycle of a subscription back to be billed again,
+   * with the credit its payment used
+   */
+  private unbill(subscription: Subscription): Subscription {
+    const cycle = subscription.cycle - 1;
+    const periods = cycle - 1 - subscription.anchorCycle;
+    const credit = Money.fromMajor(
+      subscription.credit ?? 0,
+      subscription.currency
+    ).add(
+      Money.fromMajor(subscription.appliedCredit ?? 0, subscription.currency)
+    );
+
+    return {
+      ...subscription,
+      cycle,
+      // Due date of the cycle before, unless the billing anchor moved since
+      periodStart:
+        cycle > 0 && periods >= 0
+          ? addBillingPeriods(
+              subscription.billingAnchor,
+              subscription.interval,
+              subscription.intervalCount,
+              periods
+            )
+          : undefined,
+      nextBillingDate: subscription.periodStart ?? subscription.nextBillingDate,
+      credit: credit.toMajor() || undefined,
+      appliedCredit: undefined,
+      awaitingPayment: undefined,
+      status: subscription.failedAttempts > 0 ? "past_due" : "active",
+    };
+  }
+
+  /**
+   * Get the value of the part of the current period that is left
+   *
+   * @param subscription Subscription
+   * @param date Date the period is cut at
+   * @returns Unused share of the cycle price, with any credit not yet used
+   */
+  private getUnusedCredit(subscription: Subscription, date: Date): Money {
+    const credit = Money.fromMajor(
+      subscription.credit ?? 0,
+      subscription.currency
+    );
+    const start = subscription.periodStart?.getTime();
+    const end = subscription.nextBillingDate.getTime();
+
+    if (start === undefined || end <= date.getTime() || end <= start) {
+      return credit;
+    }
+
+    const price = Money.fromMajor(subscription.amount, subscription.currency);
+    const unused = Math.floor(
+      (price.minor * (end - Math.max(date.getTime(), start))) / (end - start)
+    );
+
+    return credit.add(Money.fromMinor(unused, subscription.currency));
+  }
+
+  /**
+   * Bill the next cycle of a subscription, applying the dunning policy if it fails
+   */
+  private async bill(
+    subscription: Subscription
+  ): Promise<SubscriptionBillingResult> {
+    let billed: BilledCycle;
+    try {
+      billed = await this.issuePayment(subscription);
+    } catch (error) {
+      // The reference may have been used, so the retry takes the next one
+      return await this.recordFailure(
+        { ...subscription, attempts: (subscription.attempts ?? 0) + 1 },
+        error
+      );
+    }
+
+    await this.store.save(billed.subscription);
+    await this.emitBilled(billed);
+    return { subscription: billed.subscription, payment: billed.payment };
+  }
+
+  /**
+   * Record a failed cycle, scheduling its retry or expiring the subscription
+   * once every retry of the dunning policy failed
+   */
+  private async recordFailure(
+    subscription: Subscription,
+    error: unknown
+  ): Promise<SubscriptionBillingResult> {
+    const failedAttempts = subscription.failedAttempts + 1;
+    const delay = this.retryDelaysMs[failedAttempts - 1];
+    const exhausted = delay === undefined;
+
+    const failed: Subscription = {
+      ...subscription,
+      failedAttempts,
+      status: exhausted ? "expired" : "past_due",
+      retryAt: exhausted ? undefined : new Date(this.now() + delay),
+    };
+
+    await this.store.save(failed);
+    await this.emit(WebhookEventType.SUBSCRIPTION_FAILED, failed, {
+      status: TransactionStatus.FAILED,
+      cycle: subscription.cycle + 1,
+      attempt: failedAttempts,
+      retryAt: failed.retryAt,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    if (exhausted) {
+      await this.emit(WebhookEventType.SUBSCRIPTION_EXPIRED, failed, {
+        status: TransactionStatus.FAILED,
+      });
+    } else if (subscription.status !== "past_due") {
+      await this.emit(WebhookEventType.SUBSCRIPTION_PAST_DUE, failed, {
+        status: TransactionStatus.FAILED,
+        retryAt: failed.retryAt,
+      });
+    }
+
+    return { subscription: failed, error };
+  }
+
+  /**
+   * Create the payment of the next cycle of a subscription
+   *
+   * The credit of the subscription is deducted from the price. No payment
+   * is created when the credit covers the whole cycle.
+   *
+   * @returns The subscription advanced to the following cycle, with the payment and the amount charged
+   * @throws PaymentError if the payment could not be created
+   */
+  private async issuePayment(subscription: Subscription): Promise<BilledCycle> {
+    const cycle = subscription.cycle + 1;
+    const attempt = (subscription.attempts ?? 0) + 1;
+    const price = Money.fromMajor(subscription.amount, subscription.currency);
+    const credit = Money.fromMajor(
+      subscription.credit ?? 0,
+      subscription.currency
+    );
+    const covered = credit.compare(price) >= 0;
+    const charged = covered
+      ? Money.fromMinor(0, subscription.currency)
+      : price.subtract(credit);
+
+    let payment: PaymentResponse | undefined;
+    if (!covered) {
+      payment = await this.billing.charge(subscription.alias, {
+        amount: charged.toMajor(),
+        currency: subscription.currency,
+        reference: `${subscription.id}-${cycle}-${attempt}`,
+        description: `${subscription.planName} (cycle ${cycle})`,
+        customerEmail: subscription.customerEmail,
+        customerName: subscription.customerName,
+        customerPhone: subscription.customerPhone,
+        metadata: {
+          ...subscription.metadata,
+          subscriptionId: subscription.id,
+          cycle,
+        },
+        returnUrl: subscription.returnUrl,
+        cancelUrl: subscription.cancelUrl,
+        webhookUrl: subscription.webhookUrl,
+      });
+
+      if (!payment.success) {
+        throw new PaymentError(payment.message || "Payment creation failed", {
+          provider: subscription.provider,
+        });
+      }
+    }
+
+    const nextBillingDate = addBillingPeriods(
+      subscription.billingAnchor,
+      subscription.interval,
+      subscription.intervalCount,
+      cycle - subscription.anchorCycle
+    );
+    const ended =
+      subscription.endDate !== undefined &&
+      nextBillingDate.getTime() > subscription.endDate.getTime();
+    const remaining = covered ? credit.subtract(price) : undefined;
+    const unpaid = !!payment && payment.status !== TransactionStatus.COMPLETED;
+
+    return {
+      subscription: {
+        ...subscription,
+        cycle,
+        periodStart: subscription.nextBillingDate,
+        nextBillingDate,
+        lastPaymentId: payment?.paymentId ?? subscription.lastPaymentId,
+        awaitingPayment: unpaid || undefined,
+        attempts: unpaid ? attempt : undefined,
+        // Failed attempts count until the payment of the cycle completes
+        failedAttempts: unpaid ? subscription.failedAttempts : 0,
+        retryAt: undefined,
+        credit: remaining?.toMajor() || undefined,
+        appliedCredit: covered ? undefined : credit.toMajor() || undefined,
+        status: ended ? "expired" : "active",
+      },
+      payment,
+      charged: charged.toMajor(),
+    };
+  }
+
+  /**
+   * Get the subscription details of a request, from its plan if it names one
+   *
+   * @throws NotFoundError if the plan does not exist
+   */
+  private async resolveRequest(
+    request: SubscriptionRequest | PlanSubscriptionRequest
+  ): Promise<SubscriptionRequest> {
+    if (!("planId" in request)) {
+      return request;
+    }
+
+    const { planId, ...details } = request;
+    const plan = await this.store.getPlan(planId);
+
+    if (!plan) {
+      throw new NotFoundError(`Subscription plan not found: ${planId}`);
+    }
+
+    return {
+      ...details,
+      planName: plan.name,
+      amount: plan.amount,
+      currency: plan.currency,
+      interval: plan.interval,
+      intervalCount: plan.intervalCount,
+      metadata: { ...plan.metadata, ...details.metadata },
+    };
+  }
+
+  /**
+   * Dispatch the events of a billed cycle: its payment, pending until the
+   * payment webhook reports it completed, then the expiry of the
+   * subscription if it was the last cycle
+   */
+  private async emitBilled({
+    subscription,
+    payment,
+    charged,
+  }: BilledCycle): Promise<void> {
+    await this.emit(WebhookEventType.SUBSCRIPTION_PAYMENT, subscription, {
+      // A cycle paid by credit is settled without a payment
+      status: payment
+        ? (payment.status ?? TransactionStatus.PENDING)
+        : TransactionStatus.COMPLETED,
+      amount: charged,
+      cycle: subscription.cycle,
+      paymentId: payment?.paymentId,
+      redirectUrl: payment?.redirectUrl,
+    });
+
+    if (subscription.status === "expired") {
+      await this.emit(WebhookEventType.SUBSCRIPTION_EXPIRED, subscription);
+    }
+  }
+
+  /**
+   * Dispatch a subscription event to the event listeners
+   */
+  private async emit(
+    type: WebhookEventType,
+    subscription: Subscription,
+    data: Record<string, unknown> & { status?: TransactionStatus } = {}
+  ): Promise<void> {
+    await this.billing.emit(
+      {
+        type,
+        data: {
+          reference: subscription.id,
+          subscriptionId: subscription.id,
+          subscriptionStatus: subscription.status,
+          amount: subscription.amount,
+          currency: subscription.currency,
+          metadata: subscription.metadata,
+          ...data,
+          status:
+            data.status ??
+            (subscription.status === "canceled"
+              ? TransactionStatus.CANCELED
+              : TransactionStatus.PENDING),
+        },
+        createdAt: new Date(this.now()),
+        gatewayName: subscription.provider,
+      },
+      subscription.alias
+    );
+  }
+}
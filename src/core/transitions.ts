@@ -0,0 +1,67 @@
+import { TransactionStatus } from "../types";
+import { InvalidTransitionError } from "./errors";
+
+/**
+ * Statuses a payment can move to from each status
+ *
+ * A failed payment may still complete, as providers report declined
+ * attempts while the checkout stays open. Canceled and refunded payments
+ * are final.
+ */
+export const TRANSACTION_TRANSITIONS: Readonly<
+  Record<TransactionStatus, readonly TransactionStatus[]>
+> = {
+  [TransactionStatus.PENDING]: [
+    TransactionStatus.COMPLETED,
+    TransactionStatus.FAILED,
+    TransactionStatus.CANCELED,
+  ],
+  [TransactionStatus.FAILED]: [TransactionStatus.COMPLETED],
+  [TransactionStatus.CANCELED]: [],
+  [TransactionStatus.COMPLETED]: [
+    TransactionStatus.PARTIALLY_REFUNDED,
+    TransactionStatus.REFUNDED,
+  ],
+  [TransactionStatus.PARTIALLY_REFUNDED]: [
+    TransactionStatus.PARTIALLY_REFUNDED,
+    TransactionStatus.REFUNDED,
+  ],
+  [TransactionStatus.REFUNDED]: [],
+};
+
+/**
+ * Check whether a payment can move from a status to another
+ *
+ * Staying in the same status is always allowed.
+ *
+ * @param from Current status
+ * @param to Reported status
+ * @returns True if the transition is allowed
+ */
+export function canTransition(
+  from: TransactionStatus,
+  to: TransactionStatus
+): boolean {
+  return from === to || (TRANSACTION_TRANSITIONS[from]?.includes(to) ?? false);
+}
+
+/**
+ * Check that a payment can move from a status to another
+ *
+ * @param from Current status
+ * @param to Reported status
+ * @param provider Name of the provider, reported with the error
+ * @throws InvalidTransitionError if the transition is not allowed
+ */
+export function assertTransition(
+  from: TransactionStatus,
+  to: TransactionStatus,
+  provider?: string
+): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(
+      `Invalid payment status transition: ${from} to ${to}`,
+      { provider }
+    );
+  }
+}
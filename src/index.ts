@@ -2,70 +2,299 @@
 
 import {
   PaymentGateway,
+  PaymentProvider,
   GatewayConfig,
+  GatewayHealth,
+  IdempotencyOptions,
   PaymentRequest,
   PaymentResponse,
   TransactionStatus,
+  Transaction,
+  RefundOptions,
   RefundResponse,
   WebhookValidationResult,
   WebhookEvent,
+  WebhookAcknowledgement,
+  RawWebhookBody,
+  WebhookEventHandler,
+  WebhookEventType,
+  WebhookListenerOptions,
+  WildcardEventHandler,
+  EventDispatchResult,
+  EventHandlerError,
+  WebhookDispatchResult,
+  WebhookReplayOptions,
+  PlanSubscriptionRequest,
+  Subscription,
+  SubscriptionBillingResult,
+  SubscriptionOptions,
+  SubscriptionPlan,
+  SubscriptionRequest,
+  SubscriptionResponse,
+  SubscriptionUpdate,
+  PaymentLookup,
+  PaymentRecord,
+  PersistenceOptions,
+  WebhookEventRecord,
+  PaymentWaitResult,
+  WaitForPaymentOptions,
+  ReconciliationOptions,
+  ReconciliationResult,
 } from "./types";
-import { PaytechGateway } from "./providers/paytech/PaytechGateway";
-// Import other gateway implementations as they are developed
-// import { CinetpayGateway } from './providers/cinetpay/CinetpayGateway';
-// import { MoneyFusionGateway } from './providers/moneyfusion/MoneyFusionGateway';
+import { createGateway } from "./core/registry";
+import { ConfigurationError, UnsupportedOperationError } from "./core/errors";
+import { IdempotencyLayer } from "./core/idempotency";
+import { WebhookEventEmitter } from "./core/events";
+import { WebhookReplayGuard } from "./core/replay";
+import { getHeader, readWebhookPayload } from "./core/payload";
+import { SubscriptionEngine } from "./core/subscriptions";
+import { PaymentRecorder } from "./core/persistence";
+import { pollPaymentStatus } from "./core/polling";
+import { PaymentReconciler } from "./core/reconciliation";
+
+// Register the built-in payment providers
+import "./providers";
+
+/**
+ * Payment events ending a wait for the payment, refunds and unknown events aside
+ */
+const PAYMENT_SETTLED_EVENTS = [
+  WebhookEventType.PAYMENT_SUCCESS,
+  WebhookEventType.PAYMENT_FAILED,
+  WebhookEventType.PAYMENT_CANCELED,
+] as const;
+
+/**
+ * A named, initialized gateway instance
+ */
+interface GatewayInstance {
+  alias: string;
+  provider: string;
+  gateway: PaymentGateway;
+}
+
+/**
+ * State shared between a MultiPaymentGateway and the views returned by use()
+ */
+interface HubState {
+  instances: Map<string, GatewayInstance>;
+  defaultAlias: string | null;
+  idempotency: IdempotencyLayer | null;
+  events: WebhookEventEmitter;
+  replay: WebhookReplayGuard | null;
+  subscriptions: SubscriptionEngine;
+  payments: PaymentRecorder | null;
+  reconciler: PaymentReconciler;
+}
 
 /**
- * Supported payment gateway providers
+ * Hub configuration
  */
-export enum PaymentProvider {
-  PAYTECH = "paytech",
-  CINETPAY = "cinetpay",
-  MONEY_FUSION = "moneyfusion",
-  // Add more providers as they are implemented
+export interface MultiPaymentGatewayOptions {
+  /**
+   * Deduplication of payments and refunds, or false to disable it
+   * (default: in-memory store)
+   */
+  idempotency?: IdempotencyOptions | false;
+
+  /**
+   * Called when a webhook event listener fails
+   * (default: logged on the console)
+   */
+  onEventError?: (failure: EventHandlerError) => void;
+
+  /**
+   * Webhook replay protection, or false to disable it
+   * (default: in-memory duplicate detection, no timestamp tolerance)
+   */
+  webhookReplay?: WebhookReplayOptions | false;
+
+  /**
+   * Storage of subscription plans and subscriptions
+   * (default: in-memory store)
+   */
+  subscriptions?: SubscriptionOptions;
+
+  /**
+   * Recording of payments, refunds and webhook events, or false to disable
+   * it (default: in-memory store)
+   */
+  persistence?: PersistenceOptions | false;
 }
 
 /**
  * Main class for the multi-payment gateway package
+ *
+ * A hub holds any number of named gateway instances, each with its own
+ * provider and configuration. Operations are routed to the default instance,
+ * or to a specific one through use(alias).
  */
 export class MultiPaymentGateway {
-  private gateway: PaymentGateway | null = null;
-  private provider: PaymentProvider | null = null;
+  private state: HubState;
+  private scope: string | null = null;
+
+  /**
+   * Creates a new hub
+   *
+   * @param options Hub configuration
+   */
+  constructor(options: MultiPaymentGatewayOptions = {}) {
+    this.state = {
+      instances: new Map(),
+      defaultAlias: null,
+      idempotency:
+        options.idempotency === false
+          ? null
+          : new IdempotencyLayer(options.idempotency),
+      events: new WebhookEventEmitter(options.onEventError),
+      replay:
+        options.webhookReplay === false
+          ? null
+          : new WebhookReplayGuard(options.webhookReplay),
+      subscriptions: new SubscriptionEngine(options.subscriptions, {
+        charge: (alias, request) => this.use(alias).createPayment(request),
+        emit: (event, alias) => this.state.events.emit(event, alias),
+      }),
+      payments:
+        options.persistence === false
+          ? null
+          : new PaymentRecorder(options.persistence),
+      reconciler: new PaymentReconciler({
+        listPending: (createdBefore) =>
+          this.getPaymentRecorder().listPending(createdBefore),
+        lookup: async (alias, paymentId) => {
+          const { gateway, provider } = this.getInstance(alias);
+
+          if (gateway.getTransaction) {
+            return await gateway.getTransaction(paymentId);
+          }
+
+          return {
+            status: await gateway.verifyPayment(paymentId),
+            gatewayName: provider,
+          };
+        },
+        dispatch: (event, alias) => this.use(alias).dispatchWebhook(event),
+      }),
+    };
+  }
 
   /**
    * Initialize with a specific payment provider and configuration
    *
-   * @param provider The payment provider to use
+   * The instance becomes the default one used by operations that are not
+   * routed through use().
+   *
+   * @param provider The payment provider to use, built-in or registered with registerProvider
    * @param config Configuration for the selected provider
+   * @param alias Optional name of the instance (defaults to the provider name)
    * @returns Promise resolving to true if initialization is successful
-   * @throws Error if provider is not supported or initialization fails
+   * @throws ConfigurationError if provider is not registered or initialization fails
    */
   async initialize(
-    provider: PaymentProvider,
+    provider: PaymentProvider | string,
+    config: GatewayConfig,
+    alias: string = provider
+  ): Promise<boolean> {
+    const result = await this.addGateway(alias, provider, config);
+    this.state.defaultAlias = alias;
+    return result;
+  }
+
+  /**
+   * Add a named gateway instance without changing the default instance
+   *
+   * The first instance added to a hub becomes its default instance.
+   * Adding an instance under an existing alias replaces it.
+   *
+   * @param alias Name of the instance, e.g. "paytech-sn"
+   * @param provider The payment provider to use
+   * @param config Configuration for this instance
+   * @returns Promise resolving to true if initialization is successful
+   * @throws ConfigurationError if provider is not registered or initialization fails
+   */
+  async addGateway(
+    alias: string,
+    provider: PaymentProvider | string,
     config: GatewayConfig
   ): Promise<boolean> {
-    this.provider = provider;
+    if (!alias) {
+      throw new ConfigurationError("Gateway alias is required");
+    }
 
-    // Create the appropriate gateway instance based on the provider
-    switch (provider) {
-      case PaymentProvider.PAYTECH:
-        this.gateway = new PaytechGateway();
-        break;
+    // Create the gateway instance from the provider registry
+    const gateway = createGateway(provider);
 
-      case PaymentProvider.CINETPAY:
-        // this.gateway = new CinetpayGateway();
-        throw new Error("CinetPay provider not yet implemented");
+    // Initialize the gateway with the provided configuration
+    const result = await gateway.initialize(config);
 
-      case PaymentProvider.MONEY_FUSION:
-        // this.gateway = new MoneyFusionGateway();
-        throw new Error("MoneyFusion provider not yet implemented");
+    this.state.instances.set(alias, { alias, provider, gateway });
+    if (!this.state.defaultAlias) {
+      this.state.defaultAlias = alias;
+    }
 
-      default:
-        throw new Error(`Unsupported payment provider: ${provider}`);
+    return result;
+  }
+
+  /**
+   * Remove a named gateway instance
+   *
+   * @param alias Name of the instance
+   * @returns True if the instance existed
+   */
+  removeGateway(alias: string): boolean {
+    const removed = this.state.instances.delete(alias);
+
+    if (removed && this.state.defaultAlias === alias) {
+      const [next] = this.state.instances.keys();
+      this.state.defaultAlias = next ?? null;
     }
 
-    // Initialize the gateway with the provided configuration
-    return await this.gateway.initialize(config);
+    return removed;
+  }
+
+  /**
+   * Get a view of the hub routing every operation to a named instance
+   *
+   * @param alias Name of the instance
+   * @returns Hub view bound to the instance
+   * @throws ConfigurationError if no instance exists under this alias
+   */
+  use(alias: string): MultiPaymentGateway {
+    this.getInstance(alias);
+
+    const scoped = new MultiPaymentGateway();
+    scoped.state = this.state;
+    scoped.scope = alias;
+    return scoped;
+  }
+
+  /**
+   * Get the names of all gateway instances
+   *
+   * @returns Instance aliases, in the order they were added
+   */
+  getAliases(): string[] {
+    return Array.from(this.state.instances.keys());
+  }
+
+  /**
+   * Check whether a gateway instance exists
+   *
+   * @param alias Name of the instance
+   * @returns True if an instance exists under this alias
+   */
+  hasGateway(alias: string): boolean {
+    return this.state.instances.has(alias);
+  }
+
+  /**
+   * Get the alias of the instance operations are routed to
+   *
+   * @returns The instance alias or null if not initialized
+   */
+  getAlias(): string | null {
+    return this.scope ?? this.state.defaultAlias;
   }
 
   /**
@@ -73,20 +302,71 @@ export class MultiPaymentGateway {
    *
    * @returns The current payment provider or null if not initialized
    */
-  getProvider(): PaymentProvider | null {
-    return this.provider;
+  getProvider(): string | null {
+    const alias = this.getAlias();
+    return (alias && this.state.instances.get(alias)?.provider) || null;
+  }
+
+  /**
+   * Get the currencies supported by the current gateway
+   *
+   * @returns Supported currency codes, or null if the gateway does not declare them
+   * @throws ConfigurationError if gateway is not initialized
+   */
+  getSupportedCurrencies(): string[] | null {
+    const { gateway } = this.getInstance();
+    return gateway.getSupportedCurrencies
+      ? gateway.getSupportedCurrencies()
+      : null;
+  }
+
+  /**
+   * Get the health of the current gateway, e.g. for health checks
+   *
+   * @returns Gateway health, or null if the gateway does not report it
+   * @throws ConfigurationError if gateway is not initialized
+   */
+  getHealth(): GatewayHealth | null {
+    const { gateway } = this.getInstance();
+    return gateway.getHealth ? gateway.getHealth() : null;
   }
 
   /**
    * Create a payment request
    *
+   * Payments are deduplicated by idempotency key, or by reference when no
+   * key is given: sending the same request again returns the original
+   * response instead of creating another payment.
+   *
    * @param request Payment request details
-   * @returns Promise resolving to a payment response
-   * @throws Error if gateway is not initialized
+   * @returns Promise resolving to a payment response, tagged with the serving instance alias
+   * @throws ConfigurationError if gateway is not initialized
+   * @throws DuplicateReferenceError if the key was used for another request or the payment is being created elsewhere
+   * @throws PaymentError if the provider call fails
    */
   async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
-    this.ensureInitialized();
-    return await this.gateway!.createPayment(request);
+    const instance = this.getInstance();
+    const create = async () => {
+      const response = await instance.gateway.createPayment(request);
+      return { ...response, provider: instance.alias };
+    };
+
+    const key = request.idempotencyKey || request.reference;
+    const response =
+      this.state.idempotency && key
+        ? await this.state.idempotency.run(
+            `${instance.alias}:payment:${key}`,
+            JSON.stringify([
+              request.reference,
+              request.amount,
+              request.currency,
+            ]),
+            create
+          )
+        : await create();
+
+    await this.state.payments?.recordPayment(instance, request, response);
+    return response;
   }
 
   /**
@@ -94,76 +374,762 @@ export class MultiPaymentGateway {
    *
    * @param paymentId ID of the payment to verify
    * @returns Promise resolving to the transaction status
-   * @throws Error if gateway is not initialized
+   * @throws ConfigurationError if gateway is not initialized
+   * @throws PaymentError if the provider call fails
+   * @throws InvalidTransitionError if the payment cannot move to the reported status and invalid transitions are rejected
    */
   async verifyPayment(paymentId: string): Promise<TransactionStatus> {
-    this.ensureInitialized();
-    return await this.gateway!.verifyPayment(paymentId);
+    const instance = this.getInstance();
+    const status = await instance.gateway.verifyPayment(paymentId);
+
+    await this.state.payments?.recordStatus(instance, paymentId, status);
+    return status;
+  }
+
+  /**
+   * Wait for a payment to leave the pending status
+   *
+   * The payment is verified right away, then again with a growing delay
+   * until it is completed, failed or canceled, or the timeout expires. A
+   * payment event for the payment dispatched meanwhile ends the wait early,
+   * so polling is the fallback when the notification is late or lost.
+   *
+   * A failed payment is not final: providers report declined attempts while
+   * the checkout stays open, so it may still complete later.
+   *
+   * @param paymentId ID of the payment to wait for
+   * @param options Timeout, polling delays, abort signal and progress callback
+   * @returns Promise resolving to the settled status, or to the last known status with timedOut set
+   * @throws ConfigurationError if gateway is not initialized
+   * @throws ValidationError if the polling settings are invalid
+   * @throws PaymentError if a status check fails for a reason that is not transient
+   */
+  async waitForPayment(
+    paymentId: string,
+    options: WaitForPaymentOptions = {}
+  ): Promise<PaymentWaitResult> {
+    const { alias } = this.getInstance();
+
+    let stopListening: (() => void)[] = [];
+    const notified = new Promise<TransactionStatus>((resolve) => {
+      stopListening = PAYMENT_SETTLED_EVENTS.map((type) =>
+        this.on(
+          type,
+          (event) => {
+            if (
+              event.data.paymentId === paymentId &&
+              event.data.status !== TransactionStatus.PENDING
+            ) {
+              resolve(event.data.status);
+            }
+          },
+          { alias }
+        )
+      );
+    });
+
+    try {
+      return await pollPaymentStatus(
+        paymentId,
+        () => this.verifyPayment(paymentId),
+        options,
+        notified
+      );
+    } finally {
+      stopListening.forEach((stop) => stop());
+    }
+  }
+
+  /**
+   * Get the full details of a payment
+   *
+   * @param paymentId ID of the payment to look up
+   * @returns Promise resolving to the transaction details, with the raw provider payload
+   * @throws ConfigurationError if gateway is not initialized
+   * @throws UnsupportedOperationError if the gateway does not support lookups
+   * @throws PaymentError if the provider call fails
+   * @throws InvalidTransitionError if the payment cannot move to the reported status and invalid transitions are rejected
+   */
+  async getTransaction(paymentId: string): Promise<Transaction> {
+    const instance = this.getInstance();
+    const { gateway, provider } = instance;
+
+    if (!gateway.getTransaction) {
+      throw new UnsupportedOperationError(
+        `Transaction lookups are not supported by ${provider}`,
+        { provider }
+      );
+    }
+
+    const transaction = await gateway.getTransaction(paymentId);
+
+    await this.state.payments?.recordTransaction(instance, transaction);
+    return transaction;
   }
 
   /**
    * Process a refund for a completed payment
    *
+   * Refunds of payments recorded by the hub are checked against the
+   * refundable balance, and a full refund of a partially refunded payment
+   * refunds the balance left.
+   *
    * @param paymentId ID of the payment to refund
    * @param amount Optional amount to refund (default: full payment amount)
-   * @returns Promise resolving to a refund response
-   * @throws Error if gateway is not initialized
+   * @param options Optional refund options, e.g. an idempotency key allowing retries or a reason
+   * @returns Promise resolving to a refund response, with the total refunded and the balance left when the payment is recorded
+   * @throws ConfigurationError if gateway is not initialized
+   * @throws ValidationError if the amount is not positive or exceeds the refundable balance
+   * @throws DuplicateReferenceError if the key was used for another refund or the refund is being processed elsewhere
+   * @throws InvalidTransitionError if the payment is not refundable and invalid transitions are rejected
+   * @throws PaymentError if the provider call fails
    */
   async refundPayment(
     paymentId: string,
-    amount?: number
+    amount?: number,
+    options?: RefundOptions
   ): Promise<RefundResponse> {
-    this.ensureInitialized();
-    return await this.gateway!.refundPayment(paymentId, amount);
+    const instance = this.getInstance();
+    const { payments } = this.state;
+
+    // Checked and sent only when the refund is not replayed
+    let sentAmount = amount;
+    let issued = false;
+    const refund = async () => {
+      sentAmount = payments
+        ? await payments.checkRefund(instance, paymentId, amount)
+        : amount;
+      issued = true;
+      return await instance.gateway.refundPayment(
+        paymentId,
+        sentAmount,
+        options
+      );
+    };
+
+    // Only keyed refunds are deduplicated: two partial refunds of the same
+    // amount are both legitimate
+    const key = options?.idempotencyKey;
+    const response =
+      this.state.idempotency && key
+        ? await this.state.idempotency.run(
+            `${instance.alias}:refund:${key}`,
+            JSON.stringify([paymentId, amount ?? null]),
+            refund
+          )
+        : await refund();
+
+    if (!payments) {
+      return response;
+    }
+
+    return await payments.recordRefund(
+      instance,
+      paymentId,
+      sentAmount,
+      response,
+      { reason: options?.reason, replayed: !issued }
+    );
+  }
+
+  /**
+   * Find a payment recorded by the hub
+   *
+   * Payments are recorded as they are created, verified, looked up,
+   * refunded and notified by webhook, on any gateway instance of the hub.
+   *
+   * @param lookup Reference, paymentId or gatewayReference of the payment, optionally with the instance alias
+   * @returns Promise resolving to the payment with its status history and refunds, or null if it is unknown
+   * @throws ConfigurationError if persistence is disabled
+   * @throws ValidationError if the lookup has no reference, paymentId or gatewayReference
+   */
+  async findPayment(lookup: PaymentLookup): Promise<PaymentRecord | null> {
+    return await this.getPaymentRecorder().find(lookup);
+  }
+
+  /**
+   * List the webhook events received for a payment
+   *
+   * @param paymentRecordId ID of the payment record, as returned by findPayment
+   * @returns Promise resolving to the events, oldest first
+   * @throws ConfigurationError if persistence is disabled
+   */
+  async getPaymentWebhookEvents(
+    paymentRecordId: string
+  ): Promise<WebhookEventRecord[]> {
+    return await this.getPaymentRecorder().listWebhookEvents(paymentRecordId);
   }
 
   /**
    * Validate a webhook notification from the payment provider
    *
-   * @param payload Webhook payload
+   * The payload may be given parsed, or as the body exactly as received. Raw
+   * bodies are parsed according to their Content-Type header, as JSON or
+   * form fields, and their bytes are handed to the gateway so signatures
+   * over the body can be verified.
+   *
+   * With replay protection, webhooks older than the tolerance window are
+   * invalid and deliveries that were already processed are flagged as
+   * duplicates.
+   *
+   * @param payload Webhook payload, parsed or as a raw Buffer or string
    * @param headers HTTP headers from the webhook request
    * @returns Promise resolving to a validation result
-   * @throws Error if gateway is not initialized
+   * @throws ConfigurationError if gateway is not initialized
    */
   async validateWebhook(
-    payload: any,
-    headers: Record<string, string>
+    payload: RawWebhookBody | Record<string, unknown>,
+    headers: Record<string, string> = {}
   ): Promise<WebhookValidationResult> {
-    this.ensureInitialized();
-    return await this.gateway!.validateWebhook(payload, headers);
+    const { gateway } = this.getInstance();
+
+    let parsed: unknown;
+    let rawBody: Buffer | undefined;
+    try {
+      ({ payload: parsed, rawBody } = readWebhookPayload(
+        payload,
+        getHeader(headers, "content-type")
+      ));
+    } catch (error) {
+      return { isValid: false, reason: (error as Error).message };
+    }
+
+    const result = await gateway.validateWebhook(parsed, headers, rawBody);
+
+    if (!result.isValid || !this.state.replay) {
+      return result;
+    }
+
+    let event: WebhookEvent;
+    try {
+      event = await gateway.processWebhook(parsed);
+    } catch {
+      // Left to processWebhook to reject
+      return result;
+    }
+
+    return await this.state.replay.check(event);
   }
 
   /**
-   * Process a webhook notification
+   * Process a webhook notification and dispatch it to the event listeners
    *
-   * @param payload Webhook payload
-   * @returns Promise resolving to a standardized webhook event
-   * @throws Error if gateway is not initialized
+   * Listener failures are reported through onEventError and do not make
+   * processing fail. Duplicate deliveries are not dispatched again. A
+   * refund of less than the recorded payment amount is reported as a
+   * partial refund.
+   *
+   * @param payload Webhook payload, parsed or as a raw Buffer or string
+   * @param options Set dispatch to false to only convert the payload, and contentType to parse a raw body
+   * @returns Promise resolving to a standardized webhook event, once every listener completed
+   * @throws ConfigurationError if gateway is not initialized
+   * @throws ValidationError if the payload is invalid
+   * @throws InvalidTransitionError if the payment cannot move to the reported status and invalid transitions are rejected
    */
-  async processWebhook(payload: any): Promise<WebhookEvent> {
-    this.ensureInitialized();
-    return await this.gateway!.processWebhook(payload);
+  async processWebhook(
+    payload: RawWebhookBody | Record<string, unknown>,
+    options: { dispatch?: boolean; contentType?: string } = {}
+  ): Promise<WebhookEvent> {
+    const parsed = readWebhookPayload(payload, options.contentType).payload;
+    const { alias, gateway } = this.getInstance();
+    const processed = await gateway.processWebhook(parsed);
+    const event =
+      (await this.state.payments?.settleWebhook(alias, processed)) ?? processed;
+
+    await this.state.payments?.checkWebhook(alias, event);
+
+    if (options.dispatch !== false) {
+      await this.dispatchWebhook(event);
+    }
+
+    return event;
+  }
+
+  /**
+   * Dispatch a webhook event to the event listeners, once per delivery
+   *
+   * The delivery is recorded before dispatch and forgotten again if a
+   * listener fails, so that its redelivery is processed. The event is saved
+   * in the payment store, and the outcome of a subscription cycle applied to
+   * its subscription, before the listeners run.
+   *
+   * @param event Webhook event
+   * @param handler Optional listener run once the event listeners succeeded
+   * @returns Promise resolving to the dispatch outcome, flagged if the delivery is a duplicate
+   */
+  async dispatchWebhook(
+    event: WebhookEvent,
+    handler?: WildcardEventHandler
+  ): Promise<WebhookDispatchResult> {
+    const { replay } = this.state;
+
+    if (replay && !(await replay.claim(event))) {
+      return { listeners: 0, errors: [], duplicate: true };
+    }
+
+    // Recorded first, so listeners find the payment and its subscription
+    // up to date. A failure is reported like a listener one, so the webhook
+    // is delivered again.
+    const alias = this.getAlias();
+    try {
+      if (this.state.payments && alias) {
+        await this.state.payments.recordWebhook(alias, event);
+      }
+      await this.state.subscriptions.recordPaymentEvent(event);
+    } catch (error) {
+      if (replay) {
+        await replay.release(event);
+      }
+      return {
+        listeners: 0,
+        errors: [{ event, alias, error }],
+        duplicate: false,
+      };
+    }
+
+    const result = await this.emit(event);
+
+    if (handler && result.errors.length === 0) {
+      try {
+        await handler(event);
+      } catch (error) {
+        result.errors.push({ event, alias: this.getAlias(), error });
+      }
+    }
+
+    if (replay && result.errors.length > 0) {
+      await replay.release(event);
+    }
+
+    return { ...result, duplicate: false };
+  }
+
+  /**
+   * Listen to webhook events of a type, or to every event with "*"
+   *
+   * Listeners are shared by every view of the hub and receive the events
+   * of all its gateway instances, unless filtered by provider or alias.
+   *
+   * @param type Event type, or "*" for every event
+   * @param handler Listener, receiving the event with its data narrowed to the type
+   * @param options Provider and gateway instance filters
+   * @returns Function removing the listener
+   */
+  on<T extends WebhookEventType>(
+    type: T,
+    handler: WebhookEventHandler<T>,
+    options?: WebhookListenerOptions
+  ): () => void;
+  on(
+    type: "*",
+    handler: WildcardEventHandler,
+    options?: WebhookListenerOptions
+  ): () => void;
+  on(
+    type: WebhookEventType | "*",
+    handler: WildcardEventHandler,
+    options?: WebhookListenerOptions
+  ): () => void {
+    // Narrow the type so the emitter overloads apply
+    return type === "*"
+      ? this.state.events.on(type, handler, options)
+      : this.state.events.on(type, handler, options);
+  }
+
+  /**
+   * Listen to the next webhook event of a type, or to the next event with "*"
+   *
+   * @param type Event type, or "*" for every event
+   * @param handler Listener, receiving the event with its data narrowed to the type
+   * @param options Provider and gateway instance filters
+   * @returns Function removing the listener
+   */
+  once<T extends WebhookEventType>(
+    type: T,
+    handler: WebhookEventHandler<T>,
+    options?: WebhookListenerOptions
+  ): () => void;
+  once(
+    type: "*",
+    handler: WildcardEventHandler,
+    options?: WebhookListenerOptions
+  ): () => void;
+  once(
+    type: WebhookEventType | "*",
+    handler: WildcardEventHandler,
+    options?: WebhookListenerOptions
+  ): () => void {
+    // Narrow the type so the emitter overloads apply
+    return type === "*"
+      ? this.state.events.once(type, handler, options)
+      : this.state.events.once(type, handler, options);
+  }
+
+  /**
+   * Remove a webhook event listener
+   *
+   * @param type Event type the listener was added for
+   * @param handler Listener to remove
+   * @returns True if the listener was registered
+   */
+  off<T extends WebhookEventType>(
+    type: T | "*",
+    handler: WebhookEventHandler<T> | WildcardEventHandler
+  ): boolean {
+    return this.state.events.off(type, handler);
+  }
+
+  /**
+   * Dispatch an event to the webhook event listeners
+   *
+   * @param event Webhook event
+   * @returns Promise resolving to the number of listeners and their failures, once every listener completed
+   */
+  async emit(event: WebhookEvent): Promise<EventDispatchResult> {
+    return await this.state.events.emit(event, this.getAlias());
+  }
+
+  /**
+   * Create or replace a subscription plan
+   *
+   * @param plan Plan details
+   * @returns Promise resolving to the stored plan
+   * @throws ValidationError if the pricing of the plan is invalid
+   */
+  async createSubscriptionPlan(
+    plan: SubscriptionPlan
+  ): Promise<SubscriptionPlan> {
+    return await this.state.subscriptions.createPlan(plan);
+  }
+
+  /**
+   * Get a subscription plan
+   *
+   * @param planId ID of the plan
+   * @returns Promise resolving to the plan, or null if it does not exist
+   */
+  async getSubscriptionPlan(planId: string): Promise<SubscriptionPlan | null> {
+    return await this.state.subscriptions.getPlan(planId);
+  }
+
+  /**
+   * Create a subscription billed by the current gateway
+   *
+   * The library bills each cycle with a regular payment, as the providers
+   * have no native recurring billing. The first cycle is billed right away
+   * unless the subscription starts later; later cycles are billed by
+   * billDueSubscriptions or the subscription scheduler.
+   *
+   * @param request Subscription details, or the plan to subscribe to
+   * @returns Promise resolving to the subscription, with the first payment redirect URL if it was billed
+   * @throws ConfigurationError if gateway is not initialized
+   * @throws NotFoundError if the plan does not exist
+   * @throws ValidationError if the subscription details are invalid
+   * @throws PaymentError if the first payment fails
+   */
+  async createSubscription(
+    request: SubscriptionRequest | PlanSubscriptionRequest
+  ): Promise<SubscriptionResponse> {
+    const { alias, provider } = this.getInstance();
+    return await this.state.subscriptions.create(request, { alias, provider });
   }
 
   /**
-   * Ensure that the gateway is initialized before use
+   * Get a subscription
    *
-   * @throws Error if gateway is not initialized
+   * @param subscriptionId ID of the subscription
+   * @returns Promise resolving to the subscription, or null if it does not exist
    */
-  private ensureInitialized(): void {
-    if (!this.gateway) {
-      throw new Error(
+  async getSubscription(subscriptionId: string): Promise<Subscription | null> {
+    return await this.state.subscriptions.get(subscriptionId);
+  }
+
+  /**
+   * Cancel a subscription, so no further cycle is billed
+   *
+   * @param subscriptionId ID of the subscription
+   * @returns Promise resolving to true if the subscription was canceled, false if it had already ended
+   * @throws NotFoundError if the subscription does not exist
+   */
+  async cancelSubscription(subscriptionId: string): Promise<boolean> {
+    return await this.state.subscriptions.cancel(subscriptionId);
+  }
+
+  /**
+   * Pause a subscription, so no cycle is billed until it resumes
+   *
+   * @param subscriptionId ID of the subscription
+   * @returns Promise resolving to the paused subscription
+   * @throws NotFoundError if the subscription does not exist
+   * @throws ValidationError if the subscription is not active or past due
+   */
+  async pauseSubscription(subscriptionId: string): Promise<Subscription> {
+    return await this.state.subscriptions.pause(subscriptionId);
+  }
+
+  /**
+   * Resume a paused subscription, skipping the cycles that fell due meanwhile
+   *
+   * @param subscriptionId ID of the subscription
+   * @returns Promise resolving to the resumed subscription
+   * @throws NotFoundError if the subscription does not exist
+   * @throws ValidationError if the subscription is not paused
+   */
+  async resumeSubscription(subscriptionId: string): Promise<Subscription> {
+    return await this.state.subscriptions.resume(subscriptionId);
+  }
+
+  /**
+   * Change the plan, price or interval of a subscription
+   *
+   * @param subscriptionId ID of the subscription
+   * @param changes Changes to apply, with how they apply to the current period
+   * @returns Promise resolving to the updated subscription
+   * @throws NotFoundError if the subscription or the plan does not exist
+   * @throws ValidationError if the subscription has ended or the changes are invalid
+   */
+  async updateSubscription(
+    subscriptionId: string,
+    changes: SubscriptionUpdate
+  ): Promise<Subscription> {
+    return await this.state.subscriptions.update(subscriptionId, changes);
+  }
+
+  /**
+   * Bill every subscription that is due
+   *
+   * Each subscription is billed on the gateway instance it was created on.
+   * Failed cycles are retried on the schedule of the dunning policy.
+   *
+   * @returns Promise resolving to the outcome of each billed subscription
+   */
+  async billDueSubscriptions(): Promise<SubscriptionBillingResult[]> {
+    return await this.state.subscriptions.billDue();
+  }
+
+  /**
+   * Bill due subscriptions periodically
+   *
+   * @param intervalMs Time between two runs, in milliseconds (default: 1 hour)
+   * @returns Function stopping the scheduler
+   */
+  startSubscriptionScheduler(intervalMs?: number): () => void {
+    return this.state.subscriptions.start(intervalMs);
+  }
+
+  /**
+   * Check payments against their provider, for the webhooks that never arrived
+   *
+   * By default the payments still pending in the payment store are checked,
+   * on every gateway instance, or only on the instance of a view returned
+   * by use(). Each status change found is dispatched as a synthetic webhook
+   * event, so the payment store and the event listeners catch up. Provider
+   * calls are limited in number and spaced in time.
+   *
+   * @param options Payments to check, limits and reporting settings
+   * @returns Promise resolving to the outcome of each check, with the status, amount or not found mismatches
+   * @throws ConfigurationError if no payments are given and persistence is disabled, or a given payment has no alias and gateway is not initialized
+   * @throws ValidationError if the concurrency or the interval is invalid
+   */
+  async reconcilePayments(
+    options: ReconciliationOptions = {}
+  ): Promise<ReconciliationResult[]> {
+    return await this.state.reconciler.run(
+      this.resolveReconciliation(options),
+      this.scope ?? undefined
+    );
+  }
+
+  /**
+   * Check payments against their provider periodically
+   *
+   * @param intervalMs Time between two runs, in milliseconds (default: 15 minutes)
+   * @param options Payments to check, limits and reporting settings, e.g. onMismatch to report what each run found
+   * @returns Function stopping the scheduler
+   * @throws ConfigurationError if a given payment has no alias and gateway is not initialized
+   */
+  startReconciliationScheduler(
+    intervalMs?: number,
+    options: ReconciliationOptions = {}
+  ): () => void {
+    return this.state.reconciler.start(
+      this.resolveReconciliation(options),
+      this.scope ?? undefined,
+      intervalMs
+    );
+  }
+
+  /**
+   * Build the acknowledgement the provider expects in reply to a webhook
+   *
+   * Gateways without a specific format are answered with "OK" or "ERROR".
+   *
+   * @param success Whether the webhook was processed successfully
+   * @param message Optional message to include in the acknowledgement
+   * @returns Acknowledgement body, sent as plain text if a string or as JSON otherwise
+   * @throws ConfigurationError if gateway is not initialized
+   */
+  acknowledgeWebhook(
+    success: boolean,
+    message?: string
+  ): WebhookAcknowledgement {
+    const { gateway } = this.getInstance();
+
+    if (gateway.acknowledgeWebhook) {
+      return gateway.acknowledgeWebhook(success, message);
+    }
+
+    return message || (success ? "OK" : "ERROR");
+  }
+
+  /**
+   * Get the gateway instance operations are routed to
+   *
+   * @param alias Optional alias overriding the scope of this hub
+   * @returns The gateway instance
+   * @throws ConfigurationError if gateway is not initialized or the alias is unknown
+   */
+  private getInstance(alias?: string): GatewayInstance {
+    const target = alias ?? this.getAlias();
+
+    if (!target) {
+      throw new ConfigurationError(
         "Payment gateway not initialized. Call initialize() first."
       );
     }
+
+    const instance = this.state.instances.get(target);
+
+    if (!instance) {
+      throw new ConfigurationError(
+        `Unknown payment gateway alias: ${target}. Configured aliases: ${
+          this.getAliases().join(", ") || "none"
+        }`
+      );
+    }
+
+    return instance;
+  }
+
+  /**
+   * Route the given payments without an alias to the current gateway instance
+   *
+   * @throws ConfigurationError if a payment has no alias and gateway is not initialized
+   */
+  private resolveReconciliation(options: ReconciliationOptions) {
+    return {
+      ...options,
+      payments: options.payments?.map((payment) => ({
+        ...payment,
+        alias: payment.alias ?? this.getInstance().alias,
+      })),
+    };
+  }
+
+  /**
+   * Get the recorder of payments, if persistence is enabled
+   *
+   * @throws ConfigurationError if persistence is disabled
+   */
+  private getPaymentRecorder(): PaymentRecorder {
+    if (!this.state.payments) {
+      throw new ConfigurationError(
+        "Payment persistence is disabled. Remove persistence: false to enable it."
+      );
+    }
+
+    return this.state.payments;
   }
 }
 
 // Export types for users of the package
 export * from "./types";
 
+// Export the provider registry for third-party gateways
+export {
+  registerProvider,
+  unregisterProvider,
+  isProviderRegistered,
+  getRegisteredProviders,
+} from "./core/registry";
+export type { GatewayFactory, RegisterProviderOptions } from "./core/registry";
+
+// Export the payment error hierarchy
+export {
+  PaymentError,
+  ValidationError,
+  AuthenticationError,
+  ProviderUnavailableError,
+  NotFoundError,
+  RateLimitError,
+  DuplicateReferenceError,
+  ConfigurationError,
+  UnsupportedOperationError,
+  InvalidTransitionError,
+} from "./core/errors";
+export type { PaymentErrorOptions } from "./core/errors";
+
+// Export the money value type
+export { Money, CURRENCY_EXPONENTS, getCurrencyExponent } from "./core/money";
+
+// Export the webhook event emitter
+export { WebhookEventEmitter } from "./core/events";
+
+// Export the webhook body helpers
+export {
+  parseWebhookBody,
+  decodeEncodedJson,
+  verifyBodySignature,
+} from "./core/payload";
+
+// Export the default webhook replay store
+export { InMemoryWebhookReplayStore } from "./core/replay";
+
+// Export the default subscription store
+export {
+  InMemorySubscriptionStore,
+  addBillingPeriods,
+} from "./core/subscriptions";
+
+// Export the default idempotency store
+export { InMemoryIdempotencyStore } from "./core/idempotency";
+
+// Export the transaction state machine
+export {
+  TRANSACTION_TRANSITIONS,
+  canTransition,
+  assertTransition,
+} from "./core/transitions";
+
+// Export the payment stores
+export { InMemoryPaymentStore, FilePaymentStore } from "./core/persistence";
+
+// Export the payment router
+export { PaymentRouter } from "./routing/PaymentRouter";
+export type { PaymentRouterOptions } from "./routing/PaymentRouter";
+
+// Export the webhook HTTP handlers
+export {
+  createWebhookHandler,
+  createFastifyWebhookHandler,
+  handleWebhookRequest,
+} from "./webhooks/middleware";
+export type {
+  WebhookHandlerOptions,
+  WebhookHttpRequest,
+  WebhookHttpResponse,
+  WebhookRequestContext,
+} from "./webhooks/middleware";
+
 // Export Paytech specific types for advanced usage
 export * from "./providers/paytech/types";
 
-// Create and export an instance of the MultiPaymentGateway
+// Export CinetPay specific types for advanced usage
+export * from "./providers/cinetpay/types";
+
+// Export Money Fusion specific types for advanced usage
+export * from "./providers/moneyfusion/types";
+
+// Create and export a shared instance of the MultiPaymentGateway.
+// Create your own hubs with `new MultiPaymentGateway()` to keep them isolated.
 export default new MultiPaymentGateway();
@@ -0,0 +1,417 @@
+import axios, { AxiosInstance } from "axios";
+import {
+  PaymentGateway,
+  GatewayConfig,
+  GatewayHealth,
+  PaymentRequest,
+  PaymentResponse,
+  TransactionStatus,
+  Transaction,
+  RefundResponse,
+  WebhookValidationResult,
+  WebhookEvent,
+  WebhookAcknowledgement,
+} from "../../types";
+import {
+  CinetpayConfig,
+  CinetpayPaymentResponse,
+  CinetpayStatusRequest,
+  CinetpayStatusResponse,
+  CinetpayWebhookPayload,
+} from "./types";
+import {
+  ConfigurationError,
+  PaymentError,
+  UnsupportedOperationError,
+  ValidationError,
+  toPaymentError,
+} from "../../core/errors";
+import { withRetry } from "../../core/retry";
+import { checkBodySignature } from "../../core/payload";
+import { CircuitBreaker } from "../../core/circuitBreaker";
+import { Money, assertAmountWithinLimits } from "../../core/money";
+import {
+  mapToCinetpayRequest,
+  mapFromCinetpayResponse,
+  mapCinetpayStatus,
+  mapCinetpayTransaction,
+  mapCinetpayError,
+  isCinetpayPaymentCode,
+} from "./mappers";
+import { isValidCinetpayCurrency, isValidCinetpayAmount } from "./utils";
+import {
+  validateCinetpayWebhook,
+  processCinetpayWebhook,
+  generateCinetpayWebhookResponse,
+} from "./webhooks";
+import {
+  CINETPAY_API_BASE_URL,
+  CINETPAY_CHANNEL,
+  CINETPAY_AMOUNT_LIMITS,
+  CINETPAY_CURRENCIES,
+  CINETPAY_ENDPOINTS,
+} from "./constants";
+
+/**
+ * Implementation of the PaymentGateway interface for CinetPay
+ */
+export class CinetpayGateway implements PaymentGateway {
+  private config: CinetpayConfig;
+  private initialized: boolean = false;
+  private client: AxiosInstance;
+  private breaker: CircuitBreaker;
+
+  /**
+   * Creates a new instance of CinetpayGateway
+   */
+  constructor() {
+    this.config = {
+      apiKey: "",
+      apiSecret: "",
+      environment: "test",
+      siteId: "",
+    };
+
+    this.breaker = new CircuitBreaker("cinetpay");
+
+    // Initialize axios instance
+    this.client = axios.create({
+      baseURL: CINETPAY_API_BASE_URL,
+      timeout: 10000, // 10 seconds default timeout
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  /**
+   * Initialize the gateway with configuration
+   *
+   * @param config Gateway configuration
+   * @returns Promise resolving to true if initialization is successful
+   * @throws ConfigurationError if the site ID is missing
+   */
+  async initialize(config: GatewayConfig): Promise<boolean> {
+    const siteId = config.additionalConfig?.siteId as string;
+
+    if (!siteId) {
+      throw new ConfigurationError(
+        "Failed to initialize CinetPay gateway: additionalConfig.siteId is required"
+      );
+    }
+
+    this.config = {
+      apiKey: config.apiKey,
+      apiSecret: config.apiSecret,
+      environment: config.environment,
+      webhookSecret: config.webhookSecret,
+      webhookSignature: config.webhookSignature,
+      retry: config.retry,
+      circuitBreaker: config.circuitBreaker,
+      amountLimits: { ...CINETPAY_AMOUNT_LIMITS, ...config.amountLimits },
+      siteId: String(siteId),
+      timeout: (config.additionalConfig?.timeout as number) || 10000,
+      defaultNotifyUrl: config.additionalConfig?.defaultNotifyUrl as string,
+      defaultReturnUrl: config.additionalConfig?.defaultReturnUrl as string,
+      channels: config.additionalConfig?.channels as CINETPAY_CHANNEL,
+      lang: config.additionalConfig?.lang as string,
+    };
+
+    this.breaker = new CircuitBreaker("cinetpay", this.config.circuitBreaker);
+
+    // Update axios instance with new configuration
+    this.client.defaults.timeout = this.config.timeout;
+
+    this.initialized = true;
+    return true;
+  }
+
+  /**
+   * Get the currencies supported by CinetPay
+   *
+   * @returns Supported currency codes
+   */
+  getSupportedCurrencies(): string[] {
+    return [...CINETPAY_CURRENCIES];
+  }
+
+  /**
+   * Get the health of CinetPay, as seen by the circuit breaker
+   *
+   * @returns Provider health
+   */
+  getHealth(): GatewayHealth {
+    return this.breaker.getHealth();
+  }
+
+  /**
+   * Create a payment request
+   *
+   * @param request Payment request details
+   * @returns Promise resolving to payment response
+   */
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    if (!this.initialized) {
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
+    }
+
+    // Validate request
+    if (!request.reference || !request.description) {
+      throw new ValidationError(
+        "Invalid payment request: missing required fields"
+      );
+    }
+
+    if (!isValidCinetpayCurrency(request.currency)) {
+      throw new ValidationError(`Unsupported currency: ${request.currency}`);
+    }
+
+    if (!isValidCinetpayAmount(request.amount, request.currency)) {
+      throw new ValidationError("Invalid amount");
+    }
+
+    assertAmountWithinLimits(
+      Money.fromMajor(request.amount, request.currency),
+      this.config.amountLimits || CINETPAY_AMOUNT_LIMITS,
+      "cinetpay"
+    );
+
+    try {
+      // Map to CinetPay request format
+      const cinetpayRequest = mapToCinetpayRequest(request, this.config);
+
+      // Without an idempotency key, only retried when CinetPay cannot have
+      // created it
+      const response = await withRetry(
+        () =>
+          this.breaker.execute(() =>
+            this.client.post(CINETPAY_ENDPOINTS.INIT_PAYMENT, cinetpayRequest)
+          ),
+        {
+          provider: "cinetpay",
+          operation: "createPayment",
+          policy: this.config.retry,
+          idempotent: !!request.idempotencyKey,
+        }
+      );
+
+      const cinetpayResponse: CinetpayPaymentResponse = response.data;
+
+      // Map response to unified format
+      return mapFromCinetpayResponse(cinetpayResponse, request.reference);
+    } catch (error) {
+      throw this.toError(error, "Payment request failed");
+    }
+  }
+
+  /**
+   * Verify the status of a payment
+   *
+   * @param paymentId Merchant transaction ID to verify
+   * @returns Promise resolving to transaction status
+   */
+  async verifyPayment(paymentId: string): Promise<TransactionStatus> {
+    const statusResponse = await this.fetchStatus(
+      paymentId,
+      "verifyPayment",
+      "Failed to verify payment"
+    );
+
+    // Map CinetPay status to unified status
+    return mapCinetpayStatus(statusResponse);
+  }
+
+  /**
+   * Get the full details of a payment
+   *
+   * @param paymentId Merchant transaction ID to look up
+   * @returns Promise resolving to the transaction details
+   */
+  async getTransaction(paymentId: string): Promise<Transaction> {
+    const statusResponse = await this.fetchStatus(
+      paymentId,
+      "getTransaction",
+      "Failed to get transaction"
+    );
+
+    return mapCinetpayTransaction(statusResponse, paymentId);
+  }
+
+  /**
+   * Fetch the status of a payment from CinetPay
+   *
+   * @param paymentId Merchant transaction ID to look up
+   * @param operation Gateway operation, reported to the retry hook
+   * @param message Message used when the lookup fails
+   * @returns Promise resolving to the CinetPay status response
+   */
+  private async fetchStatus(
+    paymentId: string,
+    operation: string,
+    message: string
+  ): Promise<CinetpayStatusResponse> {
+    if (!this.initialized) {
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
+    }
+
+    if (!paymentId) {
+      throw new ValidationError("Payment ID is required");
+    }
+
+    try {
+      const statusRequest: CinetpayStatusRequest = {
+        apikey: this.config.apiKey,
+        site_id: this.config.siteId,
+        transaction_id: paymentId,
+      };
+
+      // Make API request to check payment status
+      const response = await withRetry(
+        () =>
+          this.breaker.execute(() =>
+            this.client.post(CINETPAY_ENDPOINTS.CHECK_STATUS, statusRequest)
+          ),
+        { provider: "cinetpay", operation, policy: this.config.retry }
+      );
+
+      return response.data;
+    } catch (error) {
+      // CinetPay answers with an HTTP error for some payment states
+      const data = this.getErrorBody(error);
+      if (data && isCinetpayPaymentCode(data.code)) {
+        return data;
+      }
+
+      throw this.toError(error, message);
+    }
+  }
+
+  /**
+   * Process a refund for a completed payment
+   *
+   * The CinetPay checkout API does not expose refunds, they have to be
+   * issued from the merchant dashboard.
+   *
+   * @param paymentId Merchant transaction ID to refund
+   * @throws UnsupportedOperationError always
+   */
+  async refundPayment(paymentId: string): Promise<RefundResponse> {
+    if (!this.initialized) {
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
+    }
+
+    if (!paymentId) {
+      throw new ValidationError("Payment ID is required");
+    }
+
+    throw new UnsupportedOperationError(
+      "Refunds are not supported by the CinetPay API",
+      { provider: "cinetpay" }
+    );
+  }
+
+  /**
+   * Validate a notification from CinetPay
+   *
+   * The signature over the raw body is checked first, when one is required.
+   *
+   * @param payload Notification payload
+   * @param headers HTTP headers from the notification request
+   * @param rawBody Body exactly as received
+   * @returns Promise resolving to webhook validation result
+   */
+  async validateWebhook(
+    payload: unknown,
+    headers: Record<string, string>,
+    rawBody?: Buffer
+  ): Promise<WebhookValidationResult> {
+    const signature = checkBodySignature(
+      this.config.webhookSignature,
+      headers,
+      rawBody
+    );
+
+    if (!signature.isValid) {
+      return signature;
+    }
+
+    return validateCinetpayWebhook(
+      payload as Partial<CinetpayWebhookPayload>,
+      headers,
+      this.config.siteId,
+      this.config.webhookSecret || this.config.apiSecret
+    );
+  }
+
+  /**
+   * Process a notification from CinetPay
+   *
+   * @param payload Notification payload
+   * @returns Promise resolving to webhook event
+   */
+  async processWebhook(payload: unknown): Promise<WebhookEvent> {
+    if (!payload) {
+      throw new ValidationError("Invalid webhook payload");
+    }
+
+    return processCinetpayWebhook(payload as CinetpayWebhookPayload);
+  }
+
+  /**
+   * Build the acknowledgement CinetPay expects in reply to a webhook
+   *
+   * @param success Whether the webhook was processed successfully
+   * @param message Optional message to include in the acknowledgement
+   * @returns Acknowledgement body
+   */
+  acknowledgeWebhook(
+    success: boolean,
+    message?: string
+  ): WebhookAcknowledgement {
+    return generateCinetpayWebhookResponse(success, message);
+  }
+
+  /**
+   * Get the body of a CinetPay error response
+   *
+   * @param error Error thrown by the HTTP client
+   * @returns Response body, if the error carries one
+   */
+  private getErrorBody(error: unknown): CinetpayStatusResponse | undefined {
+    const httpError = error as {
+      isAxiosError?: boolean;
+      response?: { data?: CinetpayStatusResponse };
+    };
+    return axios.isAxiosError(error) || httpError?.isAxiosError
+      ? httpError.response?.data
+      : undefined;
+  }
+
+  /**
+   * Convert a failed CinetPay call into a typed error
+   *
+   * CinetPay codes are preferred over HTTP statuses when the body has one.
+   *
+   * @param error Error thrown by the CinetPay call
+   * @param message Message used when CinetPay does not give one
+   * @returns Typed payment error
+   */
+  private toError(error: unknown, message: string): PaymentError {
+    const data = this.getErrorBody(error);
+
+    if (!(error instanceof PaymentError) && data?.code) {
+      const status = (error as { response?: { status?: number } }).response
+        ?.status;
+      return mapCinetpayError(data, message, status);
+    }
+
+    return toPaymentError(error, { provider: "cinetpay", message });
+  }
+}
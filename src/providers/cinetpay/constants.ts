@@ -0,0 +1,100 @@
+import { CurrencyAmountLimits } from "../../types";
+
+/**
+ * CinetPay API base URL
+ */
+export const CINETPAY_API_BASE_URL = "https://api-checkout.cinetpay.com/v2";
+
+/**
+ * CinetPay API endpoints
+ */
+export const CINETPAY_ENDPOINTS = {
+  INIT_PAYMENT: "/payment",
+  CHECK_STATUS: "/payment/check",
+};
+
+/**
+ * CinetPay supported currencies
+ */
+export const CINETPAY_CURRENCIES = [
+  "XOF", // West African CFA franc
+  "XAF", // Central African CFA franc
+  "CDF", // Congolese franc
+  "GNF", // Guinean franc
+  "USD", // US Dollar
+];
+
+/**
+ * Default CinetPay amount limits, in major units
+ *
+ * Merchants with other contractual limits override them with amountLimits.
+ */
+export const CINETPAY_AMOUNT_LIMITS: CurrencyAmountLimits = {
+  XOF: { min: 100 },
+  XAF: { min: 100 },
+  USD: { min: 1 },
+};
+
+/**
+ * Payment channels accepted by the CinetPay checkout
+ */
+export enum CINETPAY_CHANNEL {
+  ALL = "ALL",
+  MOBILE_MONEY = "MOBILE_MONEY",
+  CREDIT_CARD = "CREDIT_CARD",
+  WALLET = "WALLET",
+}
+
+/**
+ * CinetPay API response codes
+ */
+export enum CINETPAY_CODE {
+  SUCCESS = "00",
+  CREATED = "201",
+  PAYMENT_FAILED = "600",
+  INSUFFICIENT_BALANCE = "602",
+  OTP_CODE_ERROR = "604",
+  MINIMUM_REQUIRED_FIELDS = "608",
+  AUTH_NOT_FOUND = "609",
+  WAITING_CUSTOMER_TO_VALIDATE = "623",
+  TRANSACTION_CANCEL = "627",
+  WAITING_CUSTOMER_PAYMENT = "662",
+  WAITING_CUSTOMER_OTP_CODE = "663",
+}
+
+/**
+ * CinetPay transaction statuses returned by the check endpoint
+ */
+export enum CINETPAY_STATUS {
+  ACCEPTED = "ACCEPTED",
+  REFUSED = "REFUSED",
+  WAITING_FOR_CUSTOMER = "WAITING_FOR_CUSTOMER",
+  CANCELED = "CANCELED",
+}
+
+/**
+ * Header carrying the HMAC token on CinetPay notifications
+ */
+export const CINETPAY_SIGNATURE_HEADER = "x-token";
+
+/**
+ * Notification fields concatenated (in this order) to compute the x-token HMAC
+ */
+export const CINETPAY_SIGNATURE_FIELDS = [
+  "cpm_site_id",
+  "cpm_trans_id",
+  "cpm_trans_date",
+  "cpm_amount",
+  "cpm_currency",
+  "signature",
+  "payment_method",
+  "cel_phone_num",
+  "cpm_phone_prefixe",
+  "cpm_language",
+  "cpm_version",
+  "cpm_payment_config",
+  "cpm_page_action",
+  "cpm_custom",
+  "cpm_designation",
+  "cpm_error_message",
+];
@@ -0,0 +1,308 @@
+import {
+  PaymentRequest,
+  PaymentResponse,
+  Transaction,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../types";
+import {
+  CinetpayConfig,
+  CinetpayPaymentRequest,
+  CinetpayPaymentResponse,
+  CinetpayStatusResponse,
+  CinetpayWebhookPayload,
+} from "./types";
+import { CINETPAY_CHANNEL, CINETPAY_CODE, CINETPAY_STATUS } from "./constants";
+import {
+  AuthenticationError,
+  DuplicateReferenceError,
+  PaymentError,
+  ProviderUnavailableError,
+  ValidationError,
+} from "../../core/errors";
+import { Money, parseMajorAmount } from "../../core/money";
+
+/**
+ * CinetPay codes describing the state of a payment rather than an API error
+ */
+const PAYMENT_STATE_CODES: string[] = [
+  CINETPAY_CODE.SUCCESS,
+  CINETPAY_CODE.PAYMENT_FAILED,
+  CINETPAY_CODE.INSUFFICIENT_BALANCE,
+  CINETPAY_CODE.OTP_CODE_ERROR,
+  CINETPAY_CODE.WAITING_CUSTOMER_TO_VALIDATE,
+  CINETPAY_CODE.TRANSACTION_CANCEL,
+  CINETPAY_CODE.WAITING_CUSTOMER_PAYMENT,
+  CINETPAY_CODE.WAITING_CUSTOMER_OTP_CODE,
+];
+
+/**
+ * Checks whether a CinetPay code describes the state of a payment
+ *
+ * @param code CinetPay result code
+ * @returns True if the code is a payment state, false if it is an API error
+ */
+export function isCinetpayPaymentCode(code?: string): boolean {
+  return code !== undefined && PAYMENT_STATE_CODES.includes(code);
+}
+
+/**
+ * Maps a CinetPay error response to the matching typed error
+ *
+ * @param response CinetPay response body
+ * @param fallbackMessage Message used when CinetPay does not give one
+ * @param httpStatus HTTP status of the response, if any
+ * @returns Typed payment error
+ */
+export function mapCinetpayError(
+  response: { code?: string; message?: string; description?: string },
+  fallbackMessage: string,
+  httpStatus?: number
+): PaymentError {
+  const message = response.description || response.message || fallbackMessage;
+  const details = {
+    provider: "cinetpay",
+    providerCode: response.code,
+    httpStatus,
+    raw: response,
+  };
+
+  if (response.code === CINETPAY_CODE.AUTH_NOT_FOUND) {
+    return new AuthenticationError(message, details);
+  }
+  if (/ALREADY_EXIST/i.test(`${response.message} ${response.description}`)) {
+    return new DuplicateReferenceError(message, details);
+  }
+  if (response.code === CINETPAY_CODE.MINIMUM_REQUIRED_FIELDS) {
+    return new ValidationError(message, details);
+  }
+  if (httpStatus !== undefined && httpStatus >= 500) {
+    return new ProviderUnavailableError(message, details);
+  }
+  if (httpStatus !== undefined && httpStatus >= 400) {
+    return new ValidationError(message, details);
+  }
+
+  return new PaymentError(message, details);
+}
+
+/**
+ * Maps the unified PaymentRequest to CinetPay's specific request format
+ *
+ * @param request Unified payment request
+ * @param config CinetPay configuration
+ * @returns CinetPay-formatted payment request
+ */
+export function mapToCinetpayRequest(
+  request: PaymentRequest,
+  config: CinetpayConfig
+): CinetpayPaymentRequest {
+  // CinetPay expects first name and last name separately
+  const [firstName, ...lastNames] = (request.customerName || "").split(" ");
+
+  return {
+    apikey: config.apiKey,
+    site_id: config.siteId,
+    transaction_id: request.reference,
+    amount: Money.fromMajor(request.amount, request.currency).toMajor(),
+    currency: request.currency.toUpperCase(),
+    description: request.description,
+    notify_url: request.webhookUrl || config.defaultNotifyUrl,
+    return_url: request.returnUrl || config.defaultReturnUrl,
+    channels: config.channels || CINETPAY_CHANNEL.ALL,
+    metadata: request.metadata ? JSON.stringify(request.metadata) : undefined,
+    lang: config.lang,
+    customer_name: firstName || undefined,
+    customer_surname: lastNames.length > 0 ? lastNames.join(" ") : undefined,
+    customer_email: request.customerEmail,
+    customer_phone_number: request.customerPhone,
+  };
+}
+
+/**
+ * Maps CinetPay's payment response to the unified PaymentResponse format
+ *
+ * @param response CinetPay payment response
+ * @param reference Merchant transaction identifier
+ * @returns Unified payment response
+ * @throws PaymentError if CinetPay rejected the payment request
+ */
+export function mapFromCinetpayResponse(
+  response: CinetpayPaymentResponse,
+  reference: string
+): PaymentResponse {
+  if (response.code !== CINETPAY_CODE.CREATED || !response.data) {
+    throw mapCinetpayError(response, "Unknown error occurred");
+  }
+
+  return {
+    success: true,
+    redirectUrl: response.data.payment_url,
+    token: response.data.payment_token,
+    paymentId: reference, // CinetPay looks payments up by transaction_id
+    status: TransactionStatus.PENDING,
+    gatewayReference: response.api_response_id,
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Maps a CinetPay result code to the unified TransactionStatus
+ *
+ * @param code CinetPay result code
+ * @returns Unified transaction status
+ */
+export function mapCinetpayCode(code?: string): TransactionStatus {
+  switch (code) {
+    case CINETPAY_CODE.SUCCESS:
+      return TransactionStatus.COMPLETED;
+    case CINETPAY_CODE.WAITING_CUSTOMER_TO_VALIDATE:
+    case CINETPAY_CODE.WAITING_CUSTOMER_PAYMENT:
+    case CINETPAY_CODE.WAITING_CUSTOMER_OTP_CODE:
+      return TransactionStatus.PENDING;
+    case CINETPAY_CODE.TRANSACTION_CANCEL:
+      return TransactionStatus.CANCELED;
+    default:
+      return TransactionStatus.FAILED;
+  }
+}
+
+/**
+ * Maps CinetPay's payment status to the unified TransactionStatus
+ *
+ * @param statusResponse CinetPay status response
+ * @returns Unified transaction status
+ * @throws PaymentError if the response is an API error rather than a payment state
+ */
+export function mapCinetpayStatus(
+  statusResponse: CinetpayStatusResponse
+): TransactionStatus {
+  switch (statusResponse.data?.status?.toUpperCase()) {
+    case CINETPAY_STATUS.ACCEPTED:
+      return TransactionStatus.COMPLETED;
+    case CINETPAY_STATUS.WAITING_FOR_CUSTOMER:
+      return TransactionStatus.PENDING;
+    case CINETPAY_STATUS.CANCELED:
+      return TransactionStatus.CANCELED;
+    case CINETPAY_STATUS.REFUSED:
+      return TransactionStatus.FAILED;
+    default:
+      if (!isCinetpayPaymentCode(statusResponse.code)) {
+        throw mapCinetpayError(statusResponse, "Payment status lookup failed");
+      }
+      return mapCinetpayCode(statusResponse.code);
+  }
+}
+
+/**
+ * Parses the metadata CinetPay echoes back as a string
+ *
+ * @param metadata Metadata string
+ * @returns Parsed metadata, or the raw string if it is not valid JSON
+ */
+function parseCinetpayMetadata(metadata: string): Record<string, unknown> {
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    // If the metadata is not valid JSON, use it as a string
+    return { raw: metadata };
+  }
+}
+
+/**
+ * Maps CinetPay's status response to the unified Transaction format
+ *
+ * @param statusResponse CinetPay status response
+ * @param paymentId Merchant transaction ID that was looked up
+ * @returns Unified transaction
+ * @throws PaymentError if the response is an API error rather than a payment state
+ */
+export function mapCinetpayTransaction(
+  statusResponse: CinetpayStatusResponse,
+  paymentId: string
+): Transaction {
+  const data = statusResponse.data || {};
+
+  return {
+    paymentId,
+    reference: paymentId, // CinetPay looks payments up by transaction_id
+    status: mapCinetpayStatus(statusResponse),
+    amount: data.amount
+      ? parseMajorAmount(data.amount, data.currency)
+      : undefined,
+    currency: data.currency,
+    description: data.description,
+    paymentMethod: data.payment_method,
+    gatewayReference: data.operator_id || undefined,
+    metadata: data.metadata ? parseCinetpayMetadata(data.metadata) : undefined,
+    paidAt: data.payment_date ? new Date(data.payment_date) : undefined,
+    gatewayName: "cinetpay",
+    raw: statusResponse,
+  };
+}
+
+/**
+ * Maps CinetPay's notification to the unified WebhookEvent format
+ *
+ * @param payload CinetPay notification payload
+ * @returns Unified webhook event
+ */
+export function mapFromCinetpayWebhook(
+  payload: CinetpayWebhookPayload
+): WebhookEvent {
+  // Older notifications only carry the message, "SUCCES" meaning accepted
+  const code =
+    payload.cpm_result ||
+    (payload.cpm_error_message?.toUpperCase() === "SUCCES"
+      ? CINETPAY_CODE.SUCCESS
+      : undefined);
+
+  const status = mapCinetpayCode(code);
+
+  // Determine event type
+  let eventType: WebhookEventType;
+
+  switch (status) {
+    case TransactionStatus.COMPLETED:
+      eventType = WebhookEventType.PAYMENT_SUCCESS;
+      break;
+    case TransactionStatus.PENDING:
+      eventType = WebhookEventType.PAYMENT_PENDING;
+      break;
+    case TransactionStatus.CANCELED:
+      eventType = WebhookEventType.PAYMENT_CANCELED;
+      break;
+    default:
+      eventType = WebhookEventType.PAYMENT_FAILED;
+  }
+
+  // Parse metadata if present
+  const metadata = payload.cpm_custom
+    ? parseCinetpayMetadata(payload.cpm_custom)
+    : {};
+
+  return {
+    type: eventType,
+    data: {
+      reference: payload.cpm_trans_id,
+      paymentId: payload.cpm_trans_id,
+      amount: payload.cpm_amount
+        ? parseMajorAmount(payload.cpm_amount, payload.cpm_currency)
+        : undefined,
+      currency: payload.cpm_currency,
+      status: status,
+      gatewayReference: payload.cpm_payid,
+      metadata: metadata,
+      paymentMethod: payload.payment_method,
+      customerPhone: payload.cel_phone_num
+        ? `${payload.cpm_phone_prefixe || ""}${payload.cel_phone_num}`
+        : undefined,
+    },
+    createdAt: payload.cpm_trans_date
+      ? new Date(payload.cpm_trans_date)
+      : new Date(),
+    timestampMissing: payload.cpm_trans_date ? undefined : true,
+    gatewayName: "cinetpay",
+  };
+}
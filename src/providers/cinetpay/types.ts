@@ -0,0 +1,274 @@
+import { GatewayConfig } from "../../types";
+import { CINETPAY_CHANNEL } from "./constants";
+
+/**
+ * CinetPay specific configuration
+ */
+export interface CinetpayConfig extends GatewayConfig {
+  /**
+   * Merchant site identifier from the CinetPay dashboard
+   */
+  siteId: string;
+
+  /**
+   * Optional timeout for API requests in milliseconds
+   */
+  timeout?: number;
+
+  /**
+   * Optional notification URL (can be overridden per payment)
+   */
+  defaultNotifyUrl?: string;
+
+  /**
+   * Optional return URL (can be overridden per payment)
+   */
+  defaultReturnUrl?: string;
+
+  /**
+   * Optional payment channels shown on the checkout (defaults to ALL)
+   */
+  channels?: CINETPAY_CHANNEL;
+
+  /**
+   * Optional checkout language (fr or en)
+   */
+  lang?: string;
+}
+
+/**
+ * CinetPay payment initialization request
+ */
+export interface CinetpayPaymentRequest {
+  /**
+   * Merchant API key
+   */
+  apikey: string;
+
+  /**
+   * Merchant site identifier
+   */
+  site_id: string;
+
+  /**
+   * Unique transaction identifier from merchant system
+   */
+  transaction_id: string;
+
+  /**
+   * Amount to pay (integer, multiple of 5 except for USD)
+   */
+  amount: number;
+
+  /**
+   * Payment currency code
+   */
+  currency: string;
+
+  /**
+   * Description of the payment
+   */
+  description: string;
+
+  /**
+   * URL receiving payment notifications
+   */
+  notify_url?: string;
+
+  /**
+   * URL the customer is redirected to after payment
+   */
+  return_url?: string;
+
+  /**
+   * Payment channels shown on the checkout
+   */
+  channels: string;
+
+  /**
+   * Additional data passed through the payment process
+   */
+  metadata?: string;
+
+  /**
+   * Checkout language
+   */
+  lang?: string;
+
+  /**
+   * Customer first name
+   */
+  customer_name?: string;
+
+  /**
+   * Customer last name
+   */
+  customer_surname?: string;
+
+  /**
+   * Customer email address
+   */
+  customer_email?: string;
+
+  /**
+   * Customer phone number
+   */
+  customer_phone_number?: string;
+}
+
+/**
+ * CinetPay payment initialization response
+ */
+export interface CinetpayPaymentResponse {
+  /**
+   * Response code ("201" when the payment is created)
+   */
+  code: string;
+
+  /**
+   * Response message
+   */
+  message: string;
+
+  /**
+   * Human readable description
+   */
+  description?: string;
+
+  /**
+   * Checkout data
+   */
+  data?: {
+    payment_token: string;
+    payment_url: string;
+  };
+
+  /**
+   * CinetPay identifier of the API call
+   */
+  api_response_id?: string;
+}
+
+/**
+ * CinetPay payment status request
+ */
+export interface CinetpayStatusRequest {
+  apikey: string;
+  site_id: string;
+  transaction_id: string;
+}
+
+/**
+ * CinetPay payment status response
+ */
+export interface CinetpayStatusResponse {
+  /**
+   * Response code ("00" when the payment is accepted)
+   */
+  code: string;
+
+  /**
+   * Response message
+   */
+  message: string;
+
+  /**
+   * Transaction details
+   */
+  data?: {
+    amount?: string;
+    currency?: string;
+    status?: string;
+    payment_method?: string;
+    description?: string;
+    metadata?: string | null;
+    operator_id?: string | null;
+    payment_date?: string;
+    fund_availability_date?: string;
+  };
+
+  /**
+   * CinetPay identifier of the API call
+   */
+  api_response_id?: string;
+}
+
+/**
+ * CinetPay notification payload (sent to notify_url)
+ */
+export interface CinetpayWebhookPayload {
+  /**
+   * Merchant site identifier
+   */
+  cpm_site_id: string;
+
+  /**
+   * Merchant transaction identifier
+   */
+  cpm_trans_id: string;
+
+  /**
+   * Transaction date
+   */
+  cpm_trans_date?: string;
+
+  /**
+   * Transaction amount
+   */
+  cpm_amount?: string;
+
+  /**
+   * Transaction currency
+   */
+  cpm_currency?: string;
+
+  /**
+   * CinetPay signature of the transaction
+   */
+  signature?: string;
+
+  /**
+   * Payment method used by the customer
+   */
+  payment_method?: string;
+
+  /**
+   * Customer phone number
+   */
+  cel_phone_num?: string;
+
+  /**
+   * Customer phone prefix
+   */
+  cpm_phone_prefixe?: string;
+
+  cpm_language?: string;
+  cpm_version?: string;
+  cpm_payment_config?: string;
+  cpm_page_action?: string;
+
+  /**
+   * Additional data passed during payment creation
+   */
+  cpm_custom?: string;
+
+  /**
+   * Payment description
+   */
+  cpm_designation?: string;
+
+  /**
+   * Result code of the transaction
+   */
+  cpm_result?: string;
+
+  /**
+   * Result message of the transaction
+   */
+  cpm_error_message?: string;
+
+  /**
+   * CinetPay transaction identifier
+   */
+  cpm_payid?: string;
+}
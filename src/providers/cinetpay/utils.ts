@@ -0,0 +1,79 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { CINETPAY_CURRENCIES, CINETPAY_SIGNATURE_FIELDS } from "./constants";
+import { CinetpayWebhookPayload } from "./types";
+
+/**
+ * Validates if a currency is supported by CinetPay
+ *
+ * @param currency Currency code to validate
+ * @returns True if the currency is supported, false otherwise
+ */
+export function isValidCinetpayCurrency(currency: string): boolean {
+  return CINETPAY_CURRENCIES.includes(currency.toUpperCase());
+}
+
+/**
+ * Validates a payment amount for CinetPay
+ *
+ * CinetPay only accepts whole amounts, and amounts that are a multiple
+ * of 5 for every currency except USD.
+ *
+ * @param amount Payment amount to validate
+ * @param currency Currency of the payment
+ * @returns True if the amount is valid, false otherwise
+ */
+export function isValidCinetpayAmount(
+  amount: number,
+  currency: string
+): boolean {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return false;
+  }
+
+  return currency.toUpperCase() === "USD" || amount % 5 === 0;
+}
+
+/**
+ * Creates the x-token HMAC of a CinetPay notification
+ *
+ * @param payload Notification payload
+ * @param secret Merchant secret key
+ * @returns Hex encoded HMAC SHA256 token
+ */
+export function createCinetpaySignature(
+  payload: CinetpayWebhookPayload,
+  secret: string
+): string {
+  const fields = payload as unknown as Record<string, unknown>;
+
+  // Concatenate the notification fields in the documented order
+  const data = CINETPAY_SIGNATURE_FIELDS.map((field) =>
+    fields[field] === undefined || fields[field] === null
+      ? ""
+      : String(fields[field])
+  ).join("");
+
+  return createHmac("sha256", secret).update(data).digest("hex");
+}
+
+/**
+ * Verifies the x-token HMAC of a CinetPay notification
+ *
+ * @param payload Notification payload
+ * @param token Token received in the x-token header
+ * @param secret Merchant secret key
+ * @returns True if the token is valid, false otherwise
+ */
+export function verifyCinetpaySignature(
+  payload: CinetpayWebhookPayload,
+  token: string,
+  secret: string
+): boolean {
+  const expected = Buffer.from(createCinetpaySignature(payload, secret));
+  const received = Buffer.from(token);
+
+  // Constant-time comparison to prevent timing attacks
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
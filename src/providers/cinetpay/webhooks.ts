@@ -0,0 +1,90 @@
+// src/providers/cinetpay/webhooks.ts
+
+import { WebhookValidationResult, WebhookEvent } from "../../types";
+import { CinetpayWebhookPayload } from "./types";
+import { mapFromCinetpayWebhook } from "./mappers";
+import { verifyCinetpaySignature } from "./utils";
+import { CINETPAY_SIGNATURE_HEADER } from "./constants";
+
+/**
+ * Validates a notification from CinetPay
+ *
+ * @param payload The notification payload from CinetPay
+ * @param headers The HTTP headers from the notification request
+ * @param siteId The merchant site identifier
+ * @param secretKey The secret key used to validate the x-token header
+ * @returns Validation result indicating if the notification is valid
+ */
+export function validateCinetpayWebhook(
+  payload: Partial<CinetpayWebhookPayload> | null | undefined,
+  headers: Record<string, string>,
+  siteId: string,
+  secretKey?: string
+): WebhookValidationResult {
+  // Basic payload validation
+  if (!payload) {
+    return { isValid: false, reason: "Empty payload" };
+  }
+
+  // Required fields validation
+  const requiredFields = ["cpm_site_id", "cpm_trans_id"] as const;
+  for (const field of requiredFields) {
+    if (!payload[field]) {
+      return { isValid: false, reason: `Missing required field: ${field}` };
+    }
+  }
+
+  if (siteId && payload.cpm_site_id !== siteId) {
+    return { isValid: false, reason: "Site ID mismatch" };
+  }
+
+  // If a secret key is provided, validate the HMAC token
+  if (secretKey) {
+    const token =
+      headers[CINETPAY_SIGNATURE_HEADER] || headers["X-Token"] || "";
+
+    if (!token) {
+      return { isValid: false, reason: "Missing signature header" };
+    }
+
+    if (
+      !verifyCinetpaySignature(
+        payload as CinetpayWebhookPayload,
+        token,
+        secretKey
+      )
+    ) {
+      return { isValid: false, reason: "Invalid signature" };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Processes a notification from CinetPay and converts it to a standardized format
+ *
+ * @param payload The notification payload from CinetPay
+ * @returns Standardized webhook event
+ */
+export function processCinetpayWebhook(
+  payload: CinetpayWebhookPayload
+): WebhookEvent {
+  return mapFromCinetpayWebhook(payload);
+}
+
+/**
+ * Generates a notification response for CinetPay
+ *
+ * CinetPay only looks at the HTTP status code of the acknowledgement.
+ *
+ * @param success Whether the notification processing was successful
+ * @param message Optional message to include in the response
+ * @returns Response body to send back to CinetPay
+ */
+export function generateCinetpayWebhookResponse(
+  success: boolean,
+  message?: string
+): string {
+  return message || (success ? "OK" : "ERROR");
+}
@@ -0,0 +1,12 @@
+import { PaymentProvider } from "../types";
+import { registerProvider } from "../core/registry";
+import { PaytechGateway } from "./paytech/PaytechGateway";
+import { CinetpayGateway } from "./cinetpay/CinetpayGateway";
+import { MoneyFusionGateway } from "./moneyfusion/MoneyFusionGateway";
+
+/**
+ * Register the built-in payment providers
+ */
+registerProvider(PaymentProvider.PAYTECH, () => new PaytechGateway());
+registerProvider(PaymentProvider.CINETPAY, () => new CinetpayGateway());
+registerProvider(PaymentProvider.MONEY_FUSION, () => new MoneyFusionGateway());
@@ -0,0 +1,451 @@
+import axios, { AxiosInstance } from "axios";
+import {
+  PaymentGateway,
+  GatewayConfig,
+  GatewayHealth,
+  PaymentRequest,
+  PaymentResponse,
+  TransactionStatus,
+  Transaction,
+  RefundResponse,
+  WebhookValidationResult,
+  WebhookEvent,
+  WebhookAcknowledgement,
+} from "../../types";
+import {
+  MoneyFusionConfig,
+  MoneyFusionPaymentResponse,
+  MoneyFusionStatusResponse,
+  MoneyFusionWebhookPayload,
+} from "./types";
+import {
+  ConfigurationError,
+  UnsupportedOperationError,
+  ValidationError,
+  toPaymentError,
+} from "../../core/errors";
+import { withRetry } from "../../core/retry";
+import { checkBodySignature } from "../../core/payload";
+import { CircuitBreaker } from "../../core/circuitBreaker";
+import { Money, assertAmountWithinLimits } from "../../core/money";
+import {
+  mapToMoneyFusionRequest,
+  mapFromMoneyFusionResponse,
+  mapMoneyFusionStatus,
+  mapMoneyFusionTransaction,
+  parseMoneyFusionErrorBody,
+} from "./mappers";
+import { isValidMoneyFusionCurrency, isValidMoneyFusionAmount } from "./utils";
+import {
+  validateMoneyFusionWebhook,
+  processMoneyFusionWebhook,
+  isKnownMoneyFusionEvent,
+  generateMoneyFusionWebhookResponse,
+} from "./webhooks";
+import {
+  MONEY_FUSION_API_BASE_URL,
+  MONEY_FUSION_AMOUNT_LIMITS,
+  MONEY_FUSION_CURRENCIES,
+  MONEY_FUSION_ENDPOINTS,
+} from "./constants";
+
+/**
+ * Time a webhook confirmation is reused for the same notification, in milliseconds
+ */
+const WEBHOOK_CONFIRMATION_TTL_MS = 30 * 1000;
+
+/**
+ * Implementation of the PaymentGateway interface for Money Fusion
+ */
+export class MoneyFusionGateway implements PaymentGateway {
+  private config: MoneyFusionConfig;
+  private initialized: boolean = false;
+  private client: AxiosInstance;
+  private breaker: CircuitBreaker;
+  private confirmations = new Map<
+    string,
+    { event: Promise<WebhookEvent>; expiresAt: number }
+  >();
+
+  /**
+   * Creates a new instance of MoneyFusionGateway
+   *
+   * @param now Clock returning the current time in milliseconds
+   */
+  constructor(private readonly now: () => number = Date.now) {
+    this.config = {
+      apiKey: "",
+      apiSecret: "",
+      environment: "test",
+      apiUrl: "",
+    };
+
+    this.breaker = new CircuitBreaker("moneyfusion");
+
+    // Initialize axios instance
+    this.client = axios.create({
+      baseURL: MONEY_FUSION_API_BASE_URL,
+      timeout: 10000, // 10 seconds default timeout
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  /**
+   * Initialize the gateway with configuration
+   *
+   * @param config Gateway configuration
+   * @returns Promise resolving to true if initialization is successful
+   * @throws ConfigurationError if the merchant API URL is missing
+   */
+  async initialize(config: GatewayConfig): Promise<boolean> {
+    const apiUrl = config.additionalConfig?.apiUrl as string;
+
+    if (!apiUrl) {
+      throw new ConfigurationError(
+        "Failed to initialize Money Fusion gateway: additionalConfig.apiUrl is required"
+      );
+    }
+
+    this.config = {
+      apiKey: config.apiKey,
+      apiSecret: config.apiSecret,
+      environment: config.environment,
+      webhookSecret: config.webhookSecret,
+      webhookSignature: config.webhookSignature,
+      retry: config.retry,
+      circuitBreaker: config.circuitBreaker,
+      amountLimits: { ...MONEY_FUSION_AMOUNT_LIMITS, ...config.amountLimits },
+      apiUrl: apiUrl,
+      statusUrl: config.additionalConfig?.statusUrl as string,
+      timeout: (config.additionalConfig?.timeout as number) || 10000,
+      defaultReturnUrl: config.additionalConfig?.defaultReturnUrl as string,
+      defaultWebhookUrl: config.additionalConfig?.defaultWebhookUrl as string,
+    };
+
+    this.breaker = new CircuitBreaker(
+      "moneyfusion",
+      this.config.circuitBreaker
+    );
+
+    // Update axios instance with new configuration
+    this.client.defaults.timeout = this.config.timeout;
+    if (this.config.statusUrl) {
+      this.client.defaults.baseURL = this.config.statusUrl;
+    }
+
+    this.initialized = true;
+    return true;
+  }
+
+  /**
+   * Get the currencies supported by Money Fusion
+   *
+   * @returns Supported currency codes
+   */
+  getSupportedCurrencies(): string[] {
+    return [...MONEY_FUSION_CURRENCIES];
+  }
+
+  /**
+   * Get the health of Money Fusion, as seen by the circuit breaker
+   *
+   * @returns Provider health
+   */
+  getHealth(): GatewayHealth {
+    return this.breaker.getHealth();
+  }
+
+  /**
+   * Create a payment link
+   *
+   * @param request Payment request details
+   * @returns Promise resolving to payment response
+   */
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    if (!this.initialized) {
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
+    }
+
+    // Validate request
+    if (!request.reference || !request.description) {
+      throw new ValidationError(
+        "Invalid payment request: missing required fields"
+      );
+    }
+
+    if (!request.customerPhone) {
+      throw new ValidationError(
+        "Invalid payment request: customerPhone is required by Money Fusion"
+      );
+    }
+
+    if (!isValidMoneyFusionAmount(request.amount)) {
+      throw new ValidationError("Invalid amount");
+    }
+
+    assertAmountWithinLimits(
+      Money.fromMajor(request.amount, request.currency),
+      this.config.amountLimits || MONEY_FUSION_AMOUNT_LIMITS,
+      "moneyfusion"
+    );
+
+    if (!isValidMoneyFusionCurrency(request.currency)) {
+      throw new ValidationError(`Unsupported currency: ${request.currency}`);
+    }
+
+    try {
+      // Map to Money Fusion request format
+      const moneyFusionRequest = mapToMoneyFusionRequest(request, this.config);
+
+      // Payment links are created on the merchant specific API URL. Without
+      // an idempotency key, they are only retried when Money Fusion cannot
+      // have created them
+      const response = await withRetry(
+        () =>
+          this.breaker.execute(() =>
+            this.client.post(this.config.apiUrl, moneyFusionRequest)
+          ),
+        {
+          provider: "moneyfusion",
+          operation: "createPayment",
+          policy: this.config.retry,
+          idempotent: !!request.idempotencyKey,
+        }
+      );
+
+      const moneyFusionResponse: MoneyFusionPaymentResponse = response.data;
+
+      // Map response to unified format
+      return mapFromMoneyFusionResponse(moneyFusionResponse);
+    } catch (error) {
+      throw toPaymentError(error, {
+        provider: "moneyfusion",
+        message: "Payment request failed",
+        parseBody: parseMoneyFusionErrorBody,
+      });
+    }
+  }
+
+  /**
+   * Verify the status of a payment
+   *
+   * @param paymentId Payment token to verify
+   * @returns Promise resolving to transaction status
+   */
+  async verifyPayment(paymentId: string): Promise<TransactionStatus> {
+    const statusResponse = await this.fetchStatus(
+      paymentId,
+      "verifyPayment",
+      "Failed to verify payment"
+    );
+
+    // Map Money Fusion status to unified status
+    return mapMoneyFusionStatus(statusResponse);
+  }
+
+  /**
+   * Get the full details of a payment
+   *
+   * @param paymentId Payment token to look up
+   * @returns Promise resolving to the transaction details
+   */
+  async getTransaction(paymentId: string): Promise<Transaction> {
+    const statusResponse = await this.fetchStatus(
+      paymentId,
+      "getTransaction",
+      "Failed to get transaction"
+    );
+
+    return mapMoneyFusionTransaction(statusResponse, paymentId);
+  }
+
+  /**
+   * Fetch the status of a payment from Money Fusion
+   *
+   * @param paymentId Payment token to look up
+   * @param operation Gateway operation, reported to the retry hook
+   * @param message Message used when the lookup fails
+   * @returns Promise resolving to the Money Fusion status response
+   */
+  private async fetchStatus(
+    paymentId: string,
+    operation: string,
+    message: string
+  ): Promise<MoneyFusionStatusResponse> {
+    if (!this.initialized) {
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
+    }
+
+    if (!paymentId) {
+      throw new ValidationError("Payment ID is required");
+    }
+
+    try {
+      // Make API request to check payment status
+      const response = await withRetry(
+        () =>
+          this.breaker.execute(() =>
+            this.client.get(
+              `${MONEY_FUSION_ENDPOINTS.CHECK_STATUS}/${paymentId}`
+            )
+          ),
+        { provider: "moneyfusion", operation, policy: this.config.retry }
+      );
+
+      return response.data;
+    } catch (error) {
+      throw toPaymentError(error, {
+        provider: "moneyfusion",
+        message,
+        parseBody: parseMoneyFusionErrorBody,
+      });
+    }
+  }
+
+  /**
+   * Process a refund for a completed payment
+   *
+   * Money Fusion does not expose refunds through its API.
+   *
+   * @param paymentId Payment token to refund
+   * @throws UnsupportedOperationError always
+   */
+  async refundPayment(paymentId: string): Promise<RefundResponse> {
+    if (!this.initialized) {
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
+    }
+
+    if (!paymentId) {
+      throw new ValidationError("Payment ID is required");
+    }
+
+    throw new UnsupportedOperationError(
+      "Refunds are not supported by the Money Fusion API",
+      { provider: "moneyfusion" }
+    );
+  }
+
+  /**
+   * Validate a webhook notification from Money Fusion
+   *
+   * Money Fusion does not sign its notifications. The signature over the
+   * raw body is checked first, when one is required.
+   *
+   * @param payload Webhook payload
+   * @param headers HTTP headers from the webhook request
+   * @param rawBody Body exactly as received
+   * @returns Promise resolving to webhook validation result
+   */
+  async validateWebhook(
+    payload: unknown,
+    headers: Record<string, string> = {},
+    rawBody?: Buffer
+  ): Promise<WebhookValidationResult> {
+    const signature = checkBodySignature(
+      this.config.webhookSignature,
+      headers,
+      rawBody
+    );
+
+    if (!signature.isValid) {
+      return signature;
+    }
+
+    return validateMoneyFusionWebhook(
+      payload as Partial<MoneyFusionWebhookPayload>
+    );
+  }
+
+  /**
+   * Process a webhook notification from Money Fusion
+   *
+   * The payment is looked up on Money Fusion, and the event reports the
+   * status found rather than the one the notification claims. The hub
+   * processes a notification to validate it and again to dispatch it, so
+   * the confirmation of the same notification is reused for a few seconds:
+   * both steps see the same status for a single lookup.
+   *
+   * @param payload Webhook payload
+   * @returns Promise resolving to webhook event
+   * @throws NotFoundError if Money Fusion does not know the payment
+   * @throws PaymentError if the status lookup fails
+   */
+  async processWebhook(payload: unknown): Promise<WebhookEvent> {
+    if (!payload) {
+      throw new ValidationError("Invalid webhook payload");
+    }
+
+    // Money Fusion does not sign its webhooks, so the outcome is confirmed
+    // with a status lookup rather than taken from the body
+    const notification = payload as MoneyFusionWebhookPayload;
+
+    if (!isKnownMoneyFusionEvent(notification.event)) {
+      return processMoneyFusionWebhook(notification);
+    }
+
+    return await this.confirmWebhook(notification);
+  }
+
+  /**
+   * Confirm a notification with a status lookup, reusing a recent
+   * confirmation of the same notification
+   *
+   * A failed lookup is not kept, so a redelivery looks the payment up again.
+   */
+  private confirmWebhook(
+    notification: MoneyFusionWebhookPayload
+  ): Promise<WebhookEvent> {
+    const now = this.now();
+
+    for (const [key, confirmation] of this.confirmations) {
+      if (confirmation.expiresAt <= now) {
+        this.confirmations.delete(key);
+      }
+    }
+
+    const key = JSON.stringify(notification);
+    const confirmed = this.confirmations.get(key);
+    if (confirmed) {
+      return confirmed.event;
+    }
+
+    const event = this.fetchStatus(
+      notification.tokenPay,
+      "processWebhook",
+      "Failed to confirm webhook"
+    ).then((statusResponse) =>
+      processMoneyFusionWebhook(notification, statusResponse)
+    );
+
+    this.confirmations.set(key, {
+      event,
+      expiresAt: now + WEBHOOK_CONFIRMATION_TTL_MS,
+    });
+    event.catch(() => this.confirmations.delete(key));
+
+    return event;
+  }
+
+  /**
+   * Build the acknowledgement Money Fusion expects in reply to a webhook
+   *
+   * @param success Whether the webhook was processed successfully
+   * @param message Optional message to include in the acknowledgement
+   * @returns Acknowledgement body
+   */
+  acknowledgeWebhook(
+    success: boolean,
+    message?: string
+  ): WebhookAcknowledgement {
+    return generateMoneyFusionWebhookResponse(success, message);
+  }
+}
@@ -0,0 +1,53 @@
+import { CurrencyAmountLimits } from "../../types";
+
+/**
+ * Money Fusion API base URL (payment status lookups)
+ *
+ * Payment links are created against the merchant specific API URL
+ * given in the Money Fusion dashboard.
+ */
+export const MONEY_FUSION_API_BASE_URL = "https://www.pay.moneyfusion.net";
+
+/**
+ * Money Fusion API endpoints
+ */
+export const MONEY_FUSION_ENDPOINTS = {
+  CHECK_STATUS: "/paiementNotif",
+};
+
+/**
+ * Money Fusion supported currencies
+ */
+export const MONEY_FUSION_CURRENCIES = [
+  "XOF", // West African CFA franc
+  "XAF", // Central African CFA franc
+];
+
+/**
+ * Default Money Fusion amount limits, in major units
+ *
+ * Merchants with other contractual limits override them with amountLimits.
+ */
+export const MONEY_FUSION_AMOUNT_LIMITS: CurrencyAmountLimits = {
+  XOF: { min: 100 },
+  XAF: { min: 100 },
+};
+
+/**
+ * Money Fusion payment statuses
+ */
+export enum MONEY_FUSION_STATUS {
+  PENDING = "pending",
+  PAID = "paid",
+  FAILURE = "failure",
+  NO_PAID = "no paid",
+}
+
+/**
+ * Money Fusion webhook event types
+ */
+export enum MONEY_FUSION_WEBHOOK_EVENT {
+  PAYMENT_PENDING = "payin.session.pending",
+  PAYMENT_COMPLETED = "payin.session.completed",
+  PAYMENT_CANCELLED = "payin.session.cancelled",
+}
@@ -0,0 +1,214 @@
+import {
+  PaymentRequest,
+  PaymentResponse,
+  Transaction,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../types";
+import {
+  MoneyFusionConfig,
+  MoneyFusionPaymentRequest,
+  MoneyFusionPaymentResponse,
+  MoneyFusionStatusResponse,
+  MoneyFusionWebhookPayload,
+} from "./types";
+import { MONEY_FUSION_STATUS, MONEY_FUSION_WEBHOOK_EVENT } from "./constants";
+import { NotFoundError, PaymentError } from "../../core/errors";
+import { Money, parseMajorAmount } from "../../core/money";
+
+/**
+ * Extracts the error message of a Money Fusion error response body
+ *
+ * @param data Response body
+ * @returns Error message, if the body has one
+ */
+export function parseMoneyFusionErrorBody(data: unknown): {
+  message?: string;
+} {
+  const body = (data || {}) as { message?: unknown };
+  return {
+    message: typeof body.message === "string" ? body.message : undefined,
+  };
+}
+
+/**
+ * Maps the unified PaymentRequest to Money Fusion's specific request format
+ *
+ * The merchant reference and metadata travel in personal_Info so they are
+ * echoed back in status lookups and webhooks.
+ *
+ * @param request Unified payment request
+ * @param config Money Fusion configuration
+ * @returns Money Fusion-formatted payment request
+ */
+export function mapToMoneyFusionRequest(
+  request: PaymentRequest,
+  config: MoneyFusionConfig
+): MoneyFusionPaymentRequest {
+  const amount = Money.fromMajor(request.amount, request.currency).toMajor();
+
+  return {
+    totalPrice: amount,
+    article: [{ [request.description]: amount }],
+    personal_Info: [{ ...request.metadata, reference: request.reference }],
+    numeroSend: request.customerPhone || "",
+    nomclient: request.customerName || "",
+    return_url: request.returnUrl || config.defaultReturnUrl,
+    webhook_url: request.webhookUrl || config.defaultWebhookUrl,
+  };
+}
+
+/**
+ * Maps Money Fusion's payment response to the unified PaymentResponse format
+ *
+ * @param response Money Fusion payment response
+ * @returns Unified payment response
+ * @throws PaymentError if Money Fusion rejected the payment request
+ */
+export function mapFromMoneyFusionResponse(
+  response: MoneyFusionPaymentResponse
+): PaymentResponse {
+  if (!response.statut || !response.token) {
+    throw new PaymentError(response.message || "Unknown error occurred", {
+      provider: "moneyfusion",
+      raw: response,
+    });
+  }
+
+  return {
+    success: true,
+    redirectUrl: response.url,
+    token: response.token,
+    paymentId: response.token, // Using token as paymentId
+    status: TransactionStatus.PENDING,
+    message: response.message,
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Maps Money Fusion's payment status to the unified TransactionStatus
+ *
+ * @param statusResponse Money Fusion status response
+ * @returns Unified transaction status
+ * @throws NotFoundError if Money Fusion does not know the payment
+ */
+export function mapMoneyFusionStatus(
+  statusResponse: MoneyFusionStatusResponse
+): TransactionStatus {
+  if (!statusResponse.statut) {
+    throw new NotFoundError(statusResponse.message || "Payment not found", {
+      provider: "moneyfusion",
+      raw: statusResponse,
+    });
+  }
+
+  switch (statusResponse.data?.statut?.toLowerCase()) {
+    case MONEY_FUSION_STATUS.PAID:
+      return TransactionStatus.COMPLETED;
+    case MONEY_FUSION_STATUS.PENDING:
+      return TransactionStatus.PENDING;
+    case MONEY_FUSION_STATUS.NO_PAID:
+      return TransactionStatus.CANCELED;
+    default:
+      return TransactionStatus.FAILED;
+  }
+}
+
+/**
+ * Maps Money Fusion's status response to the unified Transaction format
+ *
+ * @param statusResponse Money Fusion status response
+ * @param paymentId Payment token that was looked up
+ * @returns Unified transaction
+ * @throws NotFoundError if Money Fusion does not know the payment
+ */
+export function mapMoneyFusionTransaction(
+  statusResponse: MoneyFusionStatusResponse,
+  paymentId: string
+): Transaction {
+  const status = mapMoneyFusionStatus(statusResponse);
+  const details = statusResponse.data;
+
+  // The merchant reference travels in personal_Info
+  const { reference, ...metadata } = details?.personal_Info?.[0] || {};
+
+  return {
+    paymentId,
+    reference: typeof reference === "string" ? reference : undefined,
+    status,
+    amount:
+      details?.Montant !== undefined
+        ? parseMajorAmount(details.Montant)
+        : undefined,
+    fees: details?.frais,
+    paymentMethod: details?.moyen,
+    customer:
+      details?.nomclient || details?.numeroSend
+        ? { name: details.nomclient, phone: details.numeroSend }
+        : undefined,
+    gatewayReference: details?.numeroTransaction,
+    metadata,
+    createdAt: details?.createdAt ? new Date(details.createdAt) : undefined,
+    gatewayName: "moneyfusion",
+    raw: statusResponse,
+  };
+}
+
+/**
+ * Maps Money Fusion's webhook notification to the unified WebhookEvent format
+ *
+ * @param payload Money Fusion webhook payload
+ * @returns Unified webhook event
+ */
+export function mapFromMoneyFusionWebhook(
+  payload: MoneyFusionWebhookPayload
+): WebhookEvent {
+  // Determine event type and transaction status
+  let eventType: WebhookEventType;
+  let status: TransactionStatus;
+
+  switch (payload.event) {
+    case MONEY_FUSION_WEBHOOK_EVENT.PAYMENT_COMPLETED:
+      eventType = WebhookEventType.PAYMENT_SUCCESS;
+      status = TransactionStatus.COMPLETED;
+      break;
+    case MONEY_FUSION_WEBHOOK_EVENT.PAYMENT_CANCELLED:
+      eventType = WebhookEventType.PAYMENT_CANCELED;
+      status = TransactionStatus.CANCELED;
+      break;
+    case MONEY_FUSION_WEBHOOK_EVENT.PAYMENT_PENDING:
+      eventType = WebhookEventType.PAYMENT_PENDING;
+      status = TransactionStatus.PENDING;
+      break;
+    default:
+      eventType = WebhookEventType.UNKNOWN;
+      status = TransactionStatus.PENDING;
+  }
+
+  // The merchant reference travels in personal_Info
+  const { reference, ...metadata } = payload.personal_Info?.[0] || {};
+
+  return {
+    type: eventType,
+    data: {
+      reference: typeof reference === "string" ? reference : payload.tokenPay,
+      paymentId: payload.tokenPay,
+      amount:
+        payload.Montant !== undefined
+          ? parseMajorAmount(payload.Montant)
+          : undefined,
+      fees: payload.frais,
+      status: status,
+      gatewayReference: payload.numeroTransaction,
+      metadata: metadata,
+      paymentMethod: payload.moyen,
+      customerName: payload.nomclient,
+      customerPhone: payload.numeroSend,
+    },
+    createdAt: payload.createdAt ? new Date(payload.createdAt) : new Date(),
+    timestampMissing: payload.createdAt ? undefined : true,
+    gatewayName: "moneyfusion",
+  };
+}
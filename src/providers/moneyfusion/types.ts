@@ -0,0 +1,189 @@
+import { GatewayConfig } from "../../types";
+
+/**
+ * Money Fusion specific configuration
+ */
+export interface MoneyFusionConfig extends GatewayConfig {
+  /**
+   * Merchant specific API URL used to create payment links
+   */
+  apiUrl: string;
+
+  /**
+   * Optional base URL for payment status lookups
+   */
+  statusUrl?: string;
+
+  /**
+   * Optional timeout for API requests in milliseconds
+   */
+  timeout?: number;
+
+  /**
+   * Optional return URL (can be overridden per payment)
+   */
+  defaultReturnUrl?: string;
+
+  /**
+   * Optional webhook URL (can be overridden per payment)
+   */
+  defaultWebhookUrl?: string;
+}
+
+/**
+ * Money Fusion payment link request
+ */
+export interface MoneyFusionPaymentRequest {
+  /**
+   * Total amount to pay
+   */
+  totalPrice: number;
+
+  /**
+   * Purchased articles, each entry mapping an article name to its price
+   */
+  article: Record<string, number>[];
+
+  /**
+   * Additional data passed through the payment process
+   */
+  personal_Info: Record<string, unknown>[];
+
+  /**
+   * Customer phone number
+   */
+  numeroSend: string;
+
+  /**
+   * Customer name
+   */
+  nomclient: string;
+
+  /**
+   * URL the customer is redirected to after payment
+   */
+  return_url?: string;
+
+  /**
+   * URL receiving payment notifications
+   */
+  webhook_url?: string;
+}
+
+/**
+ * Money Fusion payment link response
+ */
+export interface MoneyFusionPaymentResponse {
+  /**
+   * Success indicator
+   */
+  statut: boolean;
+
+  /**
+   * Payment token
+   */
+  token?: string;
+
+  /**
+   * Response message
+   */
+  message?: string;
+
+  /**
+   * URL to redirect the customer to complete payment
+   */
+  url?: string;
+}
+
+/**
+ * Money Fusion payment details, shared by status lookups and webhooks
+ */
+export interface MoneyFusionPaymentDetails {
+  /**
+   * Money Fusion internal identifier
+   */
+  _id?: string;
+
+  /**
+   * Payment token
+   */
+  tokenPay: string;
+
+  /**
+   * Customer phone number
+   */
+  numeroSend?: string;
+
+  /**
+   * Customer name
+   */
+  nomclient?: string;
+
+  /**
+   * Additional data passed during payment creation
+   */
+  personal_Info?: Record<string, unknown>[];
+
+  /**
+   * Operator transaction number
+   */
+  numeroTransaction?: string;
+
+  /**
+   * Payment amount
+   */
+  Montant?: number;
+
+  /**
+   * Fees charged by Money Fusion
+   */
+  frais?: number;
+
+  /**
+   * Payment method (orange, mtn, moov, wave...)
+   */
+  moyen?: string;
+
+  return_url?: string;
+  webhook_url?: string;
+
+  /**
+   * Payment creation date
+   */
+  createdAt?: string;
+}
+
+/**
+ * Money Fusion payment status response
+ */
+export interface MoneyFusionStatusResponse {
+  /**
+   * Success indicator of the lookup
+   */
+  statut: boolean;
+
+  /**
+   * Payment details
+   */
+  data?: MoneyFusionPaymentDetails & {
+    /**
+     * Payment status
+     */
+    statut?: string;
+  };
+
+  /**
+   * Response message
+   */
+  message?: string;
+}
+
+/**
+ * Money Fusion webhook notification payload
+ */
+export interface MoneyFusionWebhookPayload extends MoneyFusionPaymentDetails {
+  /**
+   * Type of event
+   */
+  event: string;
+}
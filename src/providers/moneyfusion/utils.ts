@@ -0,0 +1,23 @@
+import { MONEY_FUSION_CURRENCIES } from "./constants";
+
+/**
+ * Validates if a currency is supported by Money Fusion
+ *
+ * @param currency Currency code to validate
+ * @returns True if the currency is supported, false otherwise
+ */
+export function isValidMoneyFusionCurrency(currency: string): boolean {
+  return MONEY_FUSION_CURRENCIES.includes(currency.toUpperCase());
+}
+
+/**
+ * Validates a payment amount for Money Fusion
+ *
+ * Mobile money operators only settle whole CFA franc amounts.
+ *
+ * @param amount Payment amount to validate
+ * @returns True if the amount is valid, false otherwise
+ */
+export function isValidMoneyFusionAmount(amount: number): boolean {
+  return Number.isInteger(amount) && amount > 0;
+}
@@ -0,0 +1,139 @@
+// src/providers/moneyfusion/webhooks.ts
+
+import {
+  TransactionStatus,
+  WebhookValidationResult,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../types";
+import { MoneyFusionStatusResponse, MoneyFusionWebhookPayload } from "./types";
+import {
+  mapFromMoneyFusionWebhook,
+  mapMoneyFusionTransaction,
+} from "./mappers";
+import { MONEY_FUSION_WEBHOOK_EVENT } from "./constants";
+
+/**
+ * Check whether a Money Fusion webhook event is one this package handles
+ *
+ * @param event Event name of the webhook
+ * @returns True if the event reports a payment outcome
+ */
+export function isKnownMoneyFusionEvent(event: unknown): boolean {
+  const knownEvents: string[] = Object.values(MONEY_FUSION_WEBHOOK_EVENT);
+  return knownEvents.includes(event as string);
+}
+
+/**
+ * Validates a webhook notification from Money Fusion
+ *
+ * Money Fusion does not sign its webhooks, so only the payload shape can be
+ * checked here. The outcome is confirmed with a status lookup when the
+ * webhook is processed.
+ *
+ * @param payload The webhook payload from Money Fusion
+ * @returns Validation result indicating if the webhook is valid
+ */
+export function validateMoneyFusionWebhook(
+  payload: Partial<MoneyFusionWebhookPayload> | null | undefined
+): WebhookValidationResult {
+  // Basic payload validation
+  if (!payload) {
+    return { isValid: false, reason: "Empty payload" };
+  }
+
+  // Required fields validation
+  const requiredFields = ["event", "tokenPay"] as const;
+  for (const field of requiredFields) {
+    if (!payload[field]) {
+      return { isValid: false, reason: `Missing required field: ${field}` };
+    }
+  }
+
+  if (!isKnownMoneyFusionEvent(payload.event)) {
+    return { isValid: false, reason: `Unknown event: ${payload.event}` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Get the type of the webhook event reporting a payment status
+ */
+function getPaymentEventType(status: TransactionStatus): WebhookEventType {
+  switch (status) {
+    case TransactionStatus.COMPLETED:
+      return WebhookEventType.PAYMENT_SUCCESS;
+    case TransactionStatus.PENDING:
+      return WebhookEventType.PAYMENT_PENDING;
+    case TransactionStatus.CANCELED:
+      return WebhookEventType.PAYMENT_CANCELED;
+    default:
+      return WebhookEventType.PAYMENT_FAILED;
+  }
+}
+
+/**
+ * Processes a webhook notification from Money Fusion and converts it to a standardized format
+ *
+ * As the notification is not signed, it only names the payment: the event
+ * type, status, amount and transaction number come from the status lookup
+ * made for it. Events of unknown types are mapped without a lookup.
+ *
+ * @param payload The webhook payload from Money Fusion
+ * @param statusResponse Status of the payment looked up on Money Fusion, required for known events
+ * @returns Standardized webhook event
+ * @throws NotFoundError if Money Fusion does not know the payment
+ */
+export function processMoneyFusionWebhook(
+  payload: MoneyFusionWebhookPayload,
+  statusResponse?: MoneyFusionStatusResponse
+): WebhookEvent {
+  const event = mapFromMoneyFusionWebhook(payload);
+
+  if (event.type === WebhookEventType.UNKNOWN || !statusResponse) {
+    return { ...event, type: WebhookEventType.UNKNOWN };
+  }
+
+  const transaction = mapMoneyFusionTransaction(
+    statusResponse,
+    payload.tokenPay
+  );
+
+  return {
+    ...event,
+    type: getPaymentEventType(transaction.status),
+    data: {
+      ...event.data,
+      reference: transaction.reference ?? event.data.reference,
+      amount: transaction.amount,
+      fees: transaction.fees,
+      status: transaction.status,
+      gatewayReference: transaction.gatewayReference,
+      metadata: statusResponse.data?.personal_Info?.length
+        ? transaction.metadata
+        : event.data.metadata,
+    },
+  };
+}
+
+/**
+ * Generates a webhook response for Money Fusion
+ *
+ * @param success Whether the webhook processing was successful
+ * @param message Optional message to include in the response
+ * @returns Response object to send back to Money Fusion
+ */
+export function generateMoneyFusionWebhookResponse(
+  success: boolean,
+  message?: string
+): { statut: boolean; message: string } {
+  return {
+    statut: success,
+    message:
+      message ||
+      (success
+        ? "Webhook processed successfully"
+        : "Failed to process webhook"),
+  };
+}
@@ -2,30 +2,55 @@ import axios, { AxiosInstance } from "axios";
 import {
   PaymentGateway,
   GatewayConfig,
+  GatewayHealth,
   PaymentRequest,
   PaymentResponse,
   TransactionStatus,
+  Transaction,
+  RefundOptions,
   RefundResponse,
   WebhookValidationResult,
   WebhookEvent,
+  WebhookAcknowledgement,
 } from "../../types";
 import {
   PaytechConfig,
+  PaytechIpnVerification,
   PaytechPaymentResponse,
   PaytechStatusResponse,
   PaytechRefundRequest,
   PaytechRefundResponse,
   PaytechWebhookPayload,
 } from "./types";
+import {
+  ConfigurationError,
+  ValidationError,
+  toPaymentError,
+} from "../../core/errors";
+import { withRetry } from "../../core/retry";
+import { checkBodySignature } from "../../core/payload";
+import { CircuitBreaker } from "../../core/circuitBreaker";
+import { Money, assertAmountWithinLimits } from "../../core/money";
 import {
   mapToPaytechRequest,
   mapFromPaytechResponse,
   mapPaytechStatus,
   mapFromPaytechRefundResponse,
+  mapPaytechTransaction,
+  parsePaytechErrorBody,
 } from "./mappers";
 import { isValidPaytechCurrency, isValidPaytechAmount } from "./utils";
-import { validatePaytechWebhook, processPaytechWebhook } from "./webhooks";
-import { PAYTECH_API_BASE_URL, PAYTECH_ENDPOINTS } from "./constants";
+import {
+  validatePaytechWebhook,
+  processPaytechWebhook,
+  generatePaytechWebhookResponse,
+} from "./webhooks";
+import {
+  PAYTECH_API_BASE_URL,
+  PAYTECH_AMOUNT_LIMITS,
+  PAYTECH_CURRENCIES,
+  PAYTECH_ENDPOINTS,
+} from "./constants";
 
 /**
  * Implementation of the PaymentGateway interface for Paytech
@@ -34,6 +59,7 @@ export class PaytechGateway implements PaymentGateway {
   private config: PaytechConfig;
   private initialized: boolean = false;
   private client: AxiosInstance;
+  private breaker: CircuitBreaker;
 
   /**
    * Creates a new instance of PaytechGateway
@@ -45,6 +71,8 @@ export class PaytechGateway implements PaymentGateway {
       environment: "test",
     };
 
+    this.breaker = new CircuitBreaker("paytech");
+
     // Initialize axios instance
     this.client = axios.create({
       baseURL: PAYTECH_API_BASE_URL,
@@ -68,13 +96,22 @@ export class PaytechGateway implements PaymentGateway {
       apiSecret: config.apiSecret,
       environment: config.environment,
       webhookSecret: config.webhookSecret,
+      webhookSignature: config.webhookSignature,
+      retry: config.retry,
+      circuitBreaker: config.circuitBreaker,
+      amountLimits: { ...PAYTECH_AMOUNT_LIMITS, ...config.amountLimits },
       timeout: (config.additionalConfig?.timeout as number) || 10000,
       merchantId: config.additionalConfig?.merchantId as string,
       defaultIpnUrl: config.additionalConfig?.defaultIpnUrl as string,
       defaultSuccessUrl: config.additionalConfig?.defaultSuccessUrl as string,
       defaultCancelUrl: config.additionalConfig?.defaultCancelUrl as string,
+      ipnVerification:
+        (config.additionalConfig?.ipnVerification as PaytechIpnVerification) ||
+        "auto",
     };
 
+    this.breaker = new CircuitBreaker("paytech", this.config.circuitBreaker);
+
     // Update axios instance with new configuration
     this.client.defaults.timeout = this.config.timeout;
 
@@ -88,7 +125,9 @@ export class PaytechGateway implements PaymentGateway {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      throw new Error(`Failed to initialize Paytech gateway: ${errorMessage}`);
+      throw new ConfigurationError(
+        `Failed to initialize Paytech gateway: ${errorMessage}`
+      );
     }
   }
 
@@ -106,6 +145,24 @@ export class PaytechGateway implements PaymentGateway {
     };
   }
 
+  /**
+   * Get the currencies supported by Paytech
+   *
+   * @returns Supported currency codes
+   */
+  getSupportedCurrencies(): string[] {
+    return [...PAYTECH_CURRENCIES];
+  }
+
+  /**
+   * Get the health of Paytech, as seen by the circuit breaker
+   *
+   * @returns Provider health
+   */
+  getHealth(): GatewayHealth {
+    return this.breaker.getHealth();
+  }
+
   /**
    * Create a payment request
    *
@@ -114,20 +171,30 @@ export class PaytechGateway implements PaymentGateway {
    */
   async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
     if (!this.initialized) {
-      throw new Error("Gateway not initialized. Call initialize() first.");
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
     }
 
     // Validate request
     if (!request.reference || !request.description) {
-      throw new Error("Invalid payment request: missing required fields");
+      throw new ValidationError(
+        "Invalid payment request: missing required fields"
+      );
     }
 
-    if (!isValidPaytechAmount(request.amount)) {
-      throw new Error("Invalid amount");
+    if (!isValidPaytechAmount(request.amount, request.currency)) {
+      throw new ValidationError("Invalid amount");
     }
 
+    assertAmountWithinLimits(
+      Money.fromMajor(request.amount, request.currency),
+      this.config.amountLimits || PAYTECH_AMOUNT_LIMITS,
+      "paytech"
+    );
+
     if (!isValidPaytechCurrency(request.currency)) {
-      throw new Error(`Unsupported currency: ${request.currency}`);
+      throw new ValidationError(`Unsupported currency: ${request.currency}`);
     }
 
     try {
@@ -148,40 +215,37 @@ export class PaytechGateway implements PaymentGateway {
         paytechRequest.cancel_url = this.config.defaultCancelUrl;
       }
 
-      // Make API request
-      const response = await this.client.post(
-        PAYTECH_ENDPOINTS.REQUEST_PAYMENT,
-        paytechRequest,
-        { headers: this.getHeaders() }
+      // Without an idempotency key, only retried when Paytech cannot have
+      // processed it
+      const response = await withRetry(
+        () =>
+          this.breaker.execute(() =>
+            this.client.post(
+              PAYTECH_ENDPOINTS.REQUEST_PAYMENT,
+              paytechRequest,
+              {
+                headers: this.getHeaders(),
+              }
+            )
+          ),
+        {
+          provider: "paytech",
+          operation: "createPayment",
+          policy: this.config.retry,
+          idempotent: !!request.idempotencyKey,
+        }
       );
 
       const paytechResponse: PaytechPaymentResponse = response.data;
 
       // Map response to unified format
       return mapFromPaytechResponse(paytechResponse);
-    } catch (err) {
-      const error = err as any;
-      // Handle API errors
-      if ((axios.isAxiosError(error) || error.isAxiosError) && error.response) {
-        // API returned an error response
-        const errorData = error.response.data;
-        return {
-          success: false,
-          message: errorData.error || error.message || "Payment request failed",
-          status: TransactionStatus.FAILED,
-          createdAt: new Date(),
-        };
-      } else {
-        // Network or other error
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-        return {
-          success: false,
-          message: `Payment request failed: ${errorMessage}`,
-          status: TransactionStatus.FAILED,
-          createdAt: new Date(),
-        };
-      }
+    } catch (error) {
+      throw toPaymentError(error, {
+        provider: "paytech",
+        message: "Payment request failed",
+        parseBody: parsePaytechErrorBody,
+      });
     }
   }
 
@@ -192,62 +256,115 @@ export class PaytechGateway implements PaymentGateway {
    * @returns Promise resolving to transaction status
    */
   async verifyPayment(paymentId: string): Promise<TransactionStatus> {
+    const statusResponse = await this.fetchStatus(
+      paymentId,
+      "verifyPayment",
+      "Failed to verify payment"
+    );
+
+    // Map Paytech status to unified status
+    return mapPaytechStatus(statusResponse);
+  }
+
+  /**
+   * Get the full details of a payment
+   *
+   * @param paymentId Payment ID (token) to look up
+   * @returns Promise resolving to the transaction details
+   */
+  async getTransaction(paymentId: string): Promise<Transaction> {
+    const statusResponse = await this.fetchStatus(
+      paymentId,
+      "getTransaction",
+      "Failed to get transaction"
+    );
+
+    return mapPaytechTransaction(statusResponse, paymentId);
+  }
+
+  /**
+   * Fetch the status of a payment from Paytech
+   *
+   * @param paymentId Payment ID (token) to look up
+   * @param operation Gateway operation, reported to the retry hook
+   * @param message Message used when the lookup fails
+   * @returns Promise resolving to the Paytech status response
+   */
+  private async fetchStatus(
+    paymentId: string,
+    operation: string,
+    message: string
+  ): Promise<PaytechStatusResponse> {
     if (!this.initialized) {
-      throw new Error("Gateway not initialized. Call initialize() first.");
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
     }
 
     if (!paymentId) {
-      throw new Error("Payment ID is required");
+      throw new ValidationError("Payment ID is required");
     }
 
     try {
       // Make API request to check payment status
-      const response = await this.client.get(
-        `${PAYTECH_ENDPOINTS.CHECK_STATUS}/${paymentId}`,
-        { headers: this.getHeaders() }
+      const response = await withRetry(
+        () =>
+          this.breaker.execute(() =>
+            this.client.get(`${PAYTECH_ENDPOINTS.CHECK_STATUS}/${paymentId}`, {
+              headers: this.getHeaders(),
+            })
+          ),
+        { provider: "paytech", operation, policy: this.config.retry }
       );
 
-      const statusResponse: PaytechStatusResponse = response.data;
-
-      // Map Paytech status to unified status
-      return mapPaytechStatus(statusResponse);
-    } catch (err) {
-      const error = err as any;
-      // Handle API errors
-      if (
-        (axios.isAxiosError(error) || error.isAxiosError) &&
-        error.response &&
-        error.response.status === 404
-      ) {
-        // Payment not found
-        return TransactionStatus.FAILED;
-      }
-
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      throw new Error(`Failed to verify payment: ${errorMessage}`);
+      return response.data;
+    } catch (error) {
+      throw toPaymentError(error, {
+        provider: "paytech",
+        message,
+        parseBody: parsePaytechErrorBody,
+      });
     }
   }
 
   /**
    * Process a refund for a completed payment
    *
+   * The payment is looked up first when an amount is given, to tell a
+   * partial refund from a full one.
+   *
    * @param paymentId Payment ID (token) to refund
    * @param amount Optional amount to refund (defaults to full payment amount)
+   * @param options Optional refund options, e.g. the reason for the refund
    * @returns Promise resolving to refund response
    */
   async refundPayment(
     paymentId: string,
-    amount?: number
+    amount?: number,
+    options?: RefundOptions
   ): Promise<RefundResponse> {
     if (!this.initialized) {
-      throw new Error("Gateway not initialized. Call initialize() first.");
+      throw new ConfigurationError(
+        "Gateway not initialized. Call initialize() first."
+      );
     }
 
     if (!paymentId) {
-      throw new Error("Payment ID is required");
+      throw new ValidationError("Payment ID is required");
     }
 
+    const payment =
+      amount && amount > 0
+        ? mapPaytechTransaction(
+            await this.fetchStatus(
+              paymentId,
+              "refundPayment",
+              "Failed to look up the payment to refund"
+            ),
+            paymentId
+          )
+        : undefined;
+
     try {
       // Prepare refund request
       const refundRequest: PaytechRefundRequest = {
@@ -259,55 +376,73 @@ export class PaytechGateway implements PaymentGateway {
         refundRequest.amount = amount;
       }
 
-      // Make API request
-      const response = await this.client.post(
-        PAYTECH_ENDPOINTS.REFUND,
-        refundRequest,
-        { headers: this.getHeaders() }
+      if (options?.reason) {
+        refundRequest.reason = options.reason;
+      }
+
+      // Without an idempotency key, only retried when Paytech cannot have
+      // processed it
+      const response = await withRetry(
+        () =>
+          this.breaker.execute(() =>
+            this.client.post(PAYTECH_ENDPOINTS.REFUND, refundRequest, {
+              headers: this.getHeaders(),
+            })
+          ),
+        {
+          provider: "paytech",
+          operation: "refundPayment",
+          policy: this.config.retry,
+          idempotent: !!options?.idempotencyKey,
+        }
       );
 
       const refundResponse: PaytechRefundResponse = response.data;
 
       // Map response to unified format
-      return mapFromPaytechRefundResponse(refundResponse, amount);
-    } catch (err) {
-      const error = err as any;
-      // Handle API errors
-      if ((axios.isAxiosError(error) || error.isAxiosError) && error.response) {
-        // API returned an error response
-        const errorData = error.response.data;
-        return {
-          success: false,
-          message: errorData.error || error.message || "Refund request failed",
-          status: TransactionStatus.FAILED,
-          createdAt: new Date(),
-        };
-      } else {
-        // Network or other error
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-        return {
-          success: false,
-          message: `Refund request failed: ${errorMessage}`,
-          status: TransactionStatus.FAILED,
-          createdAt: new Date(),
-        };
-      }
+      return mapFromPaytechRefundResponse(
+        refundResponse,
+        amount,
+        payment?.amount
+      );
+    } catch (error) {
+      throw toPaymentError(error, {
+        provider: "paytech",
+        message: "Refund request failed",
+        parseBody: parsePaytechErrorBody,
+      });
     }
   }
 
   /**
    * Validate a webhook notification from Paytech
    *
+   * The signature over the raw body is checked first, when one is required.
+   *
    * @param payload Webhook payload
    * @param headers HTTP headers from the webhook request
+   * @param rawBody Body exactly as received
    * @returns Promise resolving to webhook validation result
    */
   async validateWebhook(
-    payload: any,
-    headers: Record<string, string>
+    payload: unknown,
+    headers: Record<string, string> = {},
+    rawBody?: Buffer
   ): Promise<WebhookValidationResult> {
-    return validatePaytechWebhook(payload, headers, this.config.webhookSecret);
+    const signature = checkBodySignature(
+      this.config.webhookSignature,
+      headers,
+      rawBody
+    );
+
+    if (!signature.isValid) {
+      return signature;
+    }
+
+    return validatePaytechWebhook(
+      payload as Partial<PaytechWebhookPayload>,
+      this.config
+    );
   }
 
   /**
@@ -316,11 +451,25 @@ export class PaytechGateway implements PaymentGateway {
    * @param payload Webhook payload
    * @returns Promise resolving to webhook event
    */
-  async processWebhook(payload: any): Promise<WebhookEvent> {
+  async processWebhook(payload: unknown): Promise<WebhookEvent> {
     if (!payload) {
-      throw new Error("Invalid webhook payload");
+      throw new ValidationError("Invalid webhook payload");
     }
 
     return processPaytechWebhook(payload as PaytechWebhookPayload);
   }
+
+  /**
+   * Build the acknowledgement Paytech expects in reply to a webhook
+   *
+   * @param success Whether the webhook was processed successfully
+   * @param message Optional message to include in the acknowledgement
+   * @returns Acknowledgement body
+   */
+  acknowledgeWebhook(
+    success: boolean,
+    message?: string
+  ): WebhookAcknowledgement {
+    return generatePaytechWebhookResponse(success, message);
+  }
 }
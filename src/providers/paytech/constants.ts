@@ -1,3 +1,5 @@
+import { CurrencyAmountLimits } from "../../types";
+
 /**
  * Paytech API base URL
  */
@@ -24,6 +26,15 @@ export const PAYTECH_CURRENCIES = [
   "MAD", // Moroccan Dirham
 ];
 
+/**
+ * Default Paytech amount limits, in major units
+ *
+ * Merchants with other contractual limits override them with amountLimits.
+ */
+export const PAYTECH_AMOUNT_LIMITS: CurrencyAmountLimits = {
+  XOF: { min: 100 },
+};
+
 /**
  * Paytech environment options
  */
@@ -46,6 +57,8 @@ export const PAYTECH_STATUS_MAPPING = {
  * Paytech webhook event types
  */
 export enum PAYTECH_WEBHOOK_EVENT {
+  SALE_COMPLETE = "sale_complete",
+  SALE_CANCELED = "sale_canceled",
   PAYMENT_SUCCESS = "payment_success",
   PAYMENT_FAILED = "payment_failed",
   PAYMENT_CANCELED = "payment_canceled",
@@ -2,6 +2,7 @@ import {
   PaymentRequest,
   PaymentResponse,
   RefundResponse,
+  Transaction,
   TransactionStatus,
   WebhookEvent,
   WebhookEventType,
@@ -14,6 +15,57 @@ import {
   PaytechWebhookPayload,
 } from "./types";
 import { PAYTECH_ENVIRONMENT, PAYTECH_WEBHOOK_EVENT } from "./constants";
+import {
+  AuthenticationError,
+  DuplicateReferenceError,
+  NotFoundError,
+  PaymentError,
+  ValidationError,
+} from "../../core/errors";
+import { Money, parseMajorAmount } from "../../core/money";
+import { decodeEncodedJson } from "../../core/payload";
+
+/**
+ * Extracts the error message from a Paytech error response body
+ *
+ * @param data Paytech response body
+ * @returns Provider message, if any
+ */
+export function parsePaytechErrorBody(data: unknown): { message?: string } {
+  const body = data as { error?: unknown; message?: unknown } | undefined;
+  const message = body?.error || body?.message;
+  return { message: typeof message === "string" ? message : undefined };
+}
+
+/**
+ * Maps a Paytech rejection (success: 0) to the matching typed error
+ *
+ * Paytech only reports rejections with a free text message, so the error
+ * kind is inferred from it.
+ *
+ * @param response Paytech response body
+ * @param fallbackMessage Message used when Paytech does not give one
+ * @returns Typed payment error
+ */
+export function mapPaytechError(
+  response: { error?: string },
+  fallbackMessage: string
+): PaymentError {
+  const message = response.error || fallbackMessage;
+  const details = { provider: "paytech", raw: response };
+
+  if (/already exists|existe d[ée]j[àa]|duplicate/i.test(message)) {
+    return new DuplicateReferenceError(message, details);
+  }
+  if (/api[_ ]?(key|secret)|authenti|unauthori/i.test(message)) {
+    return new AuthenticationError(message, details);
+  }
+  if (/not found|introuvable|inexistant/i.test(message)) {
+    return new NotFoundError(message, details);
+  }
+
+  return new PaymentError(message, details);
+}
 
 /**
  * Maps the unified PaymentRequest to Paytech's specific request format
@@ -28,7 +80,7 @@ export function mapToPaytechRequest(
 ): PaytechPaymentRequest {
   return {
     item_name: request.description,
-    item_price: request.amount.toString(),
+    item_price: Money.fromMajor(request.amount, request.currency).toString(),
     currency: request.currency,
     ref_command: request.reference,
     command_name: request.description,
@@ -42,6 +94,7 @@ export function mapToPaytechRequest(
     custom_field: request.metadata
       ? JSON.stringify(request.metadata)
       : undefined,
+    target_payment: request.paymentMethod,
   };
 }
 
@@ -50,27 +103,23 @@ export function mapToPaytechRequest(
  *
  * @param response Paytech payment response
  * @returns Unified payment response
+ * @throws PaymentError if Paytech rejected the payment request
  */
 export function mapFromPaytechResponse(
   response: PaytechPaymentResponse
 ): PaymentResponse {
-  if (response.success === 1) {
-    return {
-      success: true,
-      redirectUrl: response.redirect_url,
-      token: response.token,
-      paymentId: response.token, // Using token as paymentId
-      status: TransactionStatus.PENDING,
-      createdAt: new Date(),
-    };
-  } else {
-    return {
-      success: false,
-      message: response.error || "Unknown error occurred",
-      status: TransactionStatus.FAILED,
-      createdAt: new Date(),
-    };
+  if (response.success !== 1) {
+    throw mapPaytechError(response, "Unknown error occurred");
   }
+
+  return {
+    success: true,
+    redirectUrl: response.redirect_url,
+    token: response.token,
+    paymentId: response.token, // Using token as paymentId
+    status: TransactionStatus.PENDING,
+    createdAt: new Date(),
+  };
 }
 
 /**
@@ -78,15 +127,26 @@ export function mapFromPaytechResponse(
  *
  * @param statusResponse Paytech status response
  * @returns Unified transaction status
+ * @throws PaymentError if Paytech could not look the payment up
  */
 export function mapPaytechStatus(
   statusResponse: PaytechStatusResponse
 ): TransactionStatus {
   if (!statusResponse.success) {
-    return TransactionStatus.FAILED;
+    throw mapPaytechError(statusResponse, "Payment status lookup failed");
   }
 
-  switch (statusResponse.status?.toLowerCase()) {
+  return mapPaytechStatusValue(statusResponse.status);
+}
+
+/**
+ * Maps a Paytech status value to the unified TransactionStatus
+ *
+ * @param status Status as sent by Paytech
+ * @returns Unified transaction status, failed if the status is not recognized
+ */
+function mapPaytechStatusValue(status?: string): TransactionStatus {
+  switch (status?.toLowerCase()) {
     case "completed":
     case "success":
       return TransactionStatus.COMPLETED;
@@ -103,58 +163,151 @@ export function mapPaytechStatus(
   }
 }
 
+/**
+ * Maps Paytech's status response to the unified Transaction format
+ *
+ * @param statusResponse Paytech status response
+ * @param paymentId Payment ID (token) that was looked up
+ * @returns Unified transaction
+ * @throws PaymentError if Paytech could not look the payment up
+ */
+export function mapPaytechTransaction(
+  statusResponse: PaytechStatusResponse,
+  paymentId: string
+): Transaction {
+  return {
+    paymentId,
+    reference: statusResponse.ref_command,
+    status: mapPaytechStatus(statusResponse),
+    amount: statusResponse.amount
+      ? parseMajorAmount(statusResponse.amount, statusResponse.currency)
+      : undefined,
+    currency: statusResponse.currency,
+    customer: statusResponse.customer_info,
+    gatewayReference: statusResponse.transaction_id,
+    createdAt: statusResponse.date ? new Date(statusResponse.date) : undefined,
+    gatewayName: "paytech",
+    raw: statusResponse,
+  };
+}
+
+/**
+ * Maps the status of a Paytech refund to a transaction status
+ *
+ * Paytech reports "refunded" for partial refunds too, so a requested amount
+ * below the payment amount is partial as well.
+ *
+ * @param status Refund status reported by Paytech, if any
+ * @param requestedAmount The amount requested for refund, if any
+ * @param paymentAmount The amount of the refunded payment, if known
+ * @returns PARTIALLY_REFUNDED or REFUNDED
+ */
+function mapPaytechRefundStatus(
+  status: string | undefined,
+  requestedAmount?: number,
+  paymentAmount?: number
+): TransactionStatus {
+  const partial =
+    ["partial", "partially_refunded"].includes(status?.toLowerCase() ?? "") ||
+    (!!requestedAmount &&
+      paymentAmount !== undefined &&
+      requestedAmount < paymentAmount);
+
+  return partial
+    ? TransactionStatus.PARTIALLY_REFUNDED
+    : TransactionStatus.REFUNDED;
+}
+
 /**
  * Maps Paytech's refund response to the unified RefundResponse format
  *
+ * A refund of a given amount is reported as partial when it is below the
+ * payment amount. Without the payment amount it is reported as refunded,
+ * and the hub settles the status against the payment it recorded.
+ *
  * @param response Paytech refund response
  * @param requestedAmount The amount requested for refund
+ * @param paymentAmount The amount of the refunded payment, if known
  * @returns Unified refund response
+ * @throws PaymentError if Paytech rejected the refund
  */
 export function mapFromPaytechRefundResponse(
   response: PaytechRefundResponse,
-  requestedAmount?: number
+  requestedAmount?: number,
+  paymentAmount?: number
 ): RefundResponse {
-  if (response.success === 1) {
-    return {
-      success: true,
-      refundId: response.refund_id,
-      amount:
-        requestedAmount ||
-        (response.amount ? parseFloat(response.amount) : undefined),
-      status: TransactionStatus.REFUNDED,
-      createdAt: response.date ? new Date(response.date) : new Date(),
-    };
-  } else {
-    return {
-      success: false,
-      message: response.error || "Refund failed",
-      status: TransactionStatus.FAILED,
-      createdAt: new Date(),
-    };
+  if (response.success !== 1) {
+    throw mapPaytechError(response, "Refund failed");
   }
+
+  return {
+    success: true,
+    refundId: response.refund_id,
+    amount:
+      requestedAmount ||
+      (response.amount ? parseMajorAmount(response.amount) : undefined),
+    status: mapPaytechRefundStatus(
+      response.status,
+      requestedAmount,
+      paymentAmount
+    ),
+    createdAt: response.date ? new Date(response.date) : new Date(),
+  };
 }
 
+/**
+ * Transaction statuses consistent with each webhook event type
+ *
+ * The first status is the one assumed when a notification carries none. A
+ * refund is settled as partial against the recorded payment amount by the
+ * hub.
+ */
+const PAYTECH_EVENT_STATUSES: Partial<
+  Record<WebhookEventType, TransactionStatus[]>
+> = {
+  [WebhookEventType.PAYMENT_SUCCESS]: [TransactionStatus.COMPLETED],
+  [WebhookEventType.PAYMENT_FAILED]: [TransactionStatus.FAILED],
+  [WebhookEventType.PAYMENT_CANCELED]: [TransactionStatus.CANCELED],
+  [WebhookEventType.REFUND_SUCCESS]: [
+    TransactionStatus.REFUNDED,
+    TransactionStatus.PARTIALLY_REFUNDED,
+  ],
+  [WebhookEventType.REFUND_FAILED]: [
+    TransactionStatus.FAILED,
+    TransactionStatus.COMPLETED,
+  ],
+};
+
 /**
  * Maps Paytech's webhook notification to the unified WebhookEvent format
  *
+ * Unrecognized events map to WebhookEventType.UNKNOWN rather than to a
+ * payment outcome, so they never trigger fulfilment.
+ *
  * @param payload Paytech webhook payload
  * @returns Unified webhook event
+ * @throws ValidationError if the status of the notification contradicts its event
  */
 export function mapFromPaytechWebhook(
   payload: PaytechWebhookPayload
 ): WebhookEvent {
+  // IPN notifications name the event type_event
+  const event = payload.type_event ?? payload.type;
+
   // Determine event type
   let eventType: WebhookEventType;
 
-  switch (payload.type) {
+  switch (event) {
+    case PAYTECH_WEBHOOK_EVENT.SALE_COMPLETE:
     case PAYTECH_WEBHOOK_EVENT.PAYMENT_SUCCESS:
       eventType = WebhookEventType.PAYMENT_SUCCESS;
       break;
     case PAYTECH_WEBHOOK_EVENT.PAYMENT_FAILED:
       eventType = WebhookEventType.PAYMENT_FAILED;
       break;
+    case PAYTECH_WEBHOOK_EVENT.SALE_CANCELED:
     case PAYTECH_WEBHOOK_EVENT.PAYMENT_CANCELED:
-      eventType = WebhookEventType.PAYMENT_FAILED;
+      eventType = WebhookEventType.PAYMENT_CANCELED;
       break;
     case PAYTECH_WEBHOOK_EVENT.REFUND_SUCCESS:
       eventType = WebhookEventType.REFUND_SUCCESS;
@@ -163,51 +316,48 @@ export function mapFromPaytechWebhook(
       eventType = WebhookEventType.REFUND_FAILED;
       break;
     default:
-      eventType = WebhookEventType.PAYMENT_SUCCESS;
+      eventType = WebhookEventType.UNKNOWN;
   }
 
-  // Determine transaction status
-  let status: TransactionStatus;
+  // Determine transaction status, from the event when no status is sent
+  const expected = PAYTECH_EVENT_STATUSES[eventType];
+  const status = payload.status
+    ? mapPaytechStatusValue(payload.status)
+    : (expected?.[0] ?? TransactionStatus.PENDING);
 
-  switch (payload.status.toLowerCase()) {
-    case "completed":
-    case "success":
-      status = TransactionStatus.COMPLETED;
-      break;
-    case "pending":
-    case "waiting":
-      status = TransactionStatus.PENDING;
-      break;
-    case "canceled":
-    case "cancelled":
-      status = TransactionStatus.CANCELED;
-      break;
-    case "refunded":
-      status = TransactionStatus.REFUNDED;
-      break;
-    default:
-      status = TransactionStatus.FAILED;
+  // Refuse notifications whose status contradicts their event
+  if (expected && !expected.includes(status)) {
+    throw new ValidationError(
+      `Contradictory webhook: ${event} event with status ${payload.status}`,
+      { provider: "paytech" }
+    );
   }
 
-  // Parse metadata if present
+  // Parse metadata if present, custom_field may come back URL or base64 encoded
   let metadata = {};
   if (payload.custom_field) {
-    try {
-      metadata = JSON.parse(payload.custom_field);
-    } catch (e) {
-      console.log(e);
-      // If custom_field is not valid JSON, use it as a string
+    const decoded = decodeEncodedJson(payload.custom_field);
+
+    if (decoded && typeof decoded === "object" && !Array.isArray(decoded)) {
+      metadata = decoded;
+    } else {
+      // If custom_field is not JSON, use it as a string
       metadata = { raw: payload.custom_field };
     }
   }
 
+  const amount =
+    payload.amount ?? payload.final_item_price ?? payload.item_price;
+  const currency = payload.currency ?? payload.devise;
+
   return {
     type: eventType,
     data: {
       reference: payload.ref_command,
       paymentId: payload.token,
-      amount: parseFloat(payload.amount),
-      currency: payload.currency,
+      amount:
+        amount !== undefined ? parseMajorAmount(amount, currency) : undefined,
+      currency,
       status: status,
       gatewayReference: payload.transaction_id,
       metadata: metadata,
@@ -216,6 +366,7 @@ export function mapFromPaytechWebhook(
       customerPhone: payload.customer_info?.phone,
     },
     createdAt: payload.date ? new Date(payload.date) : new Date(),
+    timestampMissing: payload.date ? undefined : true,
     gatewayName: "paytech",
   };
 }
@@ -1,6 +1,16 @@
 import { GatewayConfig } from "../../types";
 import { PAYTECH_ENVIRONMENT } from "./constants";
 
+/**
+ * How Paytech IPN notifications are authenticated
+ *
+ * - hmac: check hmac_compute, the HMAC SHA256 of "amount|ref_command|api_key"
+ * - sha256: check api_key_sha256 and api_secret_sha256 against the credentials
+ * - auto: hmac when the notification carries hmac_compute, sha256 otherwise
+ * - none: skip authentication, for local testing only
+ */
+export type PaytechIpnVerification = "auto" | "hmac" | "sha256" | "none";
+
 /**
  * Paytech specific configuration
  */
@@ -29,6 +39,11 @@ export interface PaytechConfig extends GatewayConfig {
    * Optional default cancel URL (can be overridden per payment)
    */
   defaultCancelUrl?: string;
+
+  /**
+   * IPN authentication mode (default: auto)
+   */
+  ipnVerification?: PaytechIpnVerification;
 }
 
 /**
@@ -84,6 +99,11 @@ export interface PaytechPaymentRequest {
    * Additional data to pass through the payment process (JSON string)
    */
   custom_field?: string;
+
+  /**
+   * Payment method to preselect on the checkout (e.g. "Orange Money")
+   */
+  target_payment?: string;
 }
 
 /**
@@ -222,12 +242,20 @@ export interface PaytechRefundResponse {
 
 /**
  * Paytech webhook notification payload
+ *
+ * IPN notifications name the event type_event and the amount item_price,
+ * older notifications type and amount.
  */
 export interface PaytechWebhookPayload {
   /**
    * Type of event
    */
-  type: string;
+  type?: string;
+
+  /**
+   * Type of event, as sent by IPN notifications
+   */
+  type_event?: string;
 
   /**
    * Payment token
@@ -242,27 +270,67 @@ export interface PaytechWebhookPayload {
   /**
    * Payment amount
    */
-  amount: string;
+  amount?: string;
+
+  /**
+   * Requested payment amount
+   */
+  item_price?: string;
+
+  /**
+   * Amount paid, once promotions are applied
+   */
+  final_item_price?: string;
 
   /**
    * Payment currency
    */
-  currency: string;
+  currency?: string;
+
+  /**
+   * Payment currency, as sent by IPN notifications
+   */
+  devise?: string;
 
   /**
    * Payment status
    */
-  status: string;
+  status?: string;
 
   /**
    * Payment creation date
    */
-  date: string;
+  date?: string;
 
   /**
    * Paytech transaction ID
    */
-  transaction_id: string;
+  transaction_id?: string;
+
+  /**
+   * Payment method used by the customer
+   */
+  payment_method?: string;
+
+  /**
+   * Phone number of the customer
+   */
+  client_phone?: string;
+
+  /**
+   * SHA256 hash of the merchant API key
+   */
+  api_key_sha256?: string;
+
+  /**
+   * SHA256 hash of the merchant API secret
+   */
+  api_secret_sha256?: string;
+
+  /**
+   * HMAC SHA256 of "amount|ref_command|api_key", keyed with the API secret
+   */
+  hmac_compute?: string;
 
   /**
    * Additional data passed during payment creation
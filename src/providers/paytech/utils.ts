@@ -1,5 +1,6 @@
-import { createHmac } from "crypto";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
 import { PAYTECH_CURRENCIES } from "./constants";
+import { hasCurrencyPrecision } from "../../core/money";
 
 /**
  * Validates if a currency is supported by Paytech
@@ -14,54 +15,68 @@ export function isValidPaytechCurrency(currency: string): boolean {
 /**
  * Validates a payment amount for Paytech
  *
+ * The amount must be positive and have no more decimals than its currency,
+ * e.g. whole francs for XOF and cents for EUR.
+ *
  * @param amount Payment amount to validate
+ * @param currency Currency of the payment
  * @returns True if the amount is valid, false otherwise
  */
-export function isValidPaytechAmount(amount: number): boolean {
-  // Paytech might have minimum/maximum amount constraints
-  // This is a placeholder implementation
-  return amount > 0;
+export function isValidPaytechAmount(
+  amount: number,
+  currency: string
+): boolean {
+  return amount > 0 && hasCurrencyPrecision(amount, currency);
 }
 
 /**
- * Creates a signature for webhook validation
+ * Hashes a credential the way Paytech does in its IPN notifications
  *
- * @param payload Webhook payload
- * @param secret Webhook secret
- * @returns Signature string
+ * @param value API key or API secret
+ * @returns Hex encoded SHA256 hash
  */
-export function createWebhookSignature(payload: any, secret: string): string {
-  // This implementation depends on how Paytech handles webhook signatures
-  // This is a common approach, but should be updated based on Paytech's documentation
-
-  // Sort payload keys alphabetically and create a string
-  const payloadString = Object.keys(payload)
-    .sort()
-    .map((key) => `${key}=${payload[key]}`)
-    .join("&");
+export function hashPaytechCredential(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
 
-  // Create HMAC SHA256 signature
-  return createHmac("sha256", secret).update(payloadString).digest("hex");
+/**
+ * Computes the hmac_compute field of a Paytech IPN notification
+ *
+ * Paytech signs "amount|ref_command|api_key" with the API secret.
+ *
+ * @param amount Amount paid, as sent in the notification
+ * @param refCommand Merchant payment reference
+ * @param apiKey Merchant API key
+ * @param apiSecret Merchant API secret
+ * @returns Hex encoded HMAC SHA256
+ */
+export function computePaytechHmac(
+  amount: string,
+  refCommand: string,
+  apiKey: string,
+  apiSecret: string
+): string {
+  return createHmac("sha256", apiSecret)
+    .update(`${amount}|${refCommand}|${apiKey}`)
+    .digest("hex");
 }
 
 /**
- * Verifies a webhook signature from Paytech
+ * Compares a received hex digest with the expected one in constant time
  *
- * @param payload Webhook payload
- * @param signature Signature to verify
- * @param secret Secret key for verification
- * @returns True if signature is valid, false otherwise
+ * @param expected Expected digest
+ * @param received Received digest
+ * @returns True if both digests are equal, false otherwise
  */
-export function verifyWebhookSignature(
-  payload: any,
-  signature: string,
-  secret: string
-): boolean {
-  // Generate the expected signature
-  const expectedSignature = createWebhookSignature(payload, secret);
+export function safeCompare(expected: string, received: string): boolean {
+  const expectedBuffer = Buffer.from(expected.toLowerCase());
+  const receivedBuffer = Buffer.from(received.toLowerCase());
 
-  // Compare with the provided signature (constant-time comparison to prevent timing attacks)
-  return expectedSignature === signature;
+  // Constant-time comparison to prevent timing attacks
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
 }
 
 /**
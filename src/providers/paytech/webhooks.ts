@@ -1,22 +1,29 @@
 // src/providers/paytech/webhooks.ts
 
 import { WebhookValidationResult, WebhookEvent } from "../../types";
-import { PaytechWebhookPayload } from "./types";
+import { PaytechConfig, PaytechWebhookPayload } from "./types";
 import { mapFromPaytechWebhook } from "./mappers";
-import { verifyWebhookSignature } from "./utils";
+import {
+  computePaytechHmac,
+  hashPaytechCredential,
+  safeCompare,
+} from "./utils";
 
 /**
  * Validates a webhook notification from Paytech
  *
+ * Paytech authenticates its IPN notifications either with hmac_compute,
+ * an HMAC SHA256 of "amount|ref_command|api_key" keyed with the API secret,
+ * or with api_key_sha256 and api_secret_sha256, the SHA256 hashes of the
+ * merchant credentials. Digests are compared in constant time.
+ *
  * @param payload The webhook payload from Paytech
- * @param headers The HTTP headers from the webhook request
- * @param webhookSecret The secret used to validate the webhook
+ * @param config Paytech credentials and IPN authentication mode
  * @returns Validation result indicating if the webhook is valid
  */
 export function validatePaytechWebhook(
-  payload: any,
-  headers: Record<string, string>,
-  webhookSecret?: string
+  payload: Partial<PaytechWebhookPayload> | null | undefined,
+  config: Pick<PaytechConfig, "apiKey" | "apiSecret" | "ipnVerification">
 ): WebhookValidationResult {
   // Basic payload validation
   if (!payload) {
@@ -24,30 +31,58 @@ export function validatePaytechWebhook(
   }
 
   // Required fields validation
-  const requiredFields = ["token", "ref_command", "type", "status"];
-  for (const field of requiredFields) {
+  for (const field of ["token", "ref_command"] as const) {
     if (!payload[field]) {
       return { isValid: false, reason: `Missing required field: ${field}` };
     }
   }
 
-  // If webhook secret is provided, validate signature
-  if (webhookSecret) {
-    // Get signature from headers
-    const signature =
-      headers["x-paytech-signature"] || headers["X-Paytech-Signature"];
+  if (!payload.type_event && !payload.type) {
+    return { isValid: false, reason: "Missing required field: type_event" };
+  }
 
-    if (!signature) {
-      return { isValid: false, reason: "Missing signature header" };
-    }
+  const mode = config.ipnVerification || "auto";
+
+  if (mode === "none") {
+    return { isValid: true };
+  }
+
+  if (mode === "hmac" || (mode === "auto" && payload.hmac_compute)) {
+    const amount = payload.final_item_price || payload.item_price;
 
-    // Verify signature
-    if (!verifyWebhookSignature(payload, signature, webhookSecret)) {
-      return { isValid: false, reason: "Invalid signature" };
+    if (!payload.hmac_compute || !amount) {
+      return { isValid: false, reason: "Missing IPN verification fields" };
     }
+
+    const expected = computePaytechHmac(
+      String(amount),
+      String(payload.ref_command),
+      config.apiKey,
+      config.apiSecret
+    );
+
+    return safeCompare(expected, String(payload.hmac_compute))
+      ? { isValid: true }
+      : { isValid: false, reason: "Invalid signature" };
   }
 
-  return { isValid: true };
+  if (!payload.api_key_sha256 || !payload.api_secret_sha256) {
+    return { isValid: false, reason: "Missing IPN verification fields" };
+  }
+
+  // Check both hashes, so the comparison time does not reveal which one failed
+  const keyMatches = safeCompare(
+    hashPaytechCredential(config.apiKey),
+    String(payload.api_key_sha256)
+  );
+  const secretMatches = safeCompare(
+    hashPaytechCredential(config.apiSecret),
+    String(payload.api_secret_sha256)
+  );
+
+  return keyMatches && secretMatches
+    ? { isValid: true }
+    : { isValid: false, reason: "Invalid signature" };
 }
 
 /**
@@ -72,7 +107,7 @@ export function processPaytechWebhook(
 export function generatePaytechWebhookResponse(
   success: boolean,
   message?: string
-): any {
+): { status: string; message: string } {
   return {
     status: success ? "success" : "error",
     message:
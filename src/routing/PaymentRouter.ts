@@ -0,0 +1,248 @@
+import type { MultiPaymentGateway } from "../index";
+import { ConfigurationError, PaymentError } from "../core/errors";
+import {
+  PaymentRequest,
+  PaymentResponse,
+  RoutingDecision,
+  RoutingRule,
+  SkippedProvider,
+} from "../types";
+
+/**
+ * Payment router configuration
+ */
+export interface PaymentRouterOptions {
+  /**
+   * Rules checked in order, the first matching rule is used
+   */
+  routes: RoutingRule[];
+
+  /**
+   * Gateway instance aliases used when no rule matches
+   */
+  defaultProviders?: string[];
+}
+
+/**
+ * Check whether a value matches a single value or any value of a list
+ *
+ * @param expected Single value or list of accepted values
+ * @param actual Value to check
+ * @returns True if the value is accepted (case insensitive)
+ */
+function matchesAny(expected: string | string[], actual: unknown): boolean {
+  if (typeof actual !== "string") {
+    return false;
+  }
+
+  const accepted = Array.isArray(expected) ? expected : [expected];
+  return accepted.some((value) => value.toUpperCase() === actual.toUpperCase());
+}
+
+/**
+ * Get the criteria of a rule matched by a request
+ *
+ * @param rule Routing rule
+ * @param request Payment request details
+ * @returns Matched criteria, or null if the rule does not match
+ */
+function matchRule(
+  rule: RoutingRule,
+  request: PaymentRequest
+): string[] | null {
+  const criteria: string[] = [];
+
+  if (rule.currency !== undefined) {
+    if (!matchesAny(rule.currency, request.currency)) return null;
+    criteria.push(`currency ${request.currency}`);
+  }
+
+  if (rule.country !== undefined) {
+    if (!matchesAny(rule.country, request.metadata?.country)) return null;
+    criteria.push(`country ${request.metadata?.country}`);
+  }
+
+  if (rule.paymentMethod !== undefined) {
+    if (!matchesAny(rule.paymentMethod, request.paymentMethod)) return null;
+    criteria.push(`payment method ${request.paymentMethod}`);
+  }
+
+  if (rule.minAmount !== undefined) {
+    if (request.amount < rule.minAmount) return null;
+    criteria.push(`amount >= ${rule.minAmount}`);
+  }
+
+  if (rule.maxAmount !== undefined) {
+    if (request.amount >= rule.maxAmount) return null;
+    criteria.push(`amount < ${rule.maxAmount}`);
+  }
+
+  if (rule.match) {
+    if (!rule.match(request)) return null;
+    criteria.push("custom predicate");
+  }
+
+  return criteria;
+}
+
+/**
+ * Routes payments across the gateway instances of a hub
+ *
+ * The first rule matching a request selects an ordered list of providers.
+ * Providers that are not configured on the hub, do not support the
+ * currency or have an open circuit breaker are left out, and the payment fails over to the next provider
+ * when a provider fails with a retryable PaymentError.
+ */
+export class PaymentRouter {
+  /**
+   * Creates a new payment router
+   *
+   * @param hub Hub holding the gateway instances referenced by the rules
+   * @param options Router configuration
+   */
+  constructor(
+    private readonly hub: MultiPaymentGateway,
+    private readonly options: PaymentRouterOptions
+  ) {}
+
+  /**
+   * Decide which providers should serve a payment request
+   *
+   * @param request Payment request details
+   * @returns Routing decision, with an explanation for auditing
+   */
+  route(request: PaymentRequest): RoutingDecision {
+    let rule: string | null = null;
+    let matchedCriteria: string[] = [];
+    let candidates = this.options.defaultProviders || [];
+
+    for (const [index, candidate] of this.options.routes.entries()) {
+      const criteria = matchRule(candidate, request);
+
+      if (criteria) {
+        rule = candidate.name || `rule #${index + 1}`;
+        matchedCriteria = criteria;
+        candidates = candidate.providers;
+        break;
+      }
+    }
+
+    const providers: string[] = [];
+    const skipped: SkippedProvider[] = [];
+
+    for (const provider of candidates) {
+      const reason = this.getIneligibilityReason(provider, request);
+
+      if (reason) {
+        skipped.push({ provider, reason });
+      } else {
+        providers.push(provider);
+      }
+    }
+
+    return {
+      rule,
+      matchedCriteria,
+      providers,
+      skipped,
+      explanation: this.explain(rule, matchedCriteria, providers, skipped),
+    };
+  }
+
+  /**
+   * Create a payment on the first provider able to serve it
+   *
+   * Providers are tried in the order of the routing decision. An error is
+   * thrown as is unless it is retryable, in which case the next provider is
+   * tried.
+   *
+   * @param request Payment request details
+   * @returns Promise resolving to the payment response, tagged with the serving provider and routing decision
+   * @throws ConfigurationError if no provider is eligible for the request
+   * @throws PaymentError from the last provider tried if every provider failed
+   */
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    const routing = this.route(request);
+
+    if (routing.providers.length === 0) {
+      throw new ConfigurationError(
+        `No payment provider available: ${routing.explanation}`
+      );
+    }
+
+    let lastError: unknown;
+
+    for (const provider of routing.providers) {
+      try {
+        const response = await this.hub.use(provider).createPayment(request);
+        return { ...response, routing };
+      } catch (error) {
+        if (!(error instanceof PaymentError) || !error.retryable) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    // Every provider failed with a retryable error, report the last one
+    throw lastError;
+  }
+
+  /**
+   * Check whether a provider can serve a payment request
+   *
+   * @param provider Gateway instance alias
+   * @param request Payment request details
+   * @returns The reason the provider cannot serve the request, or null if it can
+   */
+  private getIneligibilityReason(
+    provider: string,
+    request: PaymentRequest
+  ): string | null {
+    if (!this.hub.hasGateway(provider)) {
+      return "gateway not configured";
+    }
+
+    const gateway = this.hub.use(provider);
+
+    const currencies = gateway.getSupportedCurrencies();
+    if (currencies && !matchesAny(currencies, request.currency)) {
+      return `currency ${request.currency} not supported`;
+    }
+
+    if (gateway.getHealth()?.available === false) {
+      return "circuit breaker open";
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the human readable explanation of a routing decision
+   */
+  private explain(
+    rule: string | null,
+    matchedCriteria: string[],
+    providers: string[],
+    skipped: SkippedProvider[]
+  ): string {
+    const parts = [
+      rule
+        ? `Rule "${rule}" matched${
+            matchedCriteria.length > 0 ? ` (${matchedCriteria.join(", ")})` : ""
+          }`
+        : "No rule matched, using default providers",
+      `candidates: ${providers.length > 0 ? providers.join(", ") : "none"}`,
+    ];
+
+    if (skipped.length > 0) {
+      parts.push(
+        `skipped: ${skipped
+          .map(({ provider, reason }) => `${provider} (${reason})`)
+          .join(", ")}`
+      );
+    }
+
+    return parts.join("; ");
+  }
+}
@@ -0,0 +1,143 @@
+import { SubscriptionStatus } from "./subscription";
+import { WebhookEvent, WebhookEventType } from "./webhook";
+
+/**
+ * Data shared by every webhook event
+ */
+export type WebhookEventData = WebhookEvent["data"];
+
+/**
+ * Data of payment events
+ */
+export interface PaymentEventData extends WebhookEventData {
+  paymentId: string;
+  paymentMethod?: string;
+  fees?: number;
+  customerEmail?: string;
+  customerName?: string;
+  customerPhone?: string;
+}
+
+/**
+ * Data of refund events
+ */
+export interface RefundEventData extends WebhookEventData {
+  refundId?: string;
+}
+
+/**
+ * Data of subscription events
+ */
+export interface SubscriptionEventData extends WebhookEventData {
+  subscriptionId: string;
+  subscriptionStatus?: SubscriptionStatus;
+}
+
+/**
+ * Event data of each webhook event type
+ */
+export interface WebhookEventDataMap {
+  [WebhookEventType.PAYMENT_SUCCESS]: PaymentEventData;
+  [WebhookEventType.PAYMENT_FAILED]: PaymentEventData;
+  [WebhookEventType.PAYMENT_PENDING]: PaymentEventData;
+  [WebhookEventType.PAYMENT_CANCELED]: PaymentEventData;
+  [WebhookEventType.REFUND_SUCCESS]: RefundEventData;
+  [WebhookEventType.REFUND_FAILED]: RefundEventData;
+  [WebhookEventType.SUBSCRIPTION_CREATED]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_CANCELED]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_PAYMENT]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_FAILED]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_UPDATED]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_PAUSED]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_RESUMED]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_PAST_DUE]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_EXPIRED]: SubscriptionEventData;
+  [WebhookEventType.UNKNOWN]: WebhookEventData;
+}
+
+/**
+ * Webhook event of a given type, with its data narrowed
+ */
+export type WebhookEventOf<T extends WebhookEventType> = Omit<
+  WebhookEvent,
+  "type" | "data"
+> & {
+  type: T;
+  data: WebhookEventDataMap[T];
+};
+
+/**
+ * Listener of a webhook event type
+ *
+ * Returned promises are awaited, other return values are ignored.
+ */
+export type WebhookEventHandler<T extends WebhookEventType> = (
+  event: WebhookEventOf<T>
+) => unknown;
+
+/**
+ * Listener of every webhook event
+ *
+ * Returned promises are awaited, other return values are ignored.
+ */
+export type WildcardEventHandler = (event: WebhookEvent) => unknown;
+
+/**
+ * Filters restricting the events a listener receives
+ */
+export interface WebhookListenerOptions {
+  /**
+   * Only receive events of these providers, e.g. "paytech"
+   */
+  provider?: string | string[];
+
+  /**
+   * Only receive events of these gateway instances, e.g. "paytech-sn"
+   */
+  alias?: string | string[];
+}
+
+/**
+ * Failure of a webhook event listener
+ */
+export interface EventHandlerError {
+  /**
+   * Event the listener failed on
+   */
+  event: WebhookEvent;
+
+  /**
+   * Alias of the gateway instance the event came from, if known
+   */
+  alias: string | null;
+
+  /**
+   * Error thrown by the listener
+   */
+  error: unknown;
+}
+
+/**
+ * Outcome of dispatching an event to its listeners
+ */
+export interface EventDispatchResult {
+  /**
+   * Number of listeners that received the event
+   */
+  listeners: number;
+
+  /**
+   * Failures of the listeners, each reported on its own
+   */
+  errors: EventHandlerError[];
+}
+
+/**
+ * Outcome of dispatching a webhook event, with replay protection
+ */
+export interface WebhookDispatchResult extends EventDispatchResult {
+  /**
+   * The delivery was already processed, so no listener received it
+   */
+  duplicate: boolean;
+}
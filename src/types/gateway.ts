@@ -1,17 +1,56 @@
 import {
   PaymentRequest,
   PaymentResponse,
+  RefundOptions,
   RefundResponse,
   TransactionStatus,
 } from "./payment";
+import { CircuitBreakerOptions, GatewayHealth } from "./health";
+import { CurrencyAmountLimits } from "./money";
+import { RetryPolicy } from "./retry";
+import { Transaction } from "./transaction";
 import { SubscriptionRequest, SubscriptionResponse } from "./subscription";
-import { WebhookEvent, WebhookValidationResult } from "./webhook";
+import {
+  WebhookAcknowledgement,
+  WebhookEvent,
+  WebhookSignatureOptions,
+  WebhookValidationResult,
+} from "./webhook";
+
+/**
+ * Built-in payment gateway providers
+ *
+ * Additional providers can be plugged in with registerProvider.
+ */
+export enum PaymentProvider {
+  PAYTECH = "paytech",
+  CINETPAY = "cinetpay",
+  MONEY_FUSION = "moneyfusion",
+}
 
 export interface GatewayConfig {
   apiKey: string;
   apiSecret: string;
   environment: "test" | "production";
   webhookSecret?: string;
+  /**
+   * Signature over the raw body required on every webhook, e.g. added by a
+   * relay forwarding the provider notifications. Webhooks must then be
+   * given as raw bodies.
+   */
+  webhookSignature?: WebhookSignatureOptions;
+  /**
+   * Retry policy for provider HTTP calls, or false to disable retries
+   */
+  retry?: RetryPolicy | false;
+  /**
+   * Circuit breaker for provider HTTP calls, or false to disable it
+   */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /**
+   * Per-currency amount limits, overriding the provider defaults
+   */
+  amountLimits?: CurrencyAmountLimits;
   additionalConfig?: Record<string, unknown>;
 }
 
@@ -21,6 +60,16 @@ export interface PaymentGateway {
    */
   initialize(config: GatewayConfig): Promise<boolean>;
 
+  /**
+   * Get the currencies supported by the provider
+   */
+  getSupportedCurrencies?(): string[];
+
+  /**
+   * Get the health of the provider, as seen by its circuit breaker
+   */
+  getHealth?(): GatewayHealth;
+
   /**
    * Create a payment request and return checkout information
    */
@@ -31,17 +80,30 @@ export interface PaymentGateway {
    */
   verifyPayment(paymentId: string): Promise<TransactionStatus>;
 
+  /**
+   * Get the full details of a payment
+   */
+  getTransaction?(paymentId: string): Promise<Transaction>;
+
   /**
    * Process a refund for a completed payment
    */
-  refundPayment(paymentId: string, amount?: number): Promise<RefundResponse>;
+  refundPayment(
+    paymentId: string,
+    amount?: number,
+    options?: RefundOptions
+  ): Promise<RefundResponse>;
 
   /**
    * Validate a webhook notification from the payment provider
+   *
+   * The received bytes are passed along when the webhook was given as a raw
+   * body, so signatures computed over the body can be verified.
    */
   validateWebhook(
     payload: unknown,
-    headers: Record<string, string>
+    headers: Record<string, string>,
+    rawBody?: Buffer
   ): Promise<WebhookValidationResult>;
 
   /**
@@ -49,6 +111,14 @@ export interface PaymentGateway {
    */
   processWebhook(payload: unknown): Promise<WebhookEvent>;
 
+  /**
+   * Build the acknowledgement the provider expects in reply to a webhook
+   */
+  acknowledgeWebhook?(
+    success: boolean,
+    message?: string
+  ): WebhookAcknowledgement;
+
   /**
    * Create a subscription for recurring payments
    */
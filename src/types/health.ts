@@ -0,0 +1,80 @@
+/**
+ * State of a provider circuit breaker
+ *
+ * - closed: calls go through
+ * - open: calls fail fast until the cool-down window is over
+ * - half_open: a single trial call decides whether to close or reopen
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Circuit breaker settings of a gateway
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures opening the circuit (default: 5)
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time the circuit stays open before a trial call, in milliseconds (default: 30000)
+   */
+  cooldownMs?: number;
+
+  /**
+   * Decide whether an error counts as a provider failure
+   *
+   * Defaults to network errors and HTTP 408, 429 and 5xx responses, so
+   * rejected requests do not open the circuit.
+   */
+  isFailure?: (error: unknown) => boolean;
+
+  /**
+   * Called whenever the circuit changes state
+   */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * Transition of a circuit breaker
+ */
+export interface CircuitStateChange {
+  provider: string;
+  from: CircuitState;
+  to: CircuitState;
+}
+
+/**
+ * Health of a gateway instance, for health checks and routing
+ */
+export interface GatewayHealth {
+  /**
+   * Name of the provider
+   */
+  provider: string;
+
+  /**
+   * Circuit breaker state
+   */
+  state: CircuitState;
+
+  /**
+   * Whether calls currently go through to the provider
+   */
+  available: boolean;
+
+  /**
+   * Consecutive failures recorded since the last success
+   */
+  failures: number;
+
+  /**
+   * When the circuit last opened
+   */
+  openedAt?: Date;
+
+  /**
+   * When the next trial call is allowed, while the circuit is open
+   */
+  retryAt?: Date;
+}
@@ -0,0 +1,71 @@
+/**
+ * Outcome of an operation, stored under its idempotency key
+ */
+export interface IdempotencyRecord<T = unknown> {
+  /**
+   * in_progress while the provider call runs, completed once it succeeded,
+   * unknown if it failed in a way that may still have reached the provider
+   */
+  status: "in_progress" | "completed" | "unknown";
+
+  /**
+   * Summary of the request, used to detect a key reused for another request
+   */
+  fingerprint: string;
+
+  /**
+   * Response of the operation, once completed
+   */
+  response?: T;
+
+  createdAt: Date;
+}
+
+/**
+ * Storage backing the idempotency layer
+ *
+ * Implement it on top of Redis or a SQL table to share idempotency records
+ * between processes. Records may be dropped once their time to live expires.
+ */
+export interface IdempotencyStore {
+  /**
+   * Get the record stored under a key
+   */
+  get(key: string): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Store a record only if the key is free, atomically
+   *
+   * @returns True if the record was stored, false if the key is taken
+   */
+  setIfAbsent(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<boolean>;
+
+  /**
+   * Store a record, replacing the current one
+   */
+  set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+
+  /**
+   * Remove the record stored under a key
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Idempotency settings of a hub
+ */
+export interface IdempotencyOptions {
+  /**
+   * Record storage (default: in-memory store)
+   */
+  store?: IdempotencyStore;
+
+  /**
+   * Time records are kept, in milliseconds (default: 24 hours)
+   */
+  ttlMs?: number;
+}
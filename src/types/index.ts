@@ -1,4 +1,15 @@
+export * from "./events";
 export * from "./gateway";
+export * from "./health";
+export * from "./idempotency";
+export * from "./money";
 export * from "./payment";
+export * from "./persistence";
+export * from "./polling";
+export * from "./reconciliation";
+export * from "./replay";
+export * from "./retry";
+export * from "./routing";
 export * from "./subscription";
+export * from "./transaction";
 export * from "./webhook";
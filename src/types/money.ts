@@ -0,0 +1,22 @@
+/**
+ * Amount limits applied to payments in one currency
+ *
+ * Limits are expressed in major units, e.g. 100 for 100 XOF or 1.5 for
+ * 1.50 EUR, like PaymentRequest.amount.
+ */
+export interface AmountLimits {
+  /**
+   * Smallest accepted amount (inclusive)
+   */
+  min?: number;
+
+  /**
+   * Largest accepted amount (inclusive)
+   */
+  max?: number;
+}
+
+/**
+ * Amount limits keyed by ISO 4217 currency code
+ */
+export type CurrencyAmountLimits = Record<string, AmountLimits>;
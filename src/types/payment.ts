@@ -1,3 +1,5 @@
+import type { RoutingDecision } from "./routing";
+
 export type Currency = "XOF" | "EUR" | "USD" | "CAD" | "GBP" | "MAD" | string;
 
 export interface PaymentRequest {
@@ -8,10 +10,20 @@ export interface PaymentRequest {
   customerEmail?: string;
   customerName?: string;
   customerPhone?: string;
+  /**
+   * Preferred payment method, e.g. "Orange Money", "Wave" or "Carte Bancaire"
+   */
+  paymentMethod?: string;
   metadata?: Record<string, unknown>;
   returnUrl?: string;
   cancelUrl?: string;
   webhookUrl?: string;
+  /**
+   * Key identifying this request across retries
+   *
+   * Setting it allows the provider call to be retried on transient failures.
+   */
+  idempotencyKey?: string;
 }
 
 export interface PaymentResponse {
@@ -23,6 +35,14 @@ export interface PaymentResponse {
   status?: TransactionStatus;
   gatewayReference?: string;
   createdAt?: Date;
+  /**
+   * Alias of the gateway instance that served the payment
+   */
+  provider?: string;
+  /**
+   * Routing decision that selected the provider, when sent through a PaymentRouter
+   */
+  routing?: RoutingDecision;
 }
 
 export enum TransactionStatus {
@@ -34,11 +54,37 @@ export enum TransactionStatus {
   PARTIALLY_REFUNDED = "partially_refunded",
 }
 
+export interface RefundOptions {
+  /**
+   * Key identifying this refund across retries
+   *
+   * Setting it allows the provider call to be retried on transient failures.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Reason for the refund, sent to providers that accept one
+   */
+  reason?: string;
+}
+
 export interface RefundResponse {
   success: boolean;
   refundId?: string;
   amount?: number;
   message?: string;
+  /**
+   * REFUNDED once the refunds add up to the payment, PARTIALLY_REFUNDED before
+   */
   status?: TransactionStatus;
   createdAt?: Date;
+  /**
+   * Total refunded for the payment, this refund included, when the hub knows
+   * the payment amount
+   */
+  refundedAmount?: number;
+  /**
+   * Amount of the payment left to refund, when the hub knows the payment amount
+   */
+  refundableAmount?: number;
 }
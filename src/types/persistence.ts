@@ -0,0 +1,197 @@
+import { Currency, TransactionStatus } from "./payment";
+import { WebhookEvent } from "./webhook";
+
+/**
+ * Operation that reported the status of a payment
+ */
+export type PaymentStatusSource =
+  | "create"
+  | "verify"
+  | "transaction"
+  | "refund"
+  | "webhook"
+  | "reconciliation";
+
+/**
+ * Status a payment moved to, or was reported to move to
+ */
+export interface PaymentStatusChange {
+  /**
+   * Status before the change, or undefined for the first known status
+   */
+  from?: TransactionStatus;
+
+  status: TransactionStatus;
+  source: PaymentStatusSource;
+  at: Date;
+
+  /**
+   * The state machine does not allow the change, so the payment kept its status
+   */
+  invalid?: boolean;
+}
+
+/**
+ * Refund issued through the hub
+ */
+export interface RefundRecord {
+  refundId?: string;
+
+  /**
+   * Amount refunded, or undefined for the full payment
+   */
+  amount?: number;
+
+  reason?: string;
+  status: TransactionStatus;
+  createdAt: Date;
+}
+
+/**
+ * Payment tracked by the hub, from its creation to its last known status
+ */
+export interface PaymentRecord {
+  /**
+   * ID of the record in the store
+   */
+  id: string;
+
+  /**
+   * Alias of the gateway instance that served the payment
+   */
+  alias: string;
+
+  /**
+   * Name of the provider
+   */
+  provider: string;
+
+  /**
+   * Merchant reference of the payment
+   */
+  reference?: string;
+
+  /**
+   * ID of the payment, as returned by createPayment, e.g. the Paytech token
+   */
+  paymentId?: string;
+
+  /**
+   * Identifier of the transaction on the provider or operator side
+   */
+  gatewayReference?: string;
+
+  amount?: number;
+  currency?: Currency;
+  description?: string;
+  customerEmail?: string;
+  metadata?: Record<string, unknown>;
+  redirectUrl?: string;
+
+  /**
+   * Last known status
+   */
+  status: TransactionStatus;
+
+  /**
+   * Every status the payment moved to or was reported to move to, oldest first
+   */
+  history: PaymentStatusChange[];
+
+  refunds: RefundRecord[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook event received for a payment
+ */
+export interface WebhookEventRecord {
+  /**
+   * ID of the delivery, the same for every delivery of a webhook
+   */
+  id: string;
+
+  /**
+   * Alias of the gateway instance that processed the webhook
+   */
+  alias: string;
+
+  /**
+   * ID of the record of the payment the event is about, if known
+   */
+  paymentRecordId?: string;
+
+  event: WebhookEvent;
+  receivedAt: Date;
+}
+
+/**
+ * Fields a payment is looked up by
+ *
+ * A payment matches when every given field is equal. At least one of
+ * reference, paymentId and gatewayReference is required.
+ */
+export interface PaymentLookup {
+  /**
+   * Alias of the gateway instance, to tell apart payments of several instances
+   */
+  alias?: string;
+
+  reference?: string;
+  paymentId?: string;
+  gatewayReference?: string;
+}
+
+/**
+ * Storage of the payments, refunds and webhook events seen by a hub
+ *
+ * Implement it on top of a SQL table or a document store to keep the
+ * history of payments across restarts and share it between processes.
+ */
+export interface PaymentStore {
+  /**
+   * Find a payment
+   *
+   * @returns The most recently updated payment matching the lookup, or null if none does
+   */
+  findPayment(lookup: PaymentLookup): Promise<PaymentRecord | null>;
+
+  /**
+   * Store a payment, replacing the record with the same ID
+   */
+  savePayment(payment: PaymentRecord): Promise<void>;
+
+  /**
+   * Store a webhook event, replacing the record with the same ID
+   */
+  saveWebhookEvent(record: WebhookEventRecord): Promise<void>;
+
+  /**
+   * List the webhook events of a payment, oldest first
+   */
+  listWebhookEvents(paymentRecordId: string): Promise<WebhookEventRecord[]>;
+
+  /**
+   * List the payments still pending that were created before a date,
+   * oldest first
+   */
+  listPending(createdBefore: Date): Promise<PaymentRecord[]>;
+}
+
+/**
+ * Payment persistence settings of a hub
+ */
+export interface PersistenceOptions {
+  /**
+   * Payment storage (default: in-memory store)
+   */
+  store?: PaymentStore;
+
+  /**
+   * What to do with a status the payment cannot move to: flag it in the
+   * history and keep the current status, or reject the operation with an
+   * InvalidTransitionError (default: flag)
+   */
+  invalidTransitions?: "flag" | "reject";
+}
@@ -0,0 +1,99 @@
+import { TransactionStatus } from "./payment";
+
+/**
+ * Outcome of a status check made while waiting for a payment
+ */
+export interface PaymentPollProgress {
+  paymentId: string;
+
+  /**
+   * Number of status checks made so far, this one included
+   */
+  attempt: number;
+
+  /**
+   * Last known status of the payment
+   */
+  status: TransactionStatus;
+
+  /**
+   * Transient error of this check, if it failed
+   */
+  error?: unknown;
+
+  /**
+   * Time since waiting started, in milliseconds
+   */
+  elapsedMs: number;
+
+  /**
+   * Delay before the next check in milliseconds, or undefined if waiting is over
+   */
+  nextDelayMs?: number;
+}
+
+/**
+ * Settings of a wait for a payment to settle
+ */
+export interface WaitForPaymentOptions {
+  /**
+   * Time to wait before giving up, in milliseconds (default: 10 minutes)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Delay between the first two status checks, in milliseconds (default: 5000)
+   */
+  intervalMs?: number;
+
+  /**
+   * Factor applied to the delay after every check (default: 1.5)
+   */
+  backoff?: number;
+
+  /**
+   * Maximum delay between two status checks, in milliseconds (default: 60000)
+   */
+  maxIntervalMs?: number;
+
+  /**
+   * Signal aborting the wait, which then rejects with the abort reason
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called after every status check
+   */
+  onProgress?: (progress: PaymentPollProgress) => void;
+}
+
+/**
+ * Outcome of a wait for a payment to settle
+ */
+export interface PaymentWaitResult {
+  paymentId: string;
+
+  /**
+   * Status the payment settled in, or its last known status on timeout
+   *
+   * A failed payment may still complete if the customer tries again.
+   */
+  status: TransactionStatus;
+
+  /**
+   * The payment was still pending when the timeout expired
+   */
+  timedOut: boolean;
+
+  /**
+   * What reported the status: a status check, or a webhook received meanwhile
+   */
+  source: "poll" | "webhook";
+
+  /**
+   * Number of status checks made
+   */
+  attempts: number;
+
+  elapsedMs: number;
+}
@@ -0,0 +1,120 @@
+import { Currency, TransactionStatus } from "./payment";
+import { WebhookEvent } from "./webhook";
+
+/**
+ * Payment to check against its provider
+ */
+export interface ReconciliationCandidate {
+  /**
+   * Alias of the gateway instance that served the payment
+   * (default: the current instance)
+   */
+  alias?: string;
+
+  /**
+   * ID of the payment, as returned by createPayment
+   */
+  paymentId: string;
+
+  reference?: string;
+
+  /**
+   * Amount expected, compared with the one the provider reports
+   */
+  amount?: number;
+
+  currency?: Currency;
+
+  /**
+   * Status known locally (default: pending)
+   */
+  status?: TransactionStatus;
+}
+
+/**
+ * Way the local record of a payment differs from the provider
+ */
+export type ReconciliationMismatch = "status" | "amount" | "not_found";
+
+/**
+ * Outcome of the check of a payment against its provider
+ */
+export interface ReconciliationResult {
+  alias: string;
+  paymentId: string;
+  reference?: string;
+
+  /**
+   * Status known locally
+   */
+  status: TransactionStatus;
+
+  /**
+   * Status the provider reports, unless the check failed
+   */
+  providerStatus?: TransactionStatus;
+
+  amount?: number;
+  currency?: Currency;
+
+  /**
+   * Amount the provider reports, if its gateway supports transaction lookups
+   */
+  providerAmount?: number;
+
+  providerCurrency?: Currency;
+
+  /**
+   * Differences found, empty when the payment is in sync
+   */
+  mismatches: ReconciliationMismatch[];
+
+  /**
+   * Synthetic webhook event dispatched for the status change, if any
+   */
+  event?: WebhookEvent;
+
+  /**
+   * Error the check failed with, other than the payment being unknown
+   */
+  error?: unknown;
+}
+
+/**
+ * Settings of a reconciliation run
+ */
+export interface ReconciliationOptions {
+  /**
+   * Payments to check (default: the payments still pending in the payment
+   * store)
+   */
+  payments?: ReconciliationCandidate[];
+
+  /**
+   * Minimum age of the stored pending payments to check, so payments whose
+   * customer is still at the checkout are left alone, in milliseconds
+   * (default: 5 minutes)
+   */
+  minAgeMs?: number;
+
+  /**
+   * Maximum number of payments checked at the same time (default: 2)
+   */
+  concurrency?: number;
+
+  /**
+   * Minimum time between two provider calls, in milliseconds (default: 250)
+   */
+  minIntervalMs?: number;
+
+  /**
+   * Dispatch a synthetic webhook event for each status change found
+   * (default: true)
+   */
+  dispatch?: boolean;
+
+  /**
+   * Called for every payment with a mismatch or a failed check
+   */
+  onMismatch?: (result: ReconciliationResult) => void;
+}
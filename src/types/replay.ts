@@ -0,0 +1,49 @@
+/**
+ * Storage remembering the webhook deliveries already processed
+ *
+ * Implement it on top of Redis or a SQL table to detect duplicates across
+ * processes. Keys may be dropped once their time to live expires.
+ */
+export interface WebhookReplayStore {
+  /**
+   * Check whether a delivery was recorded
+   */
+  has(key: string): Promise<boolean>;
+
+  /**
+   * Record a delivery only if it is not recorded yet, atomically
+   *
+   * @returns True if the delivery was recorded, false if it already was
+   */
+  add(key: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Forget a delivery, so that its redelivery is processed
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Webhook replay protection settings of a hub
+ */
+export interface WebhookReplayOptions {
+  /**
+   * Delivery storage (default: in-memory store)
+   */
+  store?: WebhookReplayStore;
+
+  /**
+   * Time deliveries are remembered, in milliseconds (default: 7 days)
+   */
+  ttlMs?: number;
+
+  /**
+   * Maximum age of a webhook, in seconds, judged by the timestamp the
+   * provider puts in the payload (default: no limit)
+   *
+   * Keep it above the redelivery window of the provider: redeliveries
+   * carry the timestamp of the original notification. Webhooks without a
+   * valid timestamp are rejected when it is set.
+   */
+  toleranceSeconds?: number;
+}
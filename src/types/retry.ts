@@ -0,0 +1,89 @@
+/**
+ * Retry policy applied to provider HTTP calls
+ *
+ * Status checks are retried by default. Payment creation and refunds are
+ * only retried when the provider cannot have processed them, e.g. on 429
+ * or a refused connection, never after a timeout or a 5xx reply.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled on every retry (default: 250)
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Maximum delay between two attempts in milliseconds, Retry-After
+   * headers included (default: 5000)
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomization of the delays (default: "full")
+   *
+   * - full: random delay between 0 and the backoff delay
+   * - equal: half the backoff delay plus a random delay up to the other half
+   * - none: exact backoff delay
+   */
+  jitter?: "full" | "equal" | "none";
+
+  /**
+   * HTTP statuses worth retrying (default: 408, 429, 500, 502, 503, 504)
+   */
+  retryableStatuses?: number[];
+
+  /**
+   * Network error codes worth retrying (default: ECONNRESET, ECONNABORTED,
+   * ETIMEDOUT, ECONNREFUSED, EAI_AGAIN, EPIPE, ERR_NETWORK)
+   */
+  retryableErrorCodes?: string[];
+
+  /**
+   * Called after every attempt, successful or not
+   */
+  onAttempt?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Outcome of a single attempt of a provider call
+ */
+export interface RetryAttempt {
+  /**
+   * Name of the provider that was called
+   */
+  provider: string;
+
+  /**
+   * Gateway operation, e.g. "verifyPayment"
+   */
+  operation: string;
+
+  /**
+   * Attempt number, starting at 1
+   */
+  attempt: number;
+
+  /**
+   * Maximum number of attempts allowed for this call
+   */
+  maxAttempts: number;
+
+  /**
+   * Error thrown by the attempt, undefined if it succeeded
+   */
+  error?: unknown;
+
+  /**
+   * Whether another attempt will be made
+   */
+  willRetry: boolean;
+
+  /**
+   * Delay before the next attempt in milliseconds
+   */
+  delayMs?: number;
+}
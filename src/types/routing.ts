@@ -0,0 +1,87 @@
+import { Currency, PaymentRequest } from "./payment";
+
+/**
+ * Routing rule selecting the gateway instances serving a payment
+ *
+ * Every criterion that is set must match. A criterion given as a list
+ * matches any of its values.
+ */
+export interface RoutingRule {
+  /**
+   * Name reported in routing decisions
+   */
+  name?: string;
+
+  /**
+   * Currencies served by this rule
+   */
+  currency?: Currency | Currency[];
+
+  /**
+   * Countries served by this rule, matched against metadata.country
+   */
+  country?: string | string[];
+
+  /**
+   * Payment methods served by this rule, matched against paymentMethod
+   */
+  paymentMethod?: string | string[];
+
+  /**
+   * Minimum amount served by this rule (inclusive)
+   */
+  minAmount?: number;
+
+  /**
+   * Maximum amount served by this rule (exclusive)
+   */
+  maxAmount?: number;
+
+  /**
+   * Custom predicate for criteria not covered above
+   */
+  match?: (request: PaymentRequest) => boolean;
+
+  /**
+   * Gateway instance aliases, in the order they should be tried
+   */
+  providers: string[];
+}
+
+/**
+ * Provider left out of a routing decision
+ */
+export interface SkippedProvider {
+  provider: string;
+  reason: string;
+}
+
+/**
+ * Outcome of routing a payment request, kept for auditing
+ */
+export interface RoutingDecision {
+  /**
+   * Name of the matching rule, null when the default providers were used
+   */
+  rule: string | null;
+
+  /**
+   * Criteria of the rule that matched the request
+   */
+  matchedCriteria: string[];
+
+  /**
+   * Eligible gateway instance aliases, in the order they should be tried
+   */
+  providers: string[];
+
+  /**
+   * Providers of the rule that were left out, with the reason
+   */
+  skipped: SkippedProvider[];
+
+  /**
+   * Human readable explanation of the decision
+   */
+  explanation: string;
+}
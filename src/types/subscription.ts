@@ -1,10 +1,28 @@
-import { Currency } from "./payment";
+import { Currency, PaymentResponse } from "./payment";
+
+/**
+ * Billing period of a subscription
+ */
+export type SubscriptionInterval = "daily" | "weekly" | "monthly" | "yearly";
+
+/**
+ * Lifecycle state of a subscription
+ *
+ * past_due subscriptions have a failed cycle that is being retried.
+ */
+export type SubscriptionStatus =
+  | "active"
+  | "pending"
+  | "paused"
+  | "past_due"
+  | "canceled"
+  | "expired";
 
 export interface SubscriptionRequest {
   planName: string;
   amount: number;
   currency: Currency;
-  interval: "daily" | "weekly" | "monthly" | "yearly";
+  interval: SubscriptionInterval;
   intervalCount?: number;
   customerEmail: string;
   customerName?: string;
@@ -21,9 +39,277 @@ export interface SubscriptionResponse {
   success: boolean;
   subscriptionId?: string;
   redirectUrl?: string;
-  status?: "active" | "pending" | "canceled" | "expired";
+  status?: SubscriptionStatus;
   message?: string;
   gatewayReference?: string;
   createdAt?: Date;
   nextBillingDate?: Date;
 }
+
+/**
+ * Pricing shared by the subscriptions created from it
+ */
+export interface SubscriptionPlan {
+  /**
+   * Merchant identifier of the plan, e.g. "premium-monthly"
+   */
+  id: string;
+
+  /**
+   * Plan name, shown in the description of each payment
+   */
+  name: string;
+
+  amount: number;
+  currency: Currency;
+  interval: SubscriptionInterval;
+
+  /**
+   * Number of intervals between payments (default: 1)
+   */
+  intervalCount?: number;
+
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Subscription to an existing plan
+ */
+export type PlanSubscriptionRequest = Omit<
+  SubscriptionRequest,
+  "planName" | "amount" | "currency" | "interval" | "intervalCount"
+> & {
+  /**
+   * ID of the plan to subscribe to
+   */
+  planId: string;
+};
+
+/**
+ * Subscription billed by the library
+ */
+export interface Subscription {
+  id: string;
+
+  /**
+   * ID of the plan the subscription was created from, if any
+   */
+  planId?: string;
+
+  planName: string;
+  amount: number;
+  currency: Currency;
+  interval: SubscriptionInterval;
+  intervalCount: number;
+  status: SubscriptionStatus;
+
+  /**
+   * Alias of the gateway instance billing the subscription
+   */
+  alias: string;
+
+  /**
+   * Provider of the gateway instance billing the subscription
+   */
+  provider: string;
+
+  customerEmail: string;
+  customerName?: string;
+  customerPhone?: string;
+  metadata?: Record<string, unknown>;
+  returnUrl?: string;
+  cancelUrl?: string;
+  webhookUrl?: string;
+
+  /**
+   * Date the first cycle is billed
+   */
+  startDate: Date;
+
+  /**
+   * Due date of the cycle following anchorCycle, which later cycles are
+   * counted from. Moved when a subscription resumes or changes interval.
+   */
+  billingAnchor: Date;
+
+  /**
+   * Number of cycles billed when the billing anchor was set
+   */
+  anchorCycle: number;
+
+  /**
+   * Date after which no cycle is billed, if any
+   */
+  endDate?: Date;
+
+  /**
+   * Due date of the last billed cycle, which the current period starts at
+   */
+  periodStart?: Date;
+
+  /**
+   * Date the next cycle is due
+   */
+  nextBillingDate: Date;
+
+  /**
+   * Number of cycles billed so far
+   */
+  cycle: number;
+
+  /**
+   * ID of the payment issued for the last billed cycle
+   */
+  lastPaymentId?: string;
+
+  /**
+   * True while the payment of the last billed cycle has not completed, which
+   * holds back the next cycle
+   */
+  awaitingPayment?: boolean;
+
+  /**
+   * Number of payments attempted for the unpaid cycle, numbering their
+   * references so a retry never reuses the reference of a failed payment
+   */
+  attempts?: number;
+
+  /**
+   * Number of failed attempts at billing the next cycle, or the last billed
+   * one until its payment completes
+   */
+  failedAttempts: number;
+
+  /**
+   * Date the failed cycle of a past due subscription is attempted again
+   */
+  retryAt?: Date;
+
+  /**
+   * Amount deducted from the next cycles, in major units, e.g. left over
+   * from a prorated plan change
+   */
+  credit?: number;
+
+  /**
+   * Credit deducted from the payment of the last billed cycle, in major
+   * units, given back if that payment fails
+   */
+  appliedCredit?: number;
+
+  createdAt: Date;
+  pausedAt?: Date;
+  canceledAt?: Date;
+}
+
+/**
+ * How a change of price or interval applies to the current period
+ *
+ * - none: the change applies from the next cycle
+ * - immediate: a new period starts now at the new price, with the unused
+ *   part of the current period credited
+ */
+export type SubscriptionProration = "none" | "immediate";
+
+/**
+ * Changes to a subscription
+ */
+export interface SubscriptionUpdate {
+  /**
+   * Plan to switch to, replacing the name, price and interval
+   */
+  planId?: string;
+
+  planName?: string;
+  amount?: number;
+  interval?: SubscriptionInterval;
+  intervalCount?: number;
+  metadata?: Record<string, unknown>;
+
+  /**
+   * How the change applies to the current period (default: none)
+   */
+  proration?: SubscriptionProration;
+}
+
+/**
+ * Storage backing the subscription engine
+ *
+ * Implement it on top of a database so plans and subscriptions survive
+ * restarts and can be billed from any process.
+ */
+export interface SubscriptionStore {
+  /**
+   * Get a plan by ID
+   */
+  getPlan(id: string): Promise<SubscriptionPlan | null>;
+
+  /**
+   * Store a plan, replacing the one with the same ID
+   */
+  savePlan(plan: SubscriptionPlan): Promise<void>;
+
+  /**
+   * Get a subscription by ID
+   */
+  get(id: string): Promise<Subscription | null>;
+
+  /**
+   * Store a subscription, replacing the one with the same ID
+   */
+  save(subscription: Subscription): Promise<void>;
+
+  /**
+   * List the subscriptions to bill at a date
+   *
+   * @returns Active subscriptions not awaiting a payment whose next billing date is not after the date, and past due subscriptions whose retry date is not after the date
+   */
+  listDue(date: Date): Promise<Subscription[]>;
+}
+
+/**
+ * Subscription settings of a hub
+ */
+export interface SubscriptionOptions {
+  /**
+   * Plan and subscription storage (default: in-memory store)
+   */
+  store?: SubscriptionStore;
+
+  /**
+   * Retries of failed cycles
+   */
+  dunning?: DunningPolicy;
+}
+
+/**
+ * Retry schedule of failed subscription cycles
+ */
+export interface DunningPolicy {
+  /**
+   * Delays before each retry of a failed cycle, in milliseconds
+   * (default: 1, 3 and 7 days). The subscription expires once every retry
+   * failed; an empty list expires it on the first failure.
+   */
+  retryDelaysMs?: number[];
+}
+
+/**
+ * Outcome of billing a subscription cycle
+ */
+export interface SubscriptionBillingResult {
+  /**
+   * Subscription, as stored after the attempt
+   */
+  subscription: Subscription;
+
+  /**
+   * Response of the payment issued for the cycle, if it was created
+   */
+  payment?: PaymentResponse;
+
+  /**
+   * Error the payment was rejected with, if it failed
+   */
+  error?: unknown;
+}
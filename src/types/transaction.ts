@@ -0,0 +1,70 @@
+import { Currency, TransactionStatus } from "./payment";
+
+/**
+ * Customer details reported by the provider
+ */
+export interface TransactionCustomer {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Full details of a payment, as reported by the provider
+ */
+export interface Transaction {
+  /**
+   * ID of the payment, as returned by createPayment
+   */
+  paymentId: string;
+
+  /**
+   * Merchant reference of the payment
+   */
+  reference?: string;
+
+  status: TransactionStatus;
+  amount?: number;
+  currency?: Currency;
+
+  /**
+   * Fees charged by the provider
+   */
+  fees?: number;
+
+  description?: string;
+
+  /**
+   * Payment method used by the customer, e.g. "Orange Money"
+   */
+  paymentMethod?: string;
+
+  customer?: TransactionCustomer;
+
+  /**
+   * Identifier of the transaction on the provider or operator side
+   */
+  gatewayReference?: string;
+
+  metadata?: Record<string, unknown>;
+
+  /**
+   * When the payment was created
+   */
+  createdAt?: Date;
+
+  /**
+   * When the payment was completed
+   */
+  paidAt?: Date;
+
+  /**
+   * Name of the provider
+   */
+  gatewayName: string;
+
+  /**
+   * Provider response the transaction was built from
+   */
+  raw: unknown;
+}
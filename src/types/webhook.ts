@@ -3,18 +3,65 @@ import { Currency, TransactionStatus } from "./payment";
 export interface WebhookValidationResult {
   isValid: boolean;
   reason?: string;
+  /**
+   * The delivery was already processed, so it should be acknowledged
+   * without being processed again
+   */
+  duplicate?: boolean;
 }
 
+/**
+ * Webhook body exactly as received, before parsing
+ */
+export type RawWebhookBody = Buffer | string;
+
+/**
+ * HMAC signature computed over the raw webhook body and sent in a header
+ */
+export interface WebhookSignatureOptions {
+  /**
+   * Secret shared with the signer
+   */
+  secret: string;
+
+  /**
+   * Header carrying the signature (default: x-signature)
+   */
+  header?: string;
+
+  /**
+   * HMAC digest algorithm (default: sha256)
+   */
+  algorithm?: string;
+}
+
+/**
+ * Body acknowledging a webhook notification to the provider
+ *
+ * Strings are sent as plain text, objects as JSON.
+ */
+export type WebhookAcknowledgement = string | Record<string, unknown>;
+
 export enum WebhookEventType {
   PAYMENT_SUCCESS = "payment.success",
   PAYMENT_FAILED = "payment.failed",
   PAYMENT_PENDING = "payment.pending",
+  PAYMENT_CANCELED = "payment.canceled",
   REFUND_SUCCESS = "refund.success",
   REFUND_FAILED = "refund.failed",
   SUBSCRIPTION_CREATED = "subscription.created",
   SUBSCRIPTION_CANCELED = "subscription.canceled",
   SUBSCRIPTION_PAYMENT = "subscription.payment",
   SUBSCRIPTION_FAILED = "subscription.failed",
+  SUBSCRIPTION_UPDATED = "subscription.updated",
+  SUBSCRIPTION_PAUSED = "subscription.paused",
+  SUBSCRIPTION_RESUMED = "subscription.resumed",
+  SUBSCRIPTION_PAST_DUE = "subscription.past_due",
+  SUBSCRIPTION_EXPIRED = "subscription.expired",
+  /**
+   * Event the provider sent but this package does not recognize
+   */
+  UNKNOWN = "unknown",
 }
 
 export interface WebhookEvent {
@@ -31,4 +78,16 @@ export interface WebhookEvent {
   };
   createdAt: Date;
   gatewayName: string;
+
+  /**
+   * The payload carried no timestamp, so createdAt is the time the webhook
+   * was received rather than the time the provider sent it
+   */
+  timestampMissing?: boolean;
+
+  /**
+   * The hub generated the event from a status the provider reported, e.g.
+   * during reconciliation, rather than receiving it from the provider
+   */
+  synthetic?: boolean;
 }
@@ -0,0 +1,428 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { MultiPaymentGateway } from "../index";
+import { ConfigurationError, PaymentError } from "../core/errors";
+import { RawWebhookBody, WebhookAcknowledgement, WebhookEvent } from "../types";
+
+/**
+ * Webhook request, independent of the HTTP framework
+ */
+export interface WebhookHttpRequest {
+  /**
+   * Request path, with its query string
+   */
+  url: string;
+
+  /**
+   * Request headers, with lower case names
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Body exactly as received
+   */
+  rawBody: RawWebhookBody;
+}
+
+/**
+ * Reply to a webhook request, independent of the HTTP framework
+ */
+export interface WebhookHttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Details of the webhook request an event came from
+ */
+export interface WebhookRequestContext {
+  /**
+   * Alias of the gateway instance that processed the webhook
+   */
+  alias: string;
+
+  /**
+   * Request headers, with lower case names
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Body exactly as received
+   */
+  rawBody: RawWebhookBody;
+}
+
+/**
+ * Webhook handler configuration
+ */
+export interface WebhookHandlerOptions {
+  /**
+   * Hub whose gateway instances validate and process the webhooks
+   */
+  hub: MultiPaymentGateway;
+
+  /**
+   * Listener called with every valid event, after the listeners of the hub
+   *
+   * The provider is acknowledged once it resolves. If it or a listener of
+   * the hub throws, the provider receives a 500 reply so it delivers the
+   * webhook again.
+   */
+  onEvent?: (
+    event: WebhookEvent,
+    context: WebhookRequestContext
+  ) => void | Promise<void>;
+
+  /**
+   * Header naming the gateway instance, for endpoints shared by several
+   * instances (default: none)
+   *
+   * The header is sent by the client, so it is only read when the path
+   * names no gateway instance.
+   */
+  aliasHeader?: string;
+
+  /**
+   * Pick the gateway instance of a request, before the path and header
+   */
+  resolveAlias?: (request: WebhookHttpRequest) => string | undefined;
+}
+
+/**
+ * Resolve the gateway instance a webhook is meant for
+ *
+ * The custom resolver is asked first, then the path segments from last to
+ * first, e.g. /webhooks/paytech-sn, then the alias header if one is
+ * configured. Hubs with a single purpose fall back to their default
+ * instance.
+ *
+ * @param options Webhook handler configuration
+ * @param request Webhook request
+ * @returns Gateway instance alias, or null if none matches
+ * @throws URIError if a path segment is not validly percent-encoded
+ */
+function resolveAlias(
+  options: WebhookHandlerOptions,
+  request: WebhookHttpRequest
+): string | null {
+  const custom = options.resolveAlias?.(request);
+  if (custom) {
+    return custom;
+  }
+
+  const path = request.url.split("?")[0];
+  const segment = path
+    .split("/")
+    .map((part) => decodeURIComponent(part))
+    .reverse()
+    .find((part) => options.hub.hasGateway(part));
+  if (segment) {
+    return segment;
+  }
+
+  const header = options.aliasHeader
+    ? request.headers[options.aliasHeader.toLowerCase()]
+    : undefined;
+
+  return header || options.hub.getAlias();
+}
+
+/**
+ * Build a reply carrying an acknowledgement body
+ *
+ * @param statusCode HTTP status code
+ * @param body Acknowledgement, sent as plain text if a string or as JSON otherwise
+ * @returns Webhook reply
+ */
+function reply(
+  statusCode: number,
+  body: WebhookAcknowledgement
+): WebhookHttpResponse {
+  return typeof body === "string"
+    ? {
+        statusCode,
+        headers: { "content-type": "text/plain; charset=utf-8" },
+        body,
+      }
+    : {
+        statusCode,
+        headers: { "content-type": "application/json; charset=utf-8" },
+        body: JSON.stringify(body),
+      };
+}
+
+/**
+ * Validate, process and acknowledge a webhook request
+ *
+ * Replies with 404 when no gateway instance matches, 400 when the path or
+ * the payload is malformed or the payload fails validation, and 500 when processing or an event
+ * listener fails, so the provider delivers the webhook again. Duplicate
+ * deliveries are acknowledged without being processed again.
+ *
+ * @param options Webhook handler configuration
+ * @param request Webhook request
+ * @returns Promise resolving to the reply to send, with the provider-specific acknowledgement
+ */
+export async function handleWebhookRequest(
+  options: WebhookHandlerOptions,
+  request: WebhookHttpRequest
+): Promise<WebhookHttpResponse> {
+  let alias: string | null;
+  try {
+    alias = resolveAlias(options, request);
+  } catch (error) {
+    if (error instanceof URIError) {
+      return reply(400, "Malformed webhook URL");
+    }
+    throw error;
+  }
+
+  if (!alias || !options.hub.hasGateway(alias)) {
+    return reply(
+      404,
+      alias
+        ? `Unknown payment gateway: ${alias}`
+        : "No payment gateway configured for this webhook"
+    );
+  }
+
+  const gateway = options.hub.use(alias);
+
+  // The hub parses the raw body, so signatures are checked on its exact bytes
+  let event: WebhookEvent;
+  try {
+    const validation = await gateway.validateWebhook(
+      request.rawBody,
+      request.headers
+    );
+
+    if (!validation.isValid) {
+      return reply(
+        400,
+        gateway.acknowledgeWebhook(
+          false,
+          validation.reason || "Invalid webhook"
+        )
+      );
+    }
+
+    // Already processed: acknowledge so the provider stops redelivering
+    if (validation.duplicate) {
+      return reply(200, gateway.acknowledgeWebhook(true));
+    }
+
+    event = await gateway.processWebhook(request.rawBody, {
+      dispatch: false,
+      contentType: request.headers["content-type"],
+    });
+  } catch (error) {
+    // Payloads the gateway rejects will not get better on redelivery
+    const statusCode =
+      error instanceof PaymentError && !error.retryable ? 400 : 500;
+    return reply(statusCode, gateway.acknowledgeWebhook(false));
+  }
+
+  // Listener failures are isolated by the hub, but the provider still has
+  // to deliver the webhook again
+  const { onEvent } = options;
+  const dispatch = await gateway.dispatchWebhook(
+    event,
+    onEvent &&
+      ((dispatched) =>
+        onEvent(dispatched, {
+          alias,
+          headers: request.headers,
+          rawBody: request.rawBody,
+        }))
+  );
+
+  if (dispatch.errors.length > 0) {
+    return reply(500, gateway.acknowledgeWebhook(false));
+  }
+
+  return reply(200, gateway.acknowledgeWebhook(true));
+}
+
+/**
+ * Flatten request headers to lower case names and string values
+ *
+ * @param headers Request headers
+ * @returns Normalized headers
+ */
+function normalizeHeaders(
+  headers: Record<string, string | string[] | undefined>
+): Record<string, string> {
+  const normalized: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      normalized[name.toLowerCase()] = Array.isArray(value)
+        ? value.join(", ")
+        : value;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Get the raw body left by a body parser, if any
+ *
+ * A JSON body parser such as express.json() leaves an empty object on the
+ * requests it skips, e.g. form encoded Paytech IPN notifications, without
+ * reading them. A JSON request it parsed has lost the bytes signatures are
+ * computed over, so it is rejected rather than serialized again.
+ *
+ * @param request Request possibly carrying a rawBody or body property
+ * @param headers Request headers, with lower case names
+ * @returns Raw body, or undefined if no parser kept it
+ * @throws ConfigurationError if a JSON body parser already parsed the body
+ */
+function getParsedRawBody(
+  request: { rawBody?: unknown; body?: unknown },
+  headers: Record<string, string>
+): RawWebhookBody | undefined {
+  for (const body of [request.rawBody, request.body]) {
+    if (Buffer.isBuffer(body) || typeof body === "string") {
+      return body;
+    }
+  }
+
+  if (
+    request.body &&
+    typeof request.body === "object" &&
+    /\bjson\b/i.test(headers["content-type"] ?? "")
+  ) {
+    throw new ConfigurationError(
+      "The webhook body was parsed as JSON without keeping it: mount the webhook handler before the JSON body parser, or use express.raw()"
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the body of a node:http request
+ *
+ * @param request Incoming request
+ * @returns Promise resolving to the bytes received
+ * @throws ConfigurationError if a body parser already read the request
+ */
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  if (request.readableEnded) {
+    return Promise.reject(
+      new ConfigurationError(
+        "The webhook body was read by a body parser: mount the webhook handler before it, or use express.raw()"
+      )
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    request.on("data", (chunk: Buffer | string) => {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    });
+    request.on("end", () => resolve(Buffer.concat(chunks)));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Create a webhook handler for node:http servers and Express
+ *
+ * The raw body is read from the request stream, or from req.rawBody or a
+ * Buffer/string req.body left by a body parser such as express.raw(). A
+ * body another parser already read replies 500 instead of being lost.
+ *
+ * @param options Webhook handler configuration
+ * @returns Request listener, usable as Express middleware
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions): (
+  req: IncomingMessage & {
+    body?: unknown;
+    rawBody?: unknown;
+    originalUrl?: string;
+  },
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => Promise<void> {
+  return async (req, res, next) => {
+    try {
+      const headers = normalizeHeaders(req.headers);
+      const rawBody = getParsedRawBody(req, headers) ?? (await readBody(req));
+      const response = await handleWebhookRequest(options, {
+        url: req.originalUrl || req.url || "/",
+        headers,
+        rawBody,
+      });
+
+      res.writeHead(response.statusCode, response.headers);
+      res.end(response.body);
+    } catch (error) {
+      if (next) {
+        next(error);
+        return;
+      }
+
+      res.writeHead(500, { "content-type": "text/plain; charset=utf-8" });
+      res.end("Internal Server Error");
+    }
+  };
+}
+
+/**
+ * Fastify request fields read by the webhook handler
+ */
+interface FastifyRequestLike {
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  rawBody?: unknown;
+}
+
+/**
+ * Fastify reply methods used by the webhook handler
+ */
+interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  headers(headers: Record<string, string>): FastifyReplyLike;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * Create a webhook route handler for Fastify
+ *
+ * Register a content type parser keeping the body as a string, or a raw
+ * body plugin setting request.rawBody, so signatures can be checked.
+ *
+ * @param options Webhook handler configuration
+ * @returns Route handler
+ * @throws ConfigurationError if the body was parsed into an object from a non-JSON request
+ */
+export function createFastifyWebhookHandler(
+  options: WebhookHandlerOptions
+): (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<void> {
+  return async (request, fastifyReply) => {
+    const headers = normalizeHeaders(request.headers);
+    const rawBody = getParsedRawBody(request, headers);
+
+    // Fastify replies 500, so the provider delivers the webhook again
+    if (rawBody === undefined && request.body != null) {
+      throw new ConfigurationError(
+        "The webhook body was parsed without keeping it: register a content type parser keeping it as a string"
+      );
+    }
+
+    const response = await handleWebhookRequest(options, {
+      url: request.url,
+      headers,
+      rawBody: rawBody ?? "",
+    });
+
+    await fastifyReply
+      .code(response.statusCode)
+      .headers(response.headers)
+      .send(response.body);
+  };
+}
@@ -0,0 +1,617 @@
+import {
+  ConfigurationError,
+  DuplicateReferenceError,
+  GatewayConfig,
+  InvalidTransitionError,
+  MultiPaymentGateway,
+  PaymentGateway,
+  PaymentRequest,
+  TransactionStatus,
+  WebhookEventType,
+  registerProvider,
+  unregisterProvider,
+} from "../../src";
+import {
+  jest,
+  describe,
+  it,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  expect,
+} from "@jest/globals";
+
+/**
+ * Fake gateway echoing the merchant code it was configured with
+ */
+function createFakeGateway(): PaymentGateway {
+  let merchant = "";
+
+  return {
+    initialize: jest.fn(async (config: GatewayConfig) => {
+      merchant = config.apiKey;
+      return true;
+    }),
+    createPayment: jest.fn(async (request: PaymentRequest) => ({
+      success: true,
+      paymentId: `${merchant}-${request.reference}`,
+      status: TransactionStatus.PENDING,
+    })),
+    verifyPayment: jest.fn(async () => TransactionStatus.COMPLETED),
+    refundPayment: jest.fn(async () => ({ success: true })),
+    validateWebhook: jest.fn(async () => ({ isValid: true })),
+    processWebhook: jest.fn(async () => ({
+      type: WebhookEventType.PAYMENT_SUCCESS,
+      data: { reference: "ref", status: TransactionStatus.COMPLETED },
+      createdAt: new Date(),
+      gatewayName: "fake",
+    })),
+  };
+}
+
+const request: PaymentRequest = {
+  amount: 1000,
+  currency: "XOF",
+  reference: "order-1",
+  description: "Order 1",
+};
+
+function configFor(merchant: string) {
+  return {
+    apiKey: merchant,
+    apiSecret: "secret",
+    environment: "test" as const,
+  };
+}
+
+describe("MultiPaymentGateway", () => {
+  beforeAll(() => {
+    registerProvider("fake", createFakeGateway);
+  });
+
+  afterAll(() => {
+    unregisterProvider("fake");
+  });
+
+  it("should throw when no gateway is initialized", async () => {
+    const hub = new MultiPaymentGateway();
+
+    expect(hub.getProvider()).toBeNull();
+    await expect(hub.createPayment(request)).rejects.toThrow(
+      "Payment gateway not initialized"
+    );
+    await expect(hub.verifyPayment("order-1")).rejects.toThrow(
+      ConfigurationError
+    );
+  });
+
+  it("should route operations to named instances", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    await hub.addGateway("fake-ci", "fake", configFor("ci"));
+
+    const sn = await hub.use("fake-sn").createPayment(request);
+    const ci = await hub.use("fake-ci").createPayment(request);
+
+    expect(sn.paymentId).toBe("sn-order-1");
+    expect(ci.paymentId).toBe("ci-order-1");
+    expect(hub.getAliases()).toEqual(["fake-sn", "fake-ci"]);
+  });
+
+  it("should use the first added instance as default", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    await hub.addGateway("fake-ci", "fake", configFor("ci"));
+
+    expect(hub.getAlias()).toBe("fake-sn");
+    expect((await hub.createPayment(request)).paymentId).toBe("sn-order-1");
+  });
+
+  it("should make initialized instances the default", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    await hub.initialize("fake", configFor("ci"), "fake-ci");
+
+    expect(hub.getAlias()).toBe("fake-ci");
+    expect(hub.getProvider()).toBe("fake");
+    expect((await hub.createPayment(request)).paymentId).toBe("ci-order-1");
+  });
+
+  it("should keep hubs isolated from each other", async () => {
+    const first = new MultiPaymentGateway();
+    const second = new MultiPaymentGateway();
+    await first.initialize("fake", configFor("first"));
+
+    expect(second.getProvider()).toBeNull();
+  });
+
+  it("should share instances added after use() was called", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    const scoped = hub.use("fake-sn");
+    await hub.addGateway("fake-sn", "fake", configFor("sn2"));
+
+    expect((await scoped.createPayment(request)).paymentId).toBe("sn2-order-1");
+  });
+
+  it("should reject unknown aliases", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+
+    expect(() => hub.use("fake-ml")).toThrow(
+      "Unknown payment gateway alias: fake-ml. Configured aliases: fake-sn"
+    );
+  });
+
+  it("should report gateways without transaction lookups", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.initialize("fake", configFor("sn"));
+
+    await expect(hub.getTransaction("sn-order-1")).rejects.toThrow(
+      "Transaction lookups are not supported by fake"
+    );
+  });
+
+  it("should acknowledge webhooks in plain text by default", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.initialize("fake", configFor("sn"));
+
+    expect(hub.acknowledgeWebhook(true)).toBe("OK");
+    expect(hub.acknowledgeWebhook(false, "Invalid signature")).toBe(
+      "Invalid signature"
+    );
+  });
+
+  it("should dispatch processed webhooks to the event listeners", async () => {
+    const hub = new MultiPaymentGateway({ onEventError: () => undefined });
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    await hub.addGateway("fake-ci", "fake", configFor("ci"));
+    const references: string[] = [];
+    const aliases: string[] = [];
+
+    hub.on(WebhookEventType.PAYMENT_SUCCESS, async (event) => {
+      references.push(event.data.reference);
+    });
+    hub.on("*", () => void aliases.push("fake-ci"), { alias: "fake-ci" });
+    hub.on("*", () => {
+      throw new Error("Listener failed");
+    });
+
+    const event = await hub.use("fake-ci").processWebhook({});
+    await hub.processWebhook({}, { dispatch: false });
+
+    expect(event.type).toBe(WebhookEventType.PAYMENT_SUCCESS);
+    expect(references).toEqual(["ref"]);
+    expect(aliases).toEqual(["fake-ci"]);
+  });
+
+  it("should flag webhooks that were already processed", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.initialize("fake", configFor("sn"));
+    const listener = jest.fn();
+    hub.on("*", listener);
+
+    expect(await hub.validateWebhook({}, {})).toEqual({ isValid: true });
+    await hub.processWebhook({});
+    await hub.processWebhook({});
+
+    expect(await hub.validateWebhook({}, {})).toMatchObject({
+      isValid: true,
+      duplicate: true,
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should parse raw webhook bodies and hand their bytes to the gateway", async () => {
+    const gateway = createFakeGateway();
+    registerProvider("raw", () => gateway);
+    const hub = new MultiPaymentGateway();
+    await hub.initialize("raw", configFor("sn"));
+    const rawBody = Buffer.from("ref_command=order-1&amount=5000");
+
+    const result = await hub.validateWebhook(rawBody, {
+      "Content-Type": "application/x-www-form-urlencoded",
+    });
+    const malformed = await hub.validateWebhook("{oops", {
+      "content-type": "application/json",
+    });
+    unregisterProvider("raw");
+
+    expect(result).toEqual({ isValid: true });
+    expect(gateway.validateWebhook).toHaveBeenCalledWith(
+      { ref_command: "order-1", amount: "5000" },
+      { "Content-Type": "application/x-www-form-urlencoded" },
+      rawBody
+    );
+    expect(malformed).toEqual({
+      isValid: false,
+      reason: "Malformed webhook payload",
+    });
+  });
+
+  it("should bill subscriptions on the instance they were created on", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    await hub.addGateway("fake-ci", "fake", configFor("ci"));
+    const payments: string[] = [];
+    hub.on(WebhookEventType.SUBSCRIPTION_PAYMENT, (event) => {
+      payments.push(event.data.subscriptionId);
+    });
+
+    const response = await hub.use("fake-ci").createSubscription({
+      planName: "Premium",
+      amount: 5000,
+      currency: "XOF",
+      interval: "monthly",
+      customerEmail: "customer@example.com",
+    });
+
+    expect(payments).toEqual([response.subscriptionId]);
+    expect(
+      await hub.getSubscription(response.subscriptionId as string)
+    ).toMatchObject({
+      alias: "fake-ci",
+      provider: "fake",
+      cycle: 1,
+      lastPaymentId: `ci-${response.subscriptionId}-1-1`,
+    });
+    expect(
+      await hub.pauseSubscription(response.subscriptionId as string)
+    ).toMatchObject({ status: "paused" });
+    expect(
+      await hub.resumeSubscription(response.subscriptionId as string)
+    ).toMatchObject({ status: "active" });
+    expect(
+      await hub.cancelSubscription(response.subscriptionId as string)
+    ).toBe(true);
+  });
+
+  it("should put subscriptions past due when a cycle payment fails", async () => {
+    const hub = new MultiPaymentGateway({
+      subscriptions: { dunning: { retryDelaysMs: [0] } },
+    });
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    const { subscriptionId } = await hub.createSubscription({
+      planName: "Premium",
+      amount: 5000,
+      currency: "XOF",
+      interval: "monthly",
+      customerEmail: "customer@example.com",
+    });
+    const pastDue = jest.fn();
+    hub.on(WebhookEventType.SUBSCRIPTION_PAST_DUE, pastDue);
+
+    await hub.dispatchWebhook({
+      type: WebhookEventType.PAYMENT_FAILED,
+      data: {
+        reference: `${subscriptionId}-1-1`,
+        paymentId: `sn-${subscriptionId}-1-1`,
+        status: TransactionStatus.FAILED,
+        metadata: { subscriptionId, cycle: 1 },
+      },
+      createdAt: new Date(),
+      gatewayName: "fake",
+    });
+
+    expect(await hub.getSubscription(subscriptionId as string)).toMatchObject({
+      status: "past_due",
+      cycle: 0,
+      failedAttempts: 1,
+    });
+    expect(pastDue).toHaveBeenCalledTimes(1);
+
+    // The retry is a new payment, not the failed one handed back again
+    const [retried] = await hub.billDueSubscriptions();
+
+    expect(retried.payment?.paymentId).toBe(`sn-${subscriptionId}-1-2`);
+    expect(retried.subscription).toMatchObject({
+      status: "active",
+      cycle: 1,
+      lastPaymentId: `sn-${subscriptionId}-1-2`,
+    });
+  });
+
+  it("should report refund webhooks below the payment amount as partial", async () => {
+    registerProvider("refunding", () => ({
+      ...createFakeGateway(),
+      processWebhook: async () => ({
+        type: WebhookEventType.REFUND_SUCCESS,
+        data: {
+          reference: "ref",
+          paymentId: "sn-ref",
+          amount: 400,
+          status: TransactionStatus.REFUNDED,
+        },
+        createdAt: new Date(),
+        gatewayName: "fake",
+      }),
+    }));
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("refunding-sn", "refunding", configFor("sn"));
+    unregisterProvider("refunding");
+
+    await hub.createPayment({ ...request, reference: "ref" });
+    await hub.verifyPayment("sn-ref");
+    const event = await hub.processWebhook({});
+
+    expect(event.data.status).toBe(TransactionStatus.PARTIALLY_REFUNDED);
+    expect(await hub.findPayment({ paymentId: "sn-ref" })).toMatchObject({
+      status: TransactionStatus.PARTIALLY_REFUNDED,
+    });
+  });
+
+  it("should record payments through their lifecycle", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+
+    await hub.createPayment({ ...request, reference: "ref" });
+    await hub.processWebhook({ token: "sn-ref" });
+    await hub.refundPayment("sn-ref");
+
+    const payment = await hub.findPayment({ paymentId: "sn-ref" });
+
+    expect(payment).toMatchObject({
+      alias: "fake-sn",
+      provider: "fake",
+      reference: "ref",
+      amount: 1000,
+      status: TransactionStatus.REFUNDED,
+      refunds: [{ status: TransactionStatus.REFUNDED }],
+    });
+    expect(
+      payment?.history.map(({ status, source }) => [status, source])
+    ).toEqual([
+      [TransactionStatus.PENDING, "create"],
+      [TransactionStatus.COMPLETED, "webhook"],
+      [TransactionStatus.REFUNDED, "refund"],
+    ]);
+    expect(
+      await hub.getPaymentWebhookEvents(payment?.id as string)
+    ).toMatchObject([{ alias: "fake-sn", event: { type: "payment.success" } }]);
+
+    const stateless = new MultiPaymentGateway({ persistence: false });
+    await expect(stateless.findPayment({ reference: "ref" })).rejects.toThrow(
+      ConfigurationError
+    );
+  });
+
+  it("should reject refunds of pending payments when configured to", async () => {
+    const hub = new MultiPaymentGateway({
+      persistence: { invalidTransitions: "reject" },
+    });
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+
+    await hub.createPayment(request);
+
+    await expect(hub.refundPayment("sn-order-1")).rejects.toThrow(
+      InvalidTransitionError
+    );
+    await hub.verifyPayment("sn-order-1");
+    await expect(hub.refundPayment("sn-order-1")).resolves.toMatchObject({
+      success: true,
+    });
+  });
+
+  it("should track partial refunds up to the payment amount", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    await hub.createPayment(request);
+    await hub.verifyPayment("sn-order-1");
+
+    expect(await hub.refundPayment("sn-order-1", 400)).toMatchObject({
+      status: TransactionStatus.PARTIALLY_REFUNDED,
+      refundedAmount: 400,
+      refundableAmount: 600,
+    });
+    await expect(hub.refundPayment("sn-order-1", 700)).rejects.toThrow(
+      "Refund amount exceeds the refundable balance: 700 > 600 XOF"
+    );
+    expect(await hub.refundPayment("sn-order-1")).toMatchObject({
+      status: TransactionStatus.REFUNDED,
+      refundedAmount: 1000,
+      refundableAmount: 0,
+    });
+    expect(
+      (await hub.findPayment({ paymentId: "sn-order-1" }))?.refunds
+    ).toMatchObject([{ amount: 400 }, { amount: 600 }]);
+  });
+
+  it("should stop waiting for a payment once its webhook arrives", async () => {
+    const gateway: PaymentGateway = {
+      ...createFakeGateway(),
+      verifyPayment: jest.fn(async () => TransactionStatus.PENDING),
+      processWebhook: jest.fn(async () => ({
+        type: WebhookEventType.PAYMENT_FAILED,
+        data: {
+          reference: "order-1",
+          paymentId: "sn-order-1",
+          status: TransactionStatus.FAILED,
+        },
+        createdAt: new Date(),
+        gatewayName: "pending",
+      })),
+    };
+    registerProvider("pending", () => gateway);
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("pending-sn", "pending", configFor("sn"));
+    unregisterProvider("pending");
+    const attempts: number[] = [];
+
+    const waiting = hub.waitForPayment("sn-order-1", {
+      intervalMs: 60000,
+      onProgress: (progress) => attempts.push(progress.attempt),
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    await hub.processWebhook({});
+
+    await expect(waiting).resolves.toMatchObject({
+      status: TransactionStatus.FAILED,
+      timedOut: false,
+      source: "webhook",
+    });
+    expect(attempts).toEqual([1]);
+    expect(gateway.verifyPayment).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only stop waiting for a payment on its payment events", async () => {
+    registerProvider("pending", () => ({
+      ...createFakeGateway(),
+      verifyPayment: async () => TransactionStatus.PENDING,
+    }));
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("pending-sn", "pending", configFor("sn"));
+    unregisterProvider("pending");
+    const notify = (type: WebhookEventType, status: TransactionStatus) =>
+      hub.dispatchWebhook({
+        type,
+        data: { reference: "order-1", paymentId: "sn-order-1", status },
+        createdAt: new Date(),
+        gatewayName: "fake",
+      });
+    let settled = false;
+
+    const waiting = hub
+      .waitForPayment("sn-order-1", { intervalMs: 60000 })
+      .finally(() => (settled = true));
+    await new Promise((resolve) => setImmediate(resolve));
+    await notify(WebhookEventType.UNKNOWN, TransactionStatus.FAILED);
+    await notify(WebhookEventType.REFUND_SUCCESS, TransactionStatus.REFUNDED);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(settled).toBe(false);
+
+    await notify(WebhookEventType.PAYMENT_SUCCESS, TransactionStatus.COMPLETED);
+
+    await expect(waiting).resolves.toMatchObject({
+      status: TransactionStatus.COMPLETED,
+      source: "webhook",
+    });
+  });
+
+  it("should reconcile pending payments missed by webhooks", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    const events: WebhookEventType[] = [];
+    hub.on("*", (event) => void events.push(event.type));
+
+    await hub.createPayment(request);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const results = await hub.reconcilePayments({ minAgeMs: 0 });
+
+    expect(results).toMatchObject([
+      {
+        alias: "fake-sn",
+        paymentId: "sn-order-1",
+        mismatches: ["status"],
+        event: { synthetic: true },
+      },
+    ]);
+    expect(events).toEqual([WebhookEventType.PAYMENT_SUCCESS]);
+    expect(
+      (await hub.findPayment({ paymentId: "sn-order-1" }))?.history.map(
+        ({ status, source }) => [status, source]
+      )
+    ).toEqual([
+      [TransactionStatus.PENDING, "create"],
+      [TransactionStatus.COMPLETED, "reconciliation"],
+    ]);
+    expect(await hub.reconcilePayments({ minAgeMs: 0 })).toEqual([]);
+
+    const stateless = new MultiPaymentGateway({ persistence: false });
+    await expect(stateless.reconcilePayments()).rejects.toThrow(
+      ConfigurationError
+    );
+  });
+
+  it("should move the default when it is removed", async () => {
+    const hub = new MultiPaymentGateway();
+    await hub.addGateway("fake-sn", "fake", configFor("sn"));
+    await hub.addGateway("fake-ci", "fake", configFor("ci"));
+
+    expect(hub.removeGateway("fake-sn")).toBe(true);
+    expect(hub.getAlias()).toBe("fake-ci");
+  });
+
+  describe("idempotency", () => {
+    let calls: number;
+
+    beforeAll(() => {
+      registerProvider("counting", () => ({
+        ...createFakeGateway(),
+        createPayment: async (payment: PaymentRequest) => ({
+          success: true,
+          paymentId: `${payment.reference}-${++calls}`,
+        }),
+        refundPayment: async () => ({
+          success: true,
+          refundId: `refund-${++calls}`,
+        }),
+      }));
+    });
+
+    afterAll(() => {
+      unregisterProvider("counting");
+    });
+
+    beforeEach(() => {
+      calls = 0;
+    });
+
+    it("should replay payments sent twice with the same reference", async () => {
+      const hub = new MultiPaymentGateway();
+      await hub.initialize("counting", configFor("sn"));
+
+      const first = await hub.createPayment(request);
+      const replay = await hub.createPayment({ ...request });
+
+      expect(replay).toEqual(first);
+      expect(calls).toBe(1);
+    });
+
+    it("should deduplicate by idempotency key", async () => {
+      const hub = new MultiPaymentGateway();
+      await hub.initialize("counting", configFor("sn"));
+
+      await hub.createPayment({ ...request, idempotencyKey: "attempt-1" });
+      await hub.createPayment({ ...request, idempotencyKey: "attempt-2" });
+      await hub.createPayment({ ...request, idempotencyKey: "attempt-2" });
+
+      expect(calls).toBe(2);
+    });
+
+    it("should reject a reference reused for another payment", async () => {
+      const hub = new MultiPaymentGateway();
+      await hub.initialize("counting", configFor("sn"));
+      await hub.createPayment(request);
+
+      await expect(
+        hub.createPayment({ ...request, amount: 2000 })
+      ).rejects.toThrow(DuplicateReferenceError);
+    });
+
+    it("should deduplicate refunds by idempotency key only", async () => {
+      const hub = new MultiPaymentGateway();
+      await hub.initialize("counting", configFor("sn"));
+
+      const [first, second] = await Promise.all([
+        hub.refundPayment("order-1-1", 500, { idempotencyKey: "first" }),
+        hub.refundPayment("order-1-1", 500, { idempotencyKey: "first" }),
+      ]);
+      await hub.refundPayment("order-1-1", 500);
+      await hub.refundPayment("order-1-1", 500);
+
+      expect(second).toEqual(first);
+      expect(calls).toBe(3);
+    });
+
+    it("should allow disabling idempotency", async () => {
+      const hub = new MultiPaymentGateway({ idempotency: false });
+      await hub.initialize("counting", configFor("sn"));
+
+      await hub.createPayment(request);
+      await hub.createPayment(request);
+
+      expect(calls).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { CircuitBreaker } from "../../../src/core/circuitBreaker";
+import { ProviderUnavailableError } from "../../../src/core/errors";
+import { CircuitStateChange } from "../../../src/types";
+import { jest, describe, it, beforeEach, expect } from "@jest/globals";
+
+const outage = { isAxiosError: true, response: { status: 503 } };
+const rejected = { isAxiosError: true, response: { status: 400 } };
+
+describe("CircuitBreaker", () => {
+  let now: number;
+  let changes: CircuitStateChange[];
+  let breaker: CircuitBreaker;
+
+  const fail = (error: unknown = outage) =>
+    breaker.execute(() => Promise.reject(error)).catch(() => undefined);
+
+  beforeEach(() => {
+    now = 0;
+    changes = [];
+    breaker = new CircuitBreaker(
+      "paytech",
+      {
+        failureThreshold: 3,
+        cooldownMs: 10000,
+        onStateChange: (change) => changes.push(change),
+      },
+      () => now
+    );
+  });
+
+  it("should open after consecutive failures", async () => {
+    await fail();
+    await fail();
+    expect(breaker.getState()).toBe("closed");
+
+    await fail();
+
+    expect(breaker.getHealth()).toEqual({
+      provider: "paytech",
+      state: "open",
+      available: false,
+      failures: 3,
+      openedAt: new Date(0),
+      retryAt: new Date(10000),
+    });
+  });
+
+  it("should fail fast while open", async () => {
+    for (let i = 0; i < 3; i++) await fail();
+    const call = jest.fn(async () => "ok");
+
+    await expect(breaker.execute(call)).rejects.toThrow(
+      ProviderUnavailableError
+    );
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it("should not count rejected requests as failures", async () => {
+    for (let i = 0; i < 5; i++) await fail(rejected);
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.getHealth().failures).toBe(0);
+  });
+
+  it("should close after a successful trial call", async () => {
+    for (let i = 0; i < 3; i++) await fail();
+    now = 10000;
+
+    expect(breaker.getState()).toBe("half_open");
+    await expect(breaker.execute(async () => "ok")).resolves.toBe("ok");
+
+    expect(breaker.getState()).toBe("closed");
+    expect(changes.map(({ to }) => to)).toEqual([
+      "open",
+      "half_open",
+      "closed",
+    ]);
+  });
+
+  it("should reopen after a failed trial call", async () => {
+    for (let i = 0; i < 3; i++) await fail();
+    now = 10000;
+
+    await fail();
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.getHealth().retryAt).toEqual(new Date(20000));
+  });
+
+  it("should let a single trial call through", async () => {
+    for (let i = 0; i < 3; i++) await fail();
+    now = 10000;
+
+    let release: (value: string) => void = () => undefined;
+    const trial = breaker.execute(
+      () => new Promise<string>((resolve) => (release = resolve))
+    );
+
+    await expect(breaker.execute(async () => "ok")).rejects.toThrow(
+      ProviderUnavailableError
+    );
+    release("ok");
+    await expect(trial).resolves.toBe("ok");
+  });
+
+  it("should let every call through when disabled", async () => {
+    breaker = new CircuitBreaker("paytech", false);
+
+    for (let i = 0; i < 10; i++) await fail();
+
+    expect(breaker.getState()).toBe("closed");
+  });
+});
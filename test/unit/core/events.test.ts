@@ -0,0 +1,131 @@
+import { WebhookEventEmitter } from "../../../src/core/events";
+import {
+  EventHandlerError,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../../src/types";
+import { jest, describe, it, expect } from "@jest/globals";
+
+const paymentSuccess: WebhookEvent = {
+  type: WebhookEventType.PAYMENT_SUCCESS,
+  data: {
+    reference: "order-1",
+    paymentId: "token-1",
+    amount: 5000,
+    currency: "XOF",
+    status: TransactionStatus.COMPLETED,
+  },
+  createdAt: new Date(),
+  gatewayName: "paytech",
+};
+
+const refundSuccess: WebhookEvent = {
+  ...paymentSuccess,
+  type: WebhookEventType.REFUND_SUCCESS,
+  gatewayName: "cinetpay",
+};
+
+describe("WebhookEventEmitter", () => {
+  it("should dispatch events to the listeners of their type", async () => {
+    const emitter = new WebhookEventEmitter();
+    const payments: string[] = [];
+    const refunds = jest.fn();
+
+    emitter.on(WebhookEventType.PAYMENT_SUCCESS, (event) => {
+      // event.data is narrowed to the payment event data
+      payments.push(event.data.paymentId);
+    });
+    emitter.on(WebhookEventType.REFUND_SUCCESS, refunds);
+
+    const result = await emitter.emit(paymentSuccess);
+
+    expect(payments).toEqual(["token-1"]);
+    expect(refunds).not.toHaveBeenCalled();
+    expect(result).toEqual({ listeners: 1, errors: [] });
+  });
+
+  it("should dispatch every event to wildcard listeners", async () => {
+    const emitter = new WebhookEventEmitter();
+    const types: string[] = [];
+
+    emitter.on("*", (event) => void types.push(event.type));
+
+    await emitter.emit(paymentSuccess);
+    await emitter.emit(refundSuccess);
+
+    expect(types).toEqual(["payment.success", "refund.success"]);
+  });
+
+  it("should filter events by provider and alias", async () => {
+    const emitter = new WebhookEventEmitter();
+    const byProvider = jest.fn();
+    const byAlias = jest.fn();
+
+    emitter.on("*", byProvider, { provider: "cinetpay" });
+    emitter.on("*", byAlias, { alias: ["paytech-sn", "paytech-ci"] });
+
+    await emitter.emit(paymentSuccess, "paytech-sn");
+    await emitter.emit(refundSuccess, "cinetpay-ci");
+
+    expect(byProvider).toHaveBeenCalledTimes(1);
+    expect(byProvider).toHaveBeenCalledWith(refundSuccess);
+    expect(byAlias).toHaveBeenCalledTimes(1);
+    expect(byAlias).toHaveBeenCalledWith(paymentSuccess);
+  });
+
+  it("should wait for async listeners", async () => {
+    const emitter = new WebhookEventEmitter();
+    let fulfilled = false;
+
+    emitter.on(WebhookEventType.PAYMENT_SUCCESS, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      fulfilled = true;
+    });
+
+    await emitter.emit(paymentSuccess);
+
+    expect(fulfilled).toBe(true);
+  });
+
+  it("should isolate and report failing listeners", async () => {
+    const failures: EventHandlerError[] = [];
+    const emitter = new WebhookEventEmitter((failure) =>
+      failures.push(failure)
+    );
+    const email = jest.fn();
+    const crash = new Error("SMTP down");
+
+    emitter.on(WebhookEventType.PAYMENT_SUCCESS, async () => {
+      throw crash;
+    });
+    emitter.on(WebhookEventType.PAYMENT_SUCCESS, email);
+
+    const result = await emitter.emit(paymentSuccess, "paytech-sn");
+
+    expect(email).toHaveBeenCalled();
+    expect(result.listeners).toBe(2);
+    expect(result.errors).toEqual([
+      { event: paymentSuccess, alias: "paytech-sn", error: crash },
+    ]);
+    expect(failures).toEqual(result.errors);
+  });
+
+  it("should remove listeners", async () => {
+    const emitter = new WebhookEventEmitter();
+    const handler = jest.fn();
+    const once = jest.fn();
+
+    const unsubscribe = emitter.on("*", handler);
+    emitter.once(WebhookEventType.PAYMENT_SUCCESS, once);
+
+    await emitter.emit(paymentSuccess);
+    unsubscribe();
+    await emitter.emit(paymentSuccess);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(emitter.listenerCount()).toBe(0);
+    expect(emitter.off("*", handler)).toBe(false);
+  });
+});
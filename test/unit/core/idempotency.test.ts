@@ -0,0 +1,112 @@
+import {
+  IdempotencyLayer,
+  InMemoryIdempotencyStore,
+} from "../../../src/core/idempotency";
+import {
+  DuplicateReferenceError,
+  ProviderUnavailableError,
+} from "../../../src/core/errors";
+import { jest, describe, it, beforeEach, expect } from "@jest/globals";
+
+describe("idempotency", () => {
+  describe("InMemoryIdempotencyStore", () => {
+    it("should expire records", async () => {
+      let now = 0;
+      const store = new InMemoryIdempotencyStore(() => now);
+      const record = {
+        status: "completed" as const,
+        fingerprint: "f",
+        createdAt: new Date(),
+      };
+
+      expect(await store.setIfAbsent("key", record, 1000)).toBe(true);
+      expect(await store.setIfAbsent("key", record, 1000)).toBe(false);
+
+      now = 1000;
+
+      expect(await store.get("key")).toBeNull();
+      expect(await store.setIfAbsent("key", record, 1000)).toBe(true);
+    });
+  });
+
+  describe("IdempotencyLayer", () => {
+    let store: InMemoryIdempotencyStore;
+    let layer: IdempotencyLayer;
+
+    beforeEach(() => {
+      store = new InMemoryIdempotencyStore();
+      layer = new IdempotencyLayer({ store });
+    });
+
+    it("should replay completed operations", async () => {
+      const operation = jest.fn(async () => ({ paymentId: "tok" }));
+
+      const first = await layer.run("key", "f", operation);
+      const second = await layer.run("key", "f", operation);
+
+      expect(second).toEqual(first);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("should share operations running concurrently", async () => {
+      const operation = jest.fn(async () => ({ paymentId: "tok" }));
+
+      const results = await Promise.all([
+        layer.run("key", "f", operation),
+        layer.run("key", "f", operation),
+      ]);
+
+      expect(results[0]).toBe(results[1]);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject keys reused for another request", async () => {
+      await layer.run("key", "f", async () => "ok");
+
+      await expect(layer.run("key", "other", async () => "ok")).rejects.toThrow(
+        DuplicateReferenceError
+      );
+    });
+
+    it("should reject operations running in another process", async () => {
+      await store.set(
+        "key",
+        { status: "in_progress", fingerprint: "f", createdAt: new Date() },
+        1000
+      );
+
+      await expect(layer.run("key", "f", async () => "ok")).rejects.toThrow(
+        "A request with idempotency key key is already in progress"
+      );
+    });
+
+    it("should not record failed operations", async () => {
+      const operation = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new ProviderUnavailableError("down"))
+        .mockResolvedValueOnce("ok");
+
+      await expect(layer.run("key", "f", operation)).rejects.toThrow("down");
+
+      expect(await layer.run("key", "f", operation)).toBe("ok");
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep the key of operations whose outcome is unknown", async () => {
+      const timeout = new ProviderUnavailableError("timeout of 30000ms", {
+        cause: new Error("timeout of 30000ms exceeded"),
+      });
+      const operation = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(timeout)
+        .mockResolvedValueOnce("ok");
+
+      await expect(layer.run("key", "f", operation)).rejects.toBe(timeout);
+      await expect(layer.run("key", "f", operation)).rejects.toThrow(
+        "The outcome of the request with idempotency key key is unknown"
+      );
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(await store.get("key")).toMatchObject({ status: "unknown" });
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  Money,
+  assertAmountWithinLimits,
+  getCurrencyExponent,
+  parseMajorAmount,
+} from "../../../src/core/money";
+import { ValidationError } from "../../../src/core/errors";
+import { describe, it, expect } from "@jest/globals";
+
+describe("money", () => {
+  describe("getCurrencyExponent", () => {
+    it("should follow ISO 4217", () => {
+      expect(getCurrencyExponent("XOF")).toBe(0);
+      expect(getCurrencyExponent("xaf")).toBe(0);
+      expect(getCurrencyExponent("EUR")).toBe(2);
+      expect(getCurrencyExponent("TND")).toBe(3);
+    });
+  });
+
+  describe("Money", () => {
+    it("should convert major units exactly", () => {
+      expect(Money.fromMajor(19.99, "EUR").minor).toBe(1999);
+      expect(Money.fromMajor("0.29", "usd").minor).toBe(29);
+      expect(Money.fromMajor(5000, "XOF").minor).toBe(5000);
+      expect(Money.fromMajor("5000.00", "XOF").minor).toBe(5000);
+    });
+
+    it("should reject amounts more precise than the currency", () => {
+      expect(() => Money.fromMajor(10.5, "XOF")).toThrow(
+        new ValidationError(
+          "Invalid amount: XOF amounts have at most 0 decimals, got 10.5"
+        )
+      );
+      expect(() => Money.fromMajor(19.999, "EUR")).toThrow(ValidationError);
+      expect(() => Money.fromMajor("12abc", "EUR")).toThrow(
+        "Invalid amount: 12abc"
+      );
+      expect(() => Money.fromMinor(1.5, "EUR")).toThrow(ValidationError);
+    });
+
+    it("should format amounts with the precision of the currency", () => {
+      expect(Money.fromMinor(1999, "EUR").toString()).toBe("19.99");
+      expect(Money.fromMinor(5, "EUR").toString()).toBe("0.05");
+      expect(Money.fromMinor(-150, "EUR").toString()).toBe("-1.50");
+      expect(Money.fromMinor(5000, "XOF").toString()).toBe("5000");
+      expect(Money.fromMinor(1999, "EUR").toMajor()).toBe(19.99);
+    });
+
+    it("should add and subtract without floating point drift", () => {
+      const total = Money.fromMajor(0.1, "EUR").add(
+        Money.fromMajor(0.2, "EUR")
+      );
+
+      expect(total.toMajor()).toBe(0.3);
+      expect(total.subtract(Money.fromMajor(0.3, "EUR")).minor).toBe(0);
+      expect(total.equals(Money.fromMinor(30, "EUR"))).toBe(true);
+    });
+
+    it("should refuse to combine currencies", () => {
+      expect(() =>
+        Money.fromMajor(1, "EUR").compare(Money.fromMajor(1, "USD"))
+      ).toThrow("Currency mismatch: cannot combine EUR and USD amounts");
+    });
+  });
+
+  describe("parseMajorAmount", () => {
+    it("should parse provider amounts", () => {
+      expect(parseMajorAmount("5000", "XOF")).toBe(5000);
+      expect(parseMajorAmount(" 19.90 ", "EUR")).toBe(19.9);
+      expect(parseMajorAmount("12.5")).toBe(12.5);
+      expect(() => parseMajorAmount("12,5")).toThrow(ValidationError);
+    });
+  });
+
+  describe("assertAmountWithinLimits", () => {
+    const limits = { XOF: { min: 100, max: 1000000 }, EUR: { min: 0.5 } };
+
+    it("should accept amounts within the limits", () => {
+      expect(() =>
+        assertAmountWithinLimits(Money.fromMajor(100, "XOF"), limits, "paytech")
+      ).not.toThrow();
+      expect(() =>
+        assertAmountWithinLimits(Money.fromMajor(7, "USD"), limits, "paytech")
+      ).not.toThrow();
+    });
+
+    it("should reject amounts outside the limits", () => {
+      expect(() =>
+        assertAmountWithinLimits(
+          Money.fromMajor(0.49, "EUR"),
+          limits,
+          "paytech"
+        )
+      ).toThrow(
+        "Invalid amount: 0.49 EUR is below the paytech minimum of 0.5 EUR"
+      );
+      expect(() =>
+        assertAmountWithinLimits(
+          Money.fromMajor(2000000, "XOF"),
+          limits,
+          "paytech"
+        )
+      ).toThrow(
+        "Invalid amount: 2000000 XOF is above the paytech maximum of 1000000 XOF"
+      );
+      expect(() =>
+        assertAmountWithinLimits(Money.fromMajor(0, "XOF"), limits, "paytech")
+      ).toThrow("Invalid amount: 0 XOF");
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { createHmac } from "crypto";
+import {
+  decodeEncodedJson,
+  parseWebhookBody,
+  readWebhookPayload,
+  verifyBodySignature,
+} from "../../../src/core/payload";
+import { ValidationError } from "../../../src/core/errors";
+import { describe, it, expect } from "@jest/globals";
+
+describe("webhook payloads", () => {
+  describe("parseWebhookBody", () => {
+    it("should parse JSON bodies", () => {
+      expect(
+        parseWebhookBody(Buffer.from('{"token":"abc"}'), "application/json")
+      ).toEqual({ token: "abc" });
+    });
+
+    it("should parse form bodies", () => {
+      expect(
+        parseWebhookBody(
+          "type_event=sale_complete&item_price=5000&client_phone=%2B221770000000",
+          "application/x-www-form-urlencoded"
+        )
+      ).toEqual({
+        type_event: "sale_complete",
+        item_price: "5000",
+        client_phone: "+221770000000",
+      });
+    });
+
+    it("should detect JSON bodies without a content type", () => {
+      expect(parseWebhookBody('  {"token":"abc"}')).toEqual({ token: "abc" });
+    });
+
+    it("should return null for empty bodies", () => {
+      expect(parseWebhookBody("")).toBeNull();
+    });
+
+    it("should reject malformed JSON", () => {
+      expect(() => parseWebhookBody("{oops", "application/json")).toThrow(
+        new ValidationError("Malformed webhook payload")
+      );
+    });
+  });
+
+  describe("readWebhookPayload", () => {
+    it("should keep the received bytes of raw bodies", () => {
+      const { payload, rawBody } = readWebhookPayload("a=1", "");
+
+      expect(payload).toEqual({ a: "1" });
+      expect(rawBody).toEqual(Buffer.from("a=1"));
+    });
+
+    it("should pass parsed payloads through", () => {
+      expect(readWebhookPayload({ a: "1" })).toEqual({ payload: { a: "1" } });
+    });
+  });
+
+  describe("decodeEncodedJson", () => {
+    const metadata = { orderId: "123", note: "café & co" };
+    const json = JSON.stringify(metadata);
+
+    it("should decode plain JSON", () => {
+      expect(decodeEncodedJson(json)).toEqual(metadata);
+    });
+
+    it("should decode URL encoded JSON", () => {
+      expect(decodeEncodedJson(encodeURIComponent(json))).toEqual(metadata);
+    });
+
+    it("should decode base64 encoded JSON", () => {
+      expect(decodeEncodedJson(Buffer.from(json).toString("base64"))).toEqual(
+        metadata
+      );
+      expect(
+        decodeEncodedJson(Buffer.from(json).toString("base64url"))
+      ).toEqual(metadata);
+    });
+
+    it("should return undefined for other values", () => {
+      expect(decodeEncodedJson("order-123")).toBeUndefined();
+      expect(decodeEncodedJson("100%25")).toBeUndefined();
+    });
+  });
+
+  describe("verifyBodySignature", () => {
+    const body = Buffer.from('{"amount":5000.00}');
+    const hmac = () => createHmac("sha256", "secret").update(body);
+
+    it("should accept hex and base64 signatures over the exact bytes", () => {
+      expect(verifyBodySignature(body, hmac().digest("hex"), "secret")).toBe(
+        true
+      );
+      expect(verifyBodySignature(body, hmac().digest("base64"), "secret")).toBe(
+        true
+      );
+      expect(
+        verifyBodySignature(body, `sha256=${hmac().digest("hex")}`, "secret")
+      ).toBe(true);
+    });
+
+    it("should reject signatures over other bytes", () => {
+      const signature = hmac().digest("hex");
+
+      expect(verifyBodySignature('{"amount":5000}', signature, "secret")).toBe(
+        false
+      );
+      expect(verifyBodySignature(body, signature, "other")).toBe(false);
+      expect(verifyBodySignature(body, "", "secret")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FilePaymentStore,
+  InMemoryPaymentStore,
+  PaymentRecorder,
+} from "../../../src/core/persistence";
+import {
+  InvalidTransitionError,
+  ValidationError,
+} from "../../../src/core/errors";
+import {
+  PaymentRequest,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../../src/types";
+import { describe, it, beforeEach, afterEach, expect } from "@jest/globals";
+
+const NOW = Date.parse("2025-03-01T12:00:00Z");
+
+const gateway = { alias: "paytech-sn", provider: "paytech" };
+
+const request: PaymentRequest = {
+  amount: 5000,
+  currency: "XOF",
+  reference: "order-1",
+  description: "Order 1",
+  customerEmail: "customer@example.com",
+};
+
+const event: WebhookEvent = {
+  type: WebhookEventType.PAYMENT_SUCCESS,
+  data: {
+    reference: "order-1",
+    paymentId: "token-1",
+    status: TransactionStatus.COMPLETED,
+    gatewayReference: "TX-1",
+  },
+  createdAt: new Date(NOW),
+  gatewayName: "paytech",
+};
+
+describe("payment persistence", () => {
+  describe("PaymentRecorder", () => {
+    let now: number;
+    let store: InMemoryPaymentStore;
+    let recorder: PaymentRecorder;
+
+    beforeEach(() => {
+      now = NOW;
+      store = new InMemoryPaymentStore();
+      recorder = new PaymentRecorder({ store }, () => now);
+    });
+
+    it("should link the payment token to the reference", async () => {
+      await recorder.recordPayment(gateway, request, {
+        success: true,
+        paymentId: "token-1",
+        redirectUrl: "https://paytech.sn/payment/checkout/token-1",
+      });
+
+      const byReference = await recorder.find({ reference: "order-1" });
+      const byToken = await recorder.find({
+        alias: "paytech-sn",
+        paymentId: "token-1",
+      });
+
+      expect(byReference).toEqual(byToken);
+      expect(byReference).toMatchObject({
+        id: expect.stringMatching(/^pay_/),
+        provider: "paytech",
+        amount: 5000,
+        currency: "XOF",
+        status: TransactionStatus.PENDING,
+        history: [
+          {
+            status: TransactionStatus.PENDING,
+            source: "create",
+            at: new Date(NOW),
+          },
+        ],
+      });
+      expect(
+        await recorder.find({ alias: "cinetpay-ci", paymentId: "token-1" })
+      ).toBeNull();
+      await expect(recorder.find({ alias: "paytech-sn" })).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it("should record status transitions once", async () => {
+      await recorder.recordPayment(gateway, request, {
+        success: true,
+        paymentId: "token-1",
+      });
+
+      now += 1000;
+      await recorder.recordStatus(
+        gateway,
+        "token-1",
+        TransactionStatus.PENDING
+      );
+      await recorder.recordWebhook("paytech-sn", event);
+      await recorder.recordWebhook("paytech-sn", event);
+      now += 1000;
+      await recorder.recordStatus(
+        gateway,
+        "token-1",
+        TransactionStatus.COMPLETED
+      );
+
+      const payment = await recorder.find({ gatewayReference: "TX-1" });
+
+      expect(payment?.history).toEqual([
+        {
+          status: TransactionStatus.PENDING,
+          source: "create",
+          at: new Date(NOW),
+        },
+        {
+          from: TransactionStatus.PENDING,
+          status: TransactionStatus.COMPLETED,
+          source: "webhook",
+          at: new Date(NOW + 1000),
+        },
+      ]);
+      expect(payment?.updatedAt).toEqual(new Date(NOW + 2000));
+      expect(
+        await recorder.listWebhookEvents(payment?.id as string)
+      ).toHaveLength(1);
+    });
+
+    it("should record refunds and webhooks of unknown payments", async () => {
+      await recorder.recordWebhook("paytech-sn", event);
+      await recorder.recordRefund(gateway, "token-1", 2000, {
+        success: true,
+        refundId: "refund-1",
+        status: TransactionStatus.PARTIALLY_REFUNDED,
+      });
+      await recorder.recordRefund(
+        gateway,
+        "token-1",
+        2000,
+        {
+          success: true,
+          refundId: "refund-1",
+          status: TransactionStatus.PARTIALLY_REFUNDED,
+        },
+        { replayed: true }
+      );
+
+      expect(await recorder.find({ reference: "order-1" })).toMatchObject({
+        paymentId: "token-1",
+        status: TransactionStatus.PARTIALLY_REFUNDED,
+        refunds: [
+          {
+            refundId: "refund-1",
+            amount: 2000,
+            status: TransactionStatus.PARTIALLY_REFUNDED,
+          },
+        ],
+      });
+    });
+
+    it("should track partial refunds against the payment amount", async () => {
+      await recorder.recordPayment(gateway, request, {
+        success: true,
+        paymentId: "token-1",
+      });
+      await recorder.recordWebhook("paytech-sn", event);
+
+      await expect(recorder.checkRefund(gateway, "token-1", 0)).rejects.toThrow(
+        "Invalid refund amount: 0"
+      );
+      expect(await recorder.checkRefund(gateway, "token-1")).toBeUndefined();
+      expect(await recorder.checkRefund(gateway, "token-1", 2000)).toBe(2000);
+      expect(
+        await recorder.recordRefund(
+          gateway,
+          "token-1",
+          2000,
+          {
+            success: true,
+            refundId: "refund-1",
+            status: TransactionStatus.PARTIALLY_REFUNDED,
+          },
+          { reason: "Damaged item" }
+        )
+      ).toMatchObject({
+        status: TransactionStatus.PARTIALLY_REFUNDED,
+        refundedAmount: 2000,
+        refundableAmount: 3000,
+      });
+
+      await expect(
+        recorder.checkRefund(gateway, "token-1", 3500)
+      ).rejects.toThrow(
+        "Refund amount exceeds the refundable balance: 3500 > 3000 XOF"
+      );
+      expect(await recorder.checkRefund(gateway, "token-1")).toBe(3000);
+      expect(
+        await recorder.recordRefund(gateway, "token-1", 3000, {
+          success: true,
+          refundId: "refund-2",
+          status: TransactionStatus.PARTIALLY_REFUNDED,
+        })
+      ).toMatchObject({
+        status: TransactionStatus.REFUNDED,
+        refundedAmount: 5000,
+        refundableAmount: 0,
+      });
+      await expect(recorder.checkRefund(gateway, "token-1")).rejects.toThrow(
+        "Payment already fully refunded"
+      );
+
+      const payment = await recorder.find({ paymentId: "token-1" });
+
+      expect(payment?.status).toBe(TransactionStatus.REFUNDED);
+      expect(payment?.refunds).toMatchObject([
+        {
+          refundId: "refund-1",
+          amount: 2000,
+          reason: "Damaged item",
+          status: TransactionStatus.PARTIALLY_REFUNDED,
+        },
+        {
+          refundId: "refund-2",
+          amount: 3000,
+          status: TransactionStatus.REFUNDED,
+        },
+      ]);
+      expect(payment?.history.map((change) => change.status)).toEqual([
+        TransactionStatus.PENDING,
+        TransactionStatus.COMPLETED,
+        TransactionStatus.PARTIALLY_REFUNDED,
+        TransactionStatus.REFUNDED,
+      ]);
+    });
+
+    it("should flag invalid transitions without applying them", async () => {
+      await recorder.recordPayment(gateway, request, {
+        success: true,
+        paymentId: "token-1",
+      });
+      await recorder.recordWebhook("paytech-sn", event);
+      await recorder.recordWebhook("paytech-sn", {
+        ...event,
+        type: WebhookEventType.PAYMENT_FAILED,
+        data: { ...event.data, status: TransactionStatus.FAILED },
+      });
+      await recorder.recordStatus(
+        gateway,
+        "token-1",
+        TransactionStatus.PENDING
+      );
+
+      const payment = await recorder.find({ paymentId: "token-1" });
+
+      expect(payment?.status).toBe(TransactionStatus.COMPLETED);
+      expect(payment?.history.slice(2)).toEqual([
+        {
+          from: TransactionStatus.COMPLETED,
+          status: TransactionStatus.FAILED,
+          source: "webhook",
+          at: new Date(NOW),
+          invalid: true,
+        },
+        {
+          from: TransactionStatus.COMPLETED,
+          status: TransactionStatus.PENDING,
+          source: "verify",
+          at: new Date(NOW),
+          invalid: true,
+        },
+      ]);
+    });
+
+    it("should reject invalid transitions when configured to", async () => {
+      recorder = new PaymentRecorder(
+        { store, invalidTransitions: "reject" },
+        () => now
+      );
+      await recorder.recordPayment(gateway, request, {
+        success: true,
+        paymentId: "token-1",
+      });
+      const failed: WebhookEvent = {
+        ...event,
+        type: WebhookEventType.PAYMENT_FAILED,
+        data: { ...event.data, status: TransactionStatus.FAILED },
+      };
+
+      await expect(recorder.checkWebhook("paytech-sn", failed)).resolves.toBe(
+        undefined
+      );
+      await expect(recorder.checkRefund(gateway, "token-1")).rejects.toThrow(
+        "Invalid payment status transition: pending to partially_refunded"
+      );
+
+      await recorder.recordWebhook("paytech-sn", event);
+
+      await expect(recorder.checkWebhook("paytech-sn", failed)).rejects.toThrow(
+        InvalidTransitionError
+      );
+      await expect(
+        recorder.recordStatus(gateway, "token-1", TransactionStatus.PENDING)
+      ).rejects.toThrow(InvalidTransitionError);
+      await expect(recorder.checkRefund(gateway, "token-1")).resolves.toBe(
+        undefined
+      );
+      expect((await recorder.find({ paymentId: "token-1" }))?.status).toBe(
+        TransactionStatus.COMPLETED
+      );
+    });
+
+    it("should list the pending payments created before a date", async () => {
+      for (const reference of ["order-1", "order-2", "order-3"]) {
+        await recorder.recordPayment(
+          gateway,
+          { ...request, reference },
+          { success: true, paymentId: `token-${reference}` }
+        );
+        now += 1000;
+      }
+      await recorder.recordStatus(
+        gateway,
+        "token-order-1",
+        TransactionStatus.COMPLETED
+      );
+
+      const pending = await recorder.listPending(new Date(NOW + 2000));
+
+      expect(pending.map((payment) => payment.reference)).toEqual(["order-2"]);
+    });
+
+    it("should keep the status of payments on unknown events", async () => {
+      await recorder.recordPayment(gateway, request, {
+        success: true,
+        paymentId: "token-1",
+      });
+      await recorder.recordWebhook("paytech-sn", {
+        ...event,
+        type: WebhookEventType.UNKNOWN,
+        data: { ...event.data, status: TransactionStatus.FAILED },
+      });
+
+      const payment = await recorder.find({ paymentId: "token-1" });
+
+      expect(payment?.status).toBe(TransactionStatus.PENDING);
+      expect(
+        await recorder.listWebhookEvents(payment?.id as string)
+      ).toHaveLength(1);
+    });
+
+    it("should settle refund webhooks against the payment amount", async () => {
+      const refund = (amount?: number): WebhookEvent => ({
+        ...event,
+        type: WebhookEventType.REFUND_SUCCESS,
+        data: { ...event.data, amount, status: TransactionStatus.REFUNDED },
+      });
+      await recorder.recordPayment(gateway, request, {
+        success: true,
+        paymentId: "token-1",
+      });
+
+      expect(
+        (await recorder.settleWebhook("paytech-sn", refund(2000))).data.status
+      ).toBe(TransactionStatus.PARTIALLY_REFUNDED);
+      expect(
+        (await recorder.settleWebhook("paytech-sn", refund(5000))).data.status
+      ).toBe(TransactionStatus.REFUNDED);
+      expect(
+        (await recorder.settleWebhook("paytech-sn", refund())).data.status
+      ).toBe(TransactionStatus.REFUNDED);
+      expect(
+        (await recorder.settleWebhook("cinetpay-ci", refund(2000))).data.status
+      ).toBe(TransactionStatus.REFUNDED);
+    });
+  });
+
+  describe("InMemoryPaymentStore", () => {
+    it("should forget the least recently updated payments beyond the maximum", async () => {
+      const recorder = new PaymentRecorder(
+        { store: new InMemoryPaymentStore(2) },
+        () => NOW
+      );
+
+      for (const reference of ["order-1", "order-2"]) {
+        await recorder.recordPayment(
+          gateway,
+          { ...request, reference },
+          { success: true, paymentId: `token-${reference}` }
+        );
+      }
+      await recorder.recordWebhook("paytech-sn", {
+        ...event,
+        data: { ...event.data, paymentId: "token-order-1" },
+      });
+      await recorder.recordPayment(
+        gateway,
+        { ...request, reference: "order-3" },
+        { success: true, paymentId: "token-order-3" }
+      );
+
+      expect(await recorder.find({ reference: "order-1" })).not.toBeNull();
+      expect(await recorder.find({ reference: "order-2" })).toBeNull();
+      expect(await recorder.find({ reference: "order-3" })).not.toBeNull();
+    });
+  });
+
+  describe("FilePaymentStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "payments-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should keep payments and webhook events across instances", async () => {
+      const filePath = join(directory, "data", "payments.json");
+      const recorder = new PaymentRecorder(
+        { store: new FilePaymentStore(filePath) },
+        () => NOW
+      );
+
+      await recorder.recordPayment(gateway, request, {
+        success: true,
+        paymentId: "token-1",
+      });
+      await recorder.recordWebhook("paytech-sn", event);
+
+      const reopened = new PaymentRecorder({
+        store: new FilePaymentStore(filePath),
+      });
+      const payment = await reopened.find({ paymentId: "token-1" });
+
+      expect(payment).toMatchObject({
+        reference: "order-1",
+        status: TransactionStatus.COMPLETED,
+        createdAt: new Date(NOW),
+      });
+      expect(payment?.history[0].at).toBeInstanceOf(Date);
+
+      const [record] = await reopened.listWebhookEvents(payment?.id as string);
+
+      expect(record.event).toEqual(event);
+      expect(JSON.parse(await readFile(filePath, "utf8"))).toMatchObject({
+        payments: [{ id: payment?.id }],
+      });
+    });
+
+    it("should read the file again after a failed read", async () => {
+      const filePath = join(directory, "payments.json");
+      const store = new FilePaymentStore(filePath);
+      await writeFile(filePath, "{oops");
+
+      await expect(store.findPayment({ reference: "order-1" })).rejects.toThrow(
+        SyntaxError
+      );
+
+      await writeFile(
+        filePath,
+        JSON.stringify({ payments: [], webhookEvents: [] })
+      );
+
+      await expect(
+        store.findPayment({ reference: "order-1" })
+      ).resolves.toBeNull();
+    });
+  });
+});
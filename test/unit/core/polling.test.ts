@@ -0,0 +1,145 @@
+import { pollPaymentStatus } from "../../../src/core/polling";
+import {
+  AuthenticationError,
+  ProviderUnavailableError,
+  ValidationError,
+} from "../../../src/core/errors";
+import { PaymentPollProgress, TransactionStatus } from "../../../src/types";
+import {
+  jest,
+  describe,
+  it,
+  beforeEach,
+  afterEach,
+  expect,
+} from "@jest/globals";
+
+describe("pollPaymentStatus", () => {
+  let verify: jest.Mock<() => Promise<TransactionStatus>>;
+  let progress: PaymentPollProgress[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    verify = jest.fn(async () => TransactionStatus.PENDING);
+    progress = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should poll with a growing delay until the payment settles", async () => {
+    verify
+      .mockResolvedValueOnce(TransactionStatus.PENDING)
+      .mockResolvedValueOnce(TransactionStatus.PENDING)
+      .mockResolvedValueOnce(TransactionStatus.COMPLETED);
+
+    const result = pollPaymentStatus("token-1", verify, {
+      intervalMs: 1000,
+      backoff: 2,
+      onProgress: (update) => progress.push(update),
+    });
+    await jest.advanceTimersByTimeAsync(3000);
+
+    await expect(result).resolves.toEqual({
+      paymentId: "token-1",
+      status: TransactionStatus.COMPLETED,
+      timedOut: false,
+      source: "poll",
+      attempts: 3,
+      elapsedMs: 3000,
+    });
+    expect(progress.map((update) => update.nextDelayMs)).toEqual([
+      1000,
+      2000,
+      undefined,
+    ]);
+  });
+
+  it("should give up with the last status once the timeout expires", async () => {
+    const result = pollPaymentStatus("token-1", verify, {
+      timeoutMs: 2500,
+      intervalMs: 1000,
+      backoff: 1,
+      onProgress: (update) => progress.push(update),
+    });
+    await jest.advanceTimersByTimeAsync(2500);
+
+    await expect(result).resolves.toMatchObject({
+      status: TransactionStatus.PENDING,
+      timedOut: true,
+      attempts: 4,
+    });
+    expect(progress.map((update) => update.nextDelayMs)).toEqual([
+      1000,
+      1000,
+      500,
+      undefined,
+    ]);
+  });
+
+  it("should keep polling through transient errors only", async () => {
+    verify
+      .mockRejectedValueOnce(new ProviderUnavailableError("Paytech is down"))
+      .mockResolvedValueOnce(TransactionStatus.FAILED);
+
+    const result = pollPaymentStatus("token-1", verify, {
+      intervalMs: 1000,
+      onProgress: (update) => progress.push(update),
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toMatchObject({
+      status: TransactionStatus.FAILED,
+    });
+    expect(progress[0].error).toBeInstanceOf(ProviderUnavailableError);
+
+    verify.mockRejectedValueOnce(new AuthenticationError("Invalid API key"));
+
+    await expect(pollPaymentStatus("token-1", verify)).rejects.toThrow(
+      AuthenticationError
+    );
+  });
+
+  it("should stop early when a webhook reports the payment", async () => {
+    let notify: (status: TransactionStatus) => void = () => {};
+    const notified = new Promise<TransactionStatus>((resolve) => {
+      notify = resolve;
+    });
+
+    const result = pollPaymentStatus(
+      "token-1",
+      verify,
+      { intervalMs: 60000 },
+      notified
+    );
+    await jest.advanceTimersByTimeAsync(10);
+    notify(TransactionStatus.COMPLETED);
+
+    await expect(result).resolves.toMatchObject({
+      status: TransactionStatus.COMPLETED,
+      source: "webhook",
+      attempts: 1,
+    });
+  });
+
+  it("should reject once the signal aborts", async () => {
+    const controller = new AbortController();
+    const result = pollPaymentStatus("token-1", verify, {
+      signal: controller.signal,
+    });
+    const rejection = expect(result).rejects.toThrow("Checkout closed");
+
+    await jest.advanceTimersByTimeAsync(10);
+    controller.abort(new Error("Checkout closed"));
+
+    await rejection;
+    expect(verify).toHaveBeenCalledTimes(1);
+    await expect(
+      pollPaymentStatus("token-1", verify, { signal: controller.signal })
+    ).rejects.toThrow("Checkout closed");
+    await expect(
+      pollPaymentStatus("token-1", verify, { backoff: 0.5 })
+    ).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  PaymentReconciler,
+  ProviderPayment,
+} from "../../../src/core/reconciliation";
+import {
+  NotFoundError,
+  ProviderUnavailableError,
+  ValidationError,
+} from "../../../src/core/errors";
+import {
+  PaymentRecord,
+  ReconciliationResult,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../../src/types";
+import {
+  jest,
+  describe,
+  it,
+  beforeEach,
+  afterEach,
+  expect,
+} from "@jest/globals";
+
+const NOW = Date.parse("2025-03-01T12:00:00Z");
+
+function pendingPayment(paymentId: string, alias = "paytech-sn") {
+  return {
+    id: `pay_${paymentId}`,
+    alias,
+    provider: "paytech",
+    reference: `order-${paymentId}`,
+    paymentId,
+    amount: 5000,
+    currency: "XOF",
+    status: TransactionStatus.PENDING,
+    history: [],
+    refunds: [],
+    createdAt: new Date(NOW - 60 * 60 * 1000),
+    updatedAt: new Date(NOW - 60 * 60 * 1000),
+  } as PaymentRecord;
+}
+
+describe("PaymentReconciler", () => {
+  let provider: Record<string, ProviderPayment | Error>;
+  let dispatched: WebhookEvent[];
+  let listPending: jest.Mock<(createdBefore: Date) => Promise<PaymentRecord[]>>;
+  let reconciler: PaymentReconciler;
+
+  beforeEach(() => {
+    provider = {};
+    dispatched = [];
+    listPending = jest.fn(async () => [
+      pendingPayment("token-1"),
+      pendingPayment("token-2"),
+      pendingPayment("token-3"),
+      pendingPayment("token-4"),
+      pendingPayment("token-5", "cinetpay-ci"),
+    ]);
+    reconciler = new PaymentReconciler(
+      {
+        listPending,
+        lookup: async (alias, paymentId) => {
+          const found = provider[paymentId];
+          if (found instanceof Error) {
+            throw found;
+          }
+          return found;
+        },
+        dispatch: async (event) => {
+          dispatched.push(event);
+        },
+      },
+      () => NOW
+    );
+  });
+
+  it("should report mismatches and dispatch the status changes found", async () => {
+    provider["token-1"] = {
+      status: TransactionStatus.COMPLETED,
+      amount: 5000,
+      currency: "XOF",
+      gatewayReference: "TX-1",
+      gatewayName: "paytech",
+    };
+    provider["token-2"] = {
+      status: TransactionStatus.COMPLETED,
+      amount: 4000,
+      currency: "XOF",
+      gatewayName: "paytech",
+    };
+    provider["token-3"] = new NotFoundError("Payment not found");
+    provider["token-4"] = new ProviderUnavailableError("Paytech is down");
+    const reported: ReconciliationResult[] = [];
+
+    const results = await reconciler.run(
+      { minIntervalMs: 0, onMismatch: (result) => reported.push(result) },
+      "paytech-sn"
+    );
+
+    expect(listPending).toHaveBeenCalledWith(new Date(NOW - 5 * 60 * 1000));
+    expect(results.map((result) => result.mismatches)).toEqual([
+      ["status"],
+      ["status", "amount"],
+      ["not_found"],
+      [],
+    ]);
+    expect(results[0]).toMatchObject({
+      alias: "paytech-sn",
+      paymentId: "token-1",
+      status: TransactionStatus.PENDING,
+      providerStatus: TransactionStatus.COMPLETED,
+    });
+    // Paid for another amount, so reported without being fulfilled
+    expect(results[1]).toMatchObject({ amount: 5000, providerAmount: 4000 });
+    expect(results[1].event).toBeUndefined();
+    expect(results[3].error).toBeInstanceOf(ProviderUnavailableError);
+    expect(reported).toHaveLength(4);
+    expect(dispatched).toEqual([
+      {
+        type: WebhookEventType.PAYMENT_SUCCESS,
+        data: {
+          reference: "order-token-1",
+          paymentId: "token-1",
+          amount: 5000,
+          currency: "XOF",
+          status: TransactionStatus.COMPLETED,
+          gatewayReference: "TX-1",
+        },
+        createdAt: new Date(NOW),
+        gatewayName: "paytech",
+        synthetic: true,
+      },
+    ]);
+    expect(results[0].event).toEqual(dispatched[0]);
+  });
+
+  it("should only dispatch changes the state machine allows", async () => {
+    provider["token-1"] = {
+      status: TransactionStatus.FAILED,
+      gatewayName: "paytech",
+    };
+    provider["token-2"] = {
+      status: TransactionStatus.CANCELED,
+      gatewayName: "paytech",
+    };
+
+    const results = await reconciler.run({
+      payments: [
+        {
+          alias: "paytech-sn",
+          paymentId: "token-1",
+          status: TransactionStatus.COMPLETED,
+        },
+      ],
+      minIntervalMs: 0,
+    });
+    const silent = await reconciler.run({
+      payments: [{ alias: "paytech-sn", paymentId: "token-2" }],
+      minIntervalMs: 0,
+      dispatch: false,
+    });
+
+    expect(listPending).not.toHaveBeenCalled();
+    expect(results[0]).toMatchObject({
+      mismatches: ["status"],
+      providerStatus: TransactionStatus.FAILED,
+    });
+    expect(silent[0].mismatches).toEqual(["status"]);
+    expect(dispatched).toEqual([]);
+    await expect(reconciler.run({ concurrency: 0 })).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  describe("limits", () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should limit and space the provider calls", async () => {
+      const startedAt: number[] = [];
+      let inFlight = 0;
+      let maxInFlight = 0;
+      reconciler = new PaymentReconciler({
+        listPending,
+        lookup: async () => {
+          startedAt.push(Date.now() - NOW);
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5000));
+          inFlight--;
+          return { status: TransactionStatus.PENDING, gatewayName: "paytech" };
+        },
+        dispatch: async () => undefined,
+      });
+
+      const results = reconciler.run({
+        payments: ["token-1", "token-2", "token-3", "token-4"].map(
+          (paymentId) => ({ alias: "paytech-sn", paymentId })
+        ),
+        concurrency: 2,
+        minIntervalMs: 1000,
+      });
+      await jest.advanceTimersByTimeAsync(20000);
+
+      expect(await results).toHaveLength(4);
+      expect(startedAt).toEqual([0, 1000, 5000, 6000]);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  MultiPaymentGateway,
+  PaymentGateway,
+  PaymentProvider,
+  TransactionStatus,
+  WebhookEventType,
+  registerProvider,
+  unregisterProvider,
+  getRegisteredProviders,
+  isProviderRegistered,
+} from "../../../src";
+import { jest, describe, it, afterEach, expect } from "@jest/globals";
+
+/**
+ * Minimal in-house gateway used to exercise the registry
+ */
+function createBankGateway(): PaymentGateway {
+  return {
+    initialize: jest.fn(async () => true),
+    createPayment: jest.fn(async () => ({
+      success: true,
+      paymentId: "bank-1",
+      status: TransactionStatus.PENDING,
+    })),
+    verifyPayment: jest.fn(async () => TransactionStatus.COMPLETED),
+    refundPayment: jest.fn(async () => ({ success: true })),
+    validateWebhook: jest.fn(async () => ({ isValid: true })),
+    processWebhook: jest.fn(async () => ({
+      type: WebhookEventType.PAYMENT_SUCCESS,
+      data: { reference: "ref", status: TransactionStatus.COMPLETED },
+      createdAt: new Date(),
+      gatewayName: "regional-bank",
+    })),
+  };
+}
+
+const config = {
+  apiKey: "key",
+  apiSecret: "secret",
+  environment: "test" as const,
+};
+
+describe("provider registry", () => {
+  afterEach(() => {
+    unregisterProvider("regional-bank");
+  });
+
+  it("should register the built-in providers", () => {
+    expect(getRegisteredProviders()).toEqual(
+      expect.arrayContaining([
+        PaymentProvider.PAYTECH,
+        PaymentProvider.CINETPAY,
+        PaymentProvider.MONEY_FUSION,
+      ])
+    );
+  });
+
+  it("should initialize a third-party provider by name", async () => {
+    const factory = jest.fn(createBankGateway);
+    registerProvider("regional-bank", factory);
+
+    const hub = new MultiPaymentGateway();
+    await hub.initialize("regional-bank", config);
+
+    const result = await hub.createPayment({
+      amount: 1000,
+      currency: "XOF",
+      reference: "order-1",
+      description: "Order 1",
+    });
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(hub.getProvider()).toBe("regional-bank");
+    expect(result.paymentId).toBe("bank-1");
+  });
+
+  it("should refuse duplicate registrations unless overridden", () => {
+    registerProvider("regional-bank", createBankGateway);
+
+    expect(() => registerProvider("regional-bank", createBankGateway)).toThrow(
+      "Payment provider already registered: regional-bank"
+    );
+    expect(() =>
+      registerProvider("regional-bank", createBankGateway, { override: true })
+    ).not.toThrow();
+  });
+
+  it("should list registered providers for unknown providers", async () => {
+    const hub = new MultiPaymentGateway();
+
+    await expect(hub.initialize("unknown", config)).rejects.toThrow(
+      "Unsupported payment provider: unknown. Registered providers: paytech, cinetpay, moneyfusion"
+    );
+  });
+
+  it("should unregister providers", () => {
+    registerProvider("regional-bank", createBankGateway);
+
+    expect(unregisterProvider("regional-bank")).toBe(true);
+    expect(isProviderRegistered("regional-bank")).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  InMemoryWebhookReplayStore,
+  WebhookReplayGuard,
+  getWebhookDeliveryKey,
+} from "../../../src/core/replay";
+import {
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../../src/types";
+import { describe, it, expect } from "@jest/globals";
+
+const NOW = Date.parse("2025-03-01T12:00:00Z");
+
+const event: WebhookEvent = {
+  type: WebhookEventType.PAYMENT_SUCCESS,
+  data: {
+    reference: "order-1",
+    paymentId: "token-1",
+    status: TransactionStatus.COMPLETED,
+    gatewayReference: "TX-1",
+  },
+  createdAt: new Date(NOW - 60 * 1000),
+  gatewayName: "paytech",
+};
+
+describe("webhook replay protection", () => {
+  describe("InMemoryWebhookReplayStore", () => {
+    it("should record deliveries until they expire", async () => {
+      let now = NOW;
+      const store = new InMemoryWebhookReplayStore(() => now);
+
+      expect(await store.add("key", 1000)).toBe(true);
+      expect(await store.add("key", 1000)).toBe(false);
+      expect(await store.has("key")).toBe(true);
+
+      now += 1000;
+      expect(await store.has("key")).toBe(false);
+    });
+  });
+
+  describe("getWebhookDeliveryKey", () => {
+    it("should tell apart event types and refunds of a payment", () => {
+      const key = getWebhookDeliveryKey(event);
+      const refund: WebhookEvent = {
+        ...event,
+        type: WebhookEventType.REFUND_SUCCESS,
+      };
+
+      expect(getWebhookDeliveryKey({ ...event, createdAt: new Date() })).toBe(
+        key
+      );
+      expect(getWebhookDeliveryKey(refund)).not.toBe(key);
+      expect(
+        getWebhookDeliveryKey({
+          ...refund,
+          data: { ...refund.data, gatewayReference: "TX-2" },
+        })
+      ).not.toBe(getWebhookDeliveryKey(refund));
+    });
+
+    it("should match status lookups reporting another provider reference", () => {
+      expect(
+        getWebhookDeliveryKey({
+          ...event,
+          data: { ...event.data, gatewayReference: "OPERATOR-1" },
+          synthetic: true,
+        })
+      ).toBe(getWebhookDeliveryKey(event));
+    });
+  });
+
+  describe("WebhookReplayGuard", () => {
+    it("should flag deliveries that were already dispatched", async () => {
+      const guard = new WebhookReplayGuard({}, () => NOW);
+
+      expect(await guard.check(event)).toEqual({ isValid: true });
+      expect(await guard.claim(event)).toBe(true);
+      expect(await guard.claim(event)).toBe(false);
+      expect(await guard.check(event)).toEqual({
+        isValid: true,
+        duplicate: true,
+        reason: "Duplicate webhook delivery",
+      });
+    });
+
+    it("should process released deliveries again", async () => {
+      const guard = new WebhookReplayGuard({}, () => NOW);
+
+      await guard.claim(event);
+      await guard.release(event);
+
+      expect(await guard.claim(event)).toBe(true);
+    });
+
+    it("should reject webhooks outside the tolerance window", async () => {
+      const guard = new WebhookReplayGuard({ toleranceSeconds: 30 }, () => NOW);
+
+      expect(await guard.check(event)).toEqual({
+        isValid: false,
+        reason: "Webhook timestamp outside the tolerance window",
+      });
+      expect(
+        await guard.check({ ...event, createdAt: new Date(NOW + 10 * 1000) })
+      ).toEqual({ isValid: true });
+    });
+
+    it("should reject webhooks without a valid timestamp", async () => {
+      const guard = new WebhookReplayGuard({ toleranceSeconds: 30 }, () => NOW);
+      const invalid = {
+        isValid: false,
+        reason: "Missing or invalid webhook timestamp",
+      };
+
+      expect(
+        await guard.check({
+          ...event,
+          createdAt: new Date(NOW),
+          timestampMissing: true,
+        })
+      ).toEqual(invalid);
+      expect(
+        await guard.check({ ...event, createdAt: new Date("not a date") })
+      ).toEqual(invalid);
+      expect(
+        await new WebhookReplayGuard({}, () => NOW).check({
+          ...event,
+          createdAt: new Date("not a date"),
+        })
+      ).toEqual({ isValid: true });
+    });
+  });
+});
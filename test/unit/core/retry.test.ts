@@ -0,0 +1,191 @@
+import {
+  computeRetryDelay,
+  isRetryableError,
+  withRetry,
+} from "../../../src/core/retry";
+import { RetryAttempt } from "../../../src/types";
+import { jest, describe, it, expect } from "@jest/globals";
+
+const serverError = (status: number) => ({
+  isAxiosError: true,
+  response: { status, data: {} },
+});
+
+const socketReset = Object.assign(new Error("socket hang up"), {
+  code: "ECONNRESET",
+});
+
+describe("retry", () => {
+  describe("isRetryableError", () => {
+    it("should retry transient statuses and network errors", () => {
+      expect(isRetryableError(serverError(503))).toBe(true);
+      expect(isRetryableError(serverError(429))).toBe(true);
+      expect(isRetryableError(socketReset)).toBe(true);
+    });
+
+    it("should not retry client errors or unknown failures", () => {
+      expect(isRetryableError(serverError(400))).toBe(false);
+      expect(isRetryableError(new Error("Network error"))).toBe(false);
+    });
+
+    it("should use the statuses and codes of the policy", () => {
+      const policy = { retryableStatuses: [409], retryableErrorCodes: [] };
+
+      expect(isRetryableError(serverError(409), policy)).toBe(true);
+      expect(isRetryableError(serverError(503), policy)).toBe(false);
+      expect(isRetryableError(socketReset, policy)).toBe(false);
+    });
+  });
+
+  describe("computeRetryDelay", () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    it("should double the delay up to the cap", () => {
+      const delays = [1, 2, 3, 4, 5].map((attempt) =>
+        computeRetryDelay(attempt, { ...policy, jitter: "none" })
+      );
+
+      expect(delays).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it("should apply jitter", () => {
+      expect(computeRetryDelay(3, policy, () => 0.5)).toBe(200);
+      expect(
+        computeRetryDelay(3, { ...policy, jitter: "equal" }, () => 0.5)
+      ).toBe(300);
+    });
+  });
+
+  describe("withRetry", () => {
+    const policy = { baseDelayMs: 0 };
+
+    it("should retry until the call succeeds", async () => {
+      const call = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(socketReset)
+        .mockRejectedValueOnce(serverError(502))
+        .mockResolvedValueOnce("ok");
+
+      const result = await withRetry(call, {
+        provider: "paytech",
+        operation: "verifyPayment",
+        policy,
+      });
+
+      expect(result).toBe("ok");
+      expect(call).toHaveBeenCalledTimes(3);
+    });
+
+    it("should throw the last error once attempts are exhausted", async () => {
+      const call = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValue(serverError(503));
+
+      await expect(
+        withRetry(call, {
+          provider: "paytech",
+          operation: "verifyPayment",
+          policy: { ...policy, maxAttempts: 2 },
+        })
+      ).rejects.toEqual(serverError(503));
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only retry calls that are not idempotent when unprocessed", async () => {
+      const refused = Object.assign(new Error("connect ECONNREFUSED"), {
+        code: "ECONNREFUSED",
+      });
+      const call = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(refused)
+        .mockRejectedValueOnce(serverError(429))
+        .mockRejectedValueOnce(socketReset);
+      const options = {
+        provider: "paytech",
+        operation: "createPayment",
+        policy: { ...policy, maxAttempts: 5 },
+        idempotent: false,
+      };
+
+      await expect(withRetry(call, options)).rejects.toBe(socketReset);
+      expect(call).toHaveBeenCalledTimes(3);
+
+      call.mockRejectedValueOnce(serverError(503));
+
+      await expect(withRetry(call, options)).rejects.toEqual(serverError(503));
+      expect(call).toHaveBeenCalledTimes(4);
+    });
+
+    it("should cap the delay a provider asks for at the maximum delay", async () => {
+      const attempts: RetryAttempt[] = [];
+      const throttled = {
+        isAxiosError: true,
+        response: { status: 429, headers: { "retry-after": "3600" }, data: {} },
+      };
+      const call = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(throttled)
+        .mockResolvedValueOnce("ok");
+
+      await withRetry(call, {
+        provider: "paytech",
+        operation: "verifyPayment",
+        policy: {
+          baseDelayMs: 0,
+          maxDelayMs: 10,
+          onAttempt: (attempt) => attempts.push(attempt),
+        },
+      });
+
+      expect(attempts[0].delayMs).toBe(10);
+    });
+
+    it("should not retry when retries are disabled", async () => {
+      const call = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValue(socketReset);
+
+      await expect(
+        withRetry(call, {
+          provider: "paytech",
+          operation: "verifyPayment",
+          policy: false,
+        })
+      ).rejects.toBe(socketReset);
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report every attempt", async () => {
+      const attempts: RetryAttempt[] = [];
+      const call = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(socketReset)
+        .mockResolvedValueOnce("ok");
+
+      await withRetry(call, {
+        provider: "paytech",
+        operation: "verifyPayment",
+        policy: { ...policy, onAttempt: (attempt) => attempts.push(attempt) },
+      });
+
+      expect(attempts).toEqual([
+        {
+          provider: "paytech",
+          operation: "verifyPayment",
+          attempt: 1,
+          maxAttempts: 3,
+          error: socketReset,
+          willRetry: true,
+          delayMs: 0,
+        },
+        {
+          provider: "paytech",
+          operation: "verifyPayment",
+          attempt: 2,
+          maxAttempts: 3,
+          willRetry: false,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,594 @@
+import {
+  SubscriptionEngine,
+  addBillingPeriods,
+} from "../../../src/core/subscriptions";
+import {
+  NotFoundError,
+  ProviderUnavailableError,
+  ValidationError,
+} from "../../../src/core/errors";
+import {
+  PaymentRequest,
+  PaymentResponse,
+  SubscriptionRequest,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../../src/types";
+import { jest, describe, it, beforeEach, expect } from "@jest/globals";
+
+const NOW = Date.parse("2025-01-31T09:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const gateway = { alias: "paytech-sn", provider: "paytech" };
+
+const request: SubscriptionRequest = {
+  planName: "Premium",
+  amount: 5000,
+  currency: "XOF",
+  interval: "monthly",
+  customerEmail: "customer@example.com",
+  metadata: { customerId: "42" },
+};
+
+describe("subscriptions", () => {
+  describe("addBillingPeriods", () => {
+    const start = new Date("2024-01-31T09:00:00Z");
+
+    it("should keep the billing day within shorter months", () => {
+      expect(addBillingPeriods(start, "monthly", 1, 1).toISOString()).toBe(
+        "2024-02-29T09:00:00.000Z"
+      );
+      expect(addBillingPeriods(start, "monthly", 1, 2).toISOString()).toBe(
+        "2024-03-31T09:00:00.000Z"
+      );
+      expect(addBillingPeriods(start, "monthly", 3, 1).toISOString()).toBe(
+        "2024-04-30T09:00:00.000Z"
+      );
+    });
+
+    it("should add days, weeks and years", () => {
+      expect(addBillingPeriods(start, "daily", 1, 2).toISOString()).toBe(
+        "2024-02-02T09:00:00.000Z"
+      );
+      expect(addBillingPeriods(start, "weekly", 2, 1).toISOString()).toBe(
+        "2024-02-14T09:00:00.000Z"
+      );
+      expect(
+        addBillingPeriods(
+          new Date("2024-02-29T00:00:00Z"),
+          "yearly",
+          1,
+          1
+        ).toISOString()
+      ).toBe("2025-02-28T00:00:00.000Z");
+    });
+  });
+
+  describe("SubscriptionEngine", () => {
+    let now: number;
+    let events: WebhookEvent[];
+    let charge: jest.Mock<
+      (alias: string, request: PaymentRequest) => Promise<PaymentResponse>
+    >;
+    let engine: SubscriptionEngine;
+
+    beforeEach(() => {
+      now = NOW;
+      events = [];
+      charge = jest.fn(async (_alias: string, payment: PaymentRequest) => ({
+        success: true,
+        paymentId: `pay-${payment.reference}`,
+        redirectUrl: `https://pay.example.com/${payment.reference}`,
+        status: TransactionStatus.PENDING,
+      }));
+      engine = new SubscriptionEngine(
+        {},
+        {
+          charge,
+          emit: async (event) => void events.push(event),
+        },
+        () => now
+      );
+    });
+
+    const pay = async (id: string) => {
+      const subscription = await engine.get(id);
+
+      return await engine.recordPaymentEvent({
+        type: WebhookEventType.PAYMENT_SUCCESS,
+        data: {
+          reference: `${id}-${subscription?.cycle}`,
+          paymentId: subscription?.lastPaymentId,
+          status: TransactionStatus.COMPLETED,
+          metadata: { subscriptionId: id, cycle: subscription?.cycle },
+        },
+        createdAt: new Date(now),
+        gatewayName: "paytech",
+      });
+    };
+
+    it("should bill the first cycle when the subscription is created", async () => {
+      const response = await engine.create(request, gateway);
+
+      expect(response).toMatchObject({
+        success: true,
+        status: "active",
+        redirectUrl: expect.stringContaining("pay.example.com"),
+      });
+      expect(response.nextBillingDate?.toISOString()).toBe(
+        "2025-02-28T09:00:00.000Z"
+      );
+      expect(charge).toHaveBeenCalledWith("paytech-sn", {
+        amount: 5000,
+        currency: "XOF",
+        reference: `${response.subscriptionId}-1-1`,
+        description: "Premium (cycle 1)",
+        customerEmail: "customer@example.com",
+        metadata: {
+          customerId: "42",
+          subscriptionId: response.subscriptionId,
+          cycle: 1,
+        },
+      });
+      expect(events.map((event) => event.type)).toEqual([
+        WebhookEventType.SUBSCRIPTION_CREATED,
+        WebhookEventType.SUBSCRIPTION_PAYMENT,
+      ]);
+      expect(events[1].data).toMatchObject({
+        subscriptionId: response.subscriptionId,
+        paymentId: `pay-${response.subscriptionId}-1-1`,
+        cycle: 1,
+        status: TransactionStatus.PENDING,
+      });
+      expect(events[1].gatewayName).toBe("paytech");
+    });
+
+    it("should bill the next cycle once the current one is paid", async () => {
+      const { subscriptionId } = await engine.create(request, gateway);
+      const id = subscriptionId as string;
+      events = [];
+
+      now = Date.parse("2025-02-28T09:00:00Z");
+      expect(await engine.billDue()).toEqual([]);
+      expect(await engine.update(id, { proration: "immediate" })).toMatchObject(
+        { cycle: 1, awaitingPayment: true }
+      );
+      expect(charge).toHaveBeenCalledTimes(1);
+
+      expect(await pay(id)).toMatchObject({
+        cycle: 1,
+        awaitingPayment: undefined,
+      });
+      expect(await pay(id)).toBeNull();
+      expect(events[events.length - 1]).toMatchObject({
+        type: WebhookEventType.SUBSCRIPTION_PAYMENT,
+        data: {
+          subscriptionId: id,
+          paymentId: `pay-${id}-1-1`,
+          cycle: 1,
+          amount: 5000,
+          status: TransactionStatus.COMPLETED,
+        },
+      });
+
+      const [billed] = await engine.billDue();
+
+      expect(billed.subscription).toMatchObject({
+        cycle: 2,
+        awaitingPayment: true,
+      });
+    });
+
+    it("should not store subscriptions whose first payment fails", async () => {
+      charge.mockRejectedValueOnce(new ValidationError("Invalid amount"));
+
+      await expect(engine.create(request, gateway)).rejects.toThrow(
+        "Invalid amount"
+      );
+      expect(await engine.billDue()).toEqual([]);
+      expect(events).toEqual([]);
+    });
+
+    it("should retry failed cycles on the dunning schedule", async () => {
+      const { subscriptionId } = await engine.create(request, gateway);
+      await pay(subscriptionId as string);
+      events = [];
+
+      expect(await engine.billDue()).toEqual([]);
+
+      now = Date.parse("2025-02-28T09:00:00Z");
+      charge.mockRejectedValueOnce(
+        new ProviderUnavailableError("Paytech is down")
+      );
+      const [failed] = await engine.billDue();
+
+      expect(failed.error).toBeInstanceOf(ProviderUnavailableError);
+      expect(failed.subscription).toMatchObject({
+        status: "past_due",
+        failedAttempts: 1,
+        retryAt: new Date(now + DAY_MS),
+      });
+      expect(events.map((event) => event.type)).toEqual([
+        WebhookEventType.SUBSCRIPTION_FAILED,
+        WebhookEventType.SUBSCRIPTION_PAST_DUE,
+      ]);
+      expect(events[0].data).toMatchObject({
+        cycle: 2,
+        attempt: 1,
+        error: "Paytech is down",
+        status: TransactionStatus.FAILED,
+        subscriptionStatus: "past_due",
+      });
+      expect(await engine.billDue()).toEqual([]);
+
+      now += DAY_MS;
+      const [billed] = await engine.billDue();
+
+      expect(billed.payment?.paymentId).toBe(`pay-${subscriptionId}-2-2`);
+      expect(billed.subscription).toMatchObject({
+        status: "active",
+        cycle: 2,
+        failedAttempts: 1,
+        retryAt: undefined,
+        lastPaymentId: `pay-${subscriptionId}-2-2`,
+      });
+      expect(billed.subscription.nextBillingDate.toISOString()).toBe(
+        "2025-03-31T09:00:00.000Z"
+      );
+      expect(events[2].type).toBe(WebhookEventType.SUBSCRIPTION_PAYMENT);
+      expect(events[2].data.subscriptionStatus).toBe("active");
+    });
+
+    it("should retry cycles whose payment fails after it was created", async () => {
+      const { subscriptionId } = await engine.create(request, gateway);
+      const id = subscriptionId as string;
+      const outcome = (
+        type: WebhookEventType,
+        status: TransactionStatus,
+        cycle: unknown = 2,
+        attempt = 1
+      ): WebhookEvent => ({
+        type,
+        data: {
+          reference: `${id}-2-${attempt}`,
+          paymentId: `pay-${id}-2-${attempt}`,
+          status,
+          metadata: { subscriptionId: id, cycle },
+        },
+        createdAt: new Date(now),
+        gatewayName: "paytech",
+      });
+      const failed = outcome(
+        WebhookEventType.PAYMENT_FAILED,
+        TransactionStatus.FAILED
+      );
+      await pay(id);
+
+      now = Date.parse("2025-02-28T09:00:00Z");
+      await engine.billDue();
+      events = [];
+
+      expect(
+        await engine.recordPaymentEvent(
+          outcome(WebhookEventType.PAYMENT_FAILED, TransactionStatus.FAILED, 1)
+        )
+      ).toBeNull();
+      expect(await engine.recordPaymentEvent(failed)).toMatchObject({
+        status: "past_due",
+        cycle: 1,
+        nextBillingDate: new Date(now),
+        failedAttempts: 1,
+        retryAt: new Date(now + DAY_MS),
+      });
+      expect(await engine.recordPaymentEvent(failed)).toBeNull();
+      expect(events.map((event) => event.type)).toEqual([
+        WebhookEventType.SUBSCRIPTION_FAILED,
+        WebhookEventType.SUBSCRIPTION_PAST_DUE,
+      ]);
+      expect(events[0].data).toMatchObject({
+        cycle: 2,
+        error: "Payment failed",
+      });
+
+      now += DAY_MS;
+      const [retried] = await engine.billDue();
+
+      expect(charge).toHaveBeenLastCalledWith(
+        "paytech-sn",
+        expect.objectContaining({ reference: `${id}-2-2`, amount: 5000 })
+      );
+      expect(retried.subscription).toMatchObject({
+        status: "active",
+        cycle: 2,
+        failedAttempts: 1,
+      });
+
+      expect(
+        await engine.recordPaymentEvent(
+          outcome(
+            WebhookEventType.PAYMENT_SUCCESS,
+            TransactionStatus.COMPLETED,
+            2,
+            2
+          )
+        )
+      ).toMatchObject({ status: "active", cycle: 2, failedAttempts: 0 });
+    });
+
+    it("should expire subscriptions once every retry failed", async () => {
+      engine = new SubscriptionEngine(
+        { dunning: { retryDelaysMs: [DAY_MS] } },
+        { charge, emit: async (event) => void events.push(event) },
+        () => now
+      );
+      const { subscriptionId } = await engine.create(request, gateway);
+      await pay(subscriptionId as string);
+      events = [];
+      charge.mockRejectedValue(new ProviderUnavailableError("Paytech is down"));
+
+      now = Date.parse("2025-02-28T09:00:00Z");
+      await engine.billDue();
+      now += DAY_MS;
+      const [expired] = await engine.billDue();
+
+      expect(expired.subscription).toMatchObject({
+        status: "expired",
+        failedAttempts: 2,
+      });
+      expect(events.map((event) => event.type)).toEqual([
+        WebhookEventType.SUBSCRIPTION_FAILED,
+        WebhookEventType.SUBSCRIPTION_PAST_DUE,
+        WebhookEventType.SUBSCRIPTION_FAILED,
+        WebhookEventType.SUBSCRIPTION_EXPIRED,
+      ]);
+
+      now += 30 * DAY_MS;
+      expect(await engine.billDue()).toEqual([]);
+    });
+
+    it("should skip the cycles due while paused", async () => {
+      const { subscriptionId } = await engine.create(request, gateway);
+      const id = subscriptionId as string;
+      await pay(id);
+
+      expect(await engine.pause(id)).toMatchObject({
+        status: "paused",
+        pausedAt: new Date(NOW),
+      });
+      await expect(engine.pause(id)).rejects.toThrow(
+        "Cannot pause a paused subscription"
+      );
+
+      now = Date.parse("2025-03-15T09:00:00Z");
+      expect(await engine.billDue()).toEqual([]);
+
+      const resumed = await engine.resume(id);
+
+      expect(resumed).toMatchObject({ status: "active", pausedAt: undefined });
+      expect(resumed.nextBillingDate.getTime()).toBe(now);
+      await expect(engine.resume(id)).rejects.toThrow(ValidationError);
+
+      const [billed] = await engine.billDue();
+
+      expect(billed.subscription.cycle).toBe(2);
+      expect(billed.subscription.nextBillingDate.toISOString()).toBe(
+        "2025-04-15T09:00:00.000Z"
+      );
+      expect(events.map((event) => event.type)).toContain(
+        WebhookEventType.SUBSCRIPTION_PAUSED
+      );
+      expect(events.map((event) => event.type)).toContain(
+        WebhookEventType.SUBSCRIPTION_RESUMED
+      );
+    });
+
+    it("should apply changes from the next cycle without proration", async () => {
+      const { subscriptionId } = await engine.create(request, gateway);
+      await pay(subscriptionId as string);
+
+      const updated = await engine.update(subscriptionId as string, {
+        amount: 8000,
+        interval: "weekly",
+      });
+
+      expect(updated.nextBillingDate.toISOString()).toBe(
+        "2025-02-28T09:00:00.000Z"
+      );
+      expect(events[events.length - 1]).toMatchObject({
+        type: WebhookEventType.SUBSCRIPTION_UPDATED,
+        data: { amount: 8000, proration: "none" },
+      });
+
+      now = Date.parse("2025-02-28T09:00:00Z");
+      const [billed] = await engine.billDue();
+
+      expect(charge).toHaveBeenLastCalledWith(
+        "paytech-sn",
+        expect.objectContaining({ amount: 8000 })
+      );
+      expect(billed.subscription.nextBillingDate.toISOString()).toBe(
+        "2025-03-07T09:00:00.000Z"
+      );
+    });
+
+    it("should credit the unused period on immediate proration", async () => {
+      const { subscriptionId } = await engine.create(request, gateway);
+      const id = subscriptionId as string;
+      await pay(id);
+
+      // Half of the 28 days period paid on January 31st is left
+      now = Date.parse("2025-02-14T09:00:00Z");
+      const upgraded = await engine.update(id, {
+        amount: 10000,
+        proration: "immediate",
+      });
+
+      expect(charge).toHaveBeenLastCalledWith(
+        "paytech-sn",
+        expect.objectContaining({ amount: 7500, reference: `${id}-2-1` })
+      );
+      expect(upgraded).toMatchObject({ cycle: 2, credit: undefined });
+      expect(upgraded.nextBillingDate.toISOString()).toBe(
+        "2025-03-14T09:00:00.000Z"
+      );
+
+      // A downgrade right after billing leaves more credit than the new price
+      await pay(id);
+      const downgraded = await engine.update(id, {
+        amount: 2000,
+        proration: "immediate",
+      });
+
+      expect(charge).toHaveBeenCalledTimes(2);
+      expect(downgraded).toMatchObject({ cycle: 3, credit: 8000 });
+      expect(events[events.length - 1].data).toMatchObject({
+        amount: 0,
+        status: TransactionStatus.COMPLETED,
+      });
+    });
+
+    it("should switch plans of the same currency", async () => {
+      await engine.createPlan({
+        id: "premium-eur",
+        name: "Premium",
+        amount: 10,
+        currency: "EUR",
+        interval: "monthly",
+      });
+      const { subscriptionId } = await engine.create(request, gateway);
+
+      await expect(
+        engine.update(subscriptionId as string, { planId: "premium-eur" })
+      ).rejects.toThrow("Cannot switch a XOF subscription to a EUR plan");
+      await expect(
+        engine.update(subscriptionId as string, { planId: "missing" })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it("should start billing at the start date", async () => {
+      const response = await engine.create(
+        {
+          ...request,
+          interval: "weekly",
+          startDate: new Date(NOW + DAY_MS),
+        },
+        gateway
+      );
+
+      expect(response.redirectUrl).toBeUndefined();
+      expect(charge).not.toHaveBeenCalled();
+
+      now += DAY_MS;
+      const [billed] = await engine.billDue();
+
+      expect(billed.subscription.cycle).toBe(1);
+      expect(billed.subscription.nextBillingDate.getTime()).toBe(
+        NOW + 8 * DAY_MS
+      );
+    });
+
+    it("should expire subscriptions after their end date", async () => {
+      const { subscriptionId } = await engine.create(
+        {
+          ...request,
+          interval: "daily",
+          endDate: new Date(NOW + DAY_MS),
+        },
+        gateway
+      );
+      await pay(subscriptionId as string);
+
+      now += DAY_MS;
+      const [last] = await engine.billDue();
+      now += DAY_MS;
+
+      expect(last.subscription.status).toBe("expired");
+      expect(await engine.billDue()).toEqual([]);
+      expect(await engine.cancel(subscriptionId as string)).toBe(false);
+    });
+
+    it("should subscribe to plans", async () => {
+      await engine.createPlan({
+        id: "premium-quarterly",
+        name: "Premium quarterly",
+        amount: 12000,
+        currency: "XOF",
+        interval: "monthly",
+        intervalCount: 3,
+        metadata: { tier: "premium" },
+      });
+
+      const response = await engine.create(
+        { planId: "premium-quarterly", customerEmail: "customer@example.com" },
+        gateway
+      );
+      const subscription = await engine.get(response.subscriptionId as string);
+
+      expect(subscription).toMatchObject({
+        planId: "premium-quarterly",
+        planName: "Premium quarterly",
+        amount: 12000,
+        intervalCount: 3,
+        metadata: { tier: "premium" },
+      });
+      expect(response.nextBillingDate?.toISOString()).toBe(
+        "2025-04-30T09:00:00.000Z"
+      );
+      await expect(
+        engine.create({ planId: "missing", customerEmail: "a@b.c" }, gateway)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it("should reject invalid schedules", async () => {
+      await expect(
+        engine.create({ ...request, amount: 0 }, gateway)
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        engine.create({ ...request, intervalCount: 1.5 }, gateway)
+      ).rejects.toThrow("Invalid subscription interval count: 1.5");
+      await expect(
+        engine.createPlan({
+          id: "plan",
+          name: "Plan",
+          amount: 10.5,
+          currency: "XOF",
+          interval: "monthly",
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("should stop billing canceled subscriptions", async () => {
+      const { subscriptionId } = await engine.create(request, gateway);
+
+      expect(await engine.cancel(subscriptionId as string)).toBe(true);
+      expect(await engine.cancel(subscriptionId as string)).toBe(false);
+
+      now = Date.parse("2025-03-01T09:00:00Z");
+
+      expect(await engine.billDue()).toEqual([]);
+      expect(events.map((event) => event.type)).toContain(
+        WebhookEventType.SUBSCRIPTION_CANCELED
+      );
+      await expect(engine.cancel("sub_missing")).rejects.toThrow(NotFoundError);
+    });
+
+    it("should bill due subscriptions on a schedule", async () => {
+      jest.useFakeTimers();
+      try {
+        const { subscriptionId } = await engine.create(request, gateway);
+        await pay(subscriptionId as string);
+        now = Date.parse("2025-02-28T09:00:00Z");
+
+        const stop = engine.start(1000);
+        await jest.advanceTimersByTimeAsync(1000);
+        stop();
+        await jest.advanceTimersByTimeAsync(5000);
+
+        expect(charge).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
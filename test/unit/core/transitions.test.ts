@@ -0,0 +1,72 @@
+import {
+  TRANSACTION_TRANSITIONS,
+  assertTransition,
+  canTransition,
+} from "../../../src/core/transitions";
+import { InvalidTransitionError } from "../../../src/core/errors";
+import { TransactionStatus } from "../../../src/types";
+import { describe, it, expect } from "@jest/globals";
+
+describe("transaction state machine", () => {
+  it("should cover every status", () => {
+    expect(Object.keys(TRANSACTION_TRANSITIONS).sort()).toEqual(
+      Object.values(TransactionStatus).sort()
+    );
+  });
+
+  it("should allow payments to complete and then be refunded", () => {
+    expect(
+      canTransition(TransactionStatus.PENDING, TransactionStatus.COMPLETED)
+    ).toBe(true);
+    expect(
+      canTransition(
+        TransactionStatus.COMPLETED,
+        TransactionStatus.PARTIALLY_REFUNDED
+      )
+    ).toBe(true);
+    expect(
+      canTransition(
+        TransactionStatus.PARTIALLY_REFUNDED,
+        TransactionStatus.REFUNDED
+      )
+    ).toBe(true);
+    expect(
+      canTransition(TransactionStatus.FAILED, TransactionStatus.COMPLETED)
+    ).toBe(true);
+    expect(
+      canTransition(TransactionStatus.REFUNDED, TransactionStatus.REFUNDED)
+    ).toBe(true);
+  });
+
+  it("should refuse late or backward transitions", () => {
+    expect(
+      canTransition(TransactionStatus.COMPLETED, TransactionStatus.FAILED)
+    ).toBe(false);
+    expect(
+      canTransition(TransactionStatus.REFUNDED, TransactionStatus.PENDING)
+    ).toBe(false);
+    expect(
+      canTransition(TransactionStatus.PENDING, TransactionStatus.REFUNDED)
+    ).toBe(false);
+    expect(
+      canTransition(TransactionStatus.CANCELED, TransactionStatus.COMPLETED)
+    ).toBe(false);
+  });
+
+  it("should throw on invalid transitions", () => {
+    expect(() =>
+      assertTransition(
+        TransactionStatus.COMPLETED,
+        TransactionStatus.FAILED,
+        "paytech"
+      )
+    ).toThrow(
+      new InvalidTransitionError(
+        "Invalid payment status transition: completed to failed"
+      )
+    );
+    expect(() =>
+      assertTransition(TransactionStatus.PENDING, TransactionStatus.CANCELED)
+    ).not.toThrow();
+  });
+});
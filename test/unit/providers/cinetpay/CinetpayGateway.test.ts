@@ -0,0 +1,451 @@
+import { CinetpayGateway } from "../../../../src/providers/cinetpay/CinetpayGateway";
+import {
+  GatewayConfig,
+  PaymentRequest,
+  TransactionStatus,
+  WebhookEventType,
+} from "../../../../src/types";
+import axios from "axios";
+import {
+  AuthenticationError,
+  UnsupportedOperationError,
+  ValidationError,
+} from "../../../../src/core/errors";
+import {
+  CINETPAY_API_BASE_URL,
+  CINETPAY_ENDPOINTS,
+} from "../../../../src/providers/cinetpay/constants";
+import { createCinetpaySignature } from "../../../../src/providers/cinetpay/utils";
+import { jest, describe, it, beforeEach, expect } from "@jest/globals";
+import { createHmac } from "crypto";
+
+// Mock axios
+jest.mock("axios");
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+describe("CinetpayGateway", () => {
+  let gateway: CinetpayGateway;
+  let config: GatewayConfig;
+
+  beforeEach(() => {
+    // Reset mocks
+    jest.clearAllMocks();
+
+    // Create axios create mock
+    mockAxios.create.mockReturnValue(mockAxios);
+
+    // Set up a fresh gateway instance before each test
+    gateway = new CinetpayGateway();
+
+    // Prepare test configuration
+    config = {
+      apiKey: "test_api_key",
+      apiSecret: "test_secret_key",
+      environment: "test",
+      additionalConfig: {
+        siteId: "123456",
+      },
+    };
+  });
+
+  describe("initialize", () => {
+    it("should initialize the gateway with valid config", async () => {
+      const result = await gateway.initialize(config);
+
+      expect(result).toBe(true);
+      expect(mockAxios.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          baseURL: CINETPAY_API_BASE_URL,
+        })
+      );
+    });
+
+    it("should require a site ID", async () => {
+      await expect(
+        gateway.initialize({ ...config, additionalConfig: {} })
+      ).rejects.toThrow("additionalConfig.siteId is required");
+    });
+  });
+
+  describe("createPayment", () => {
+    const paymentRequest: PaymentRequest = {
+      amount: 5000,
+      currency: "XOF",
+      reference: "order-123",
+      description: "Test payment",
+      customerName: "Awa Kone Diallo",
+      customerEmail: "test@example.com",
+      returnUrl: "https://example.com/success",
+      webhookUrl: "https://example.com/webhook",
+      metadata: { orderId: "123" },
+    };
+
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should create a payment successfully", async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: {
+          code: "201",
+          message: "CREATED",
+          data: {
+            payment_token: "tok123",
+            payment_url: "https://checkout.cinetpay.com/payment/tok123",
+          },
+          api_response_id: "api-1",
+        },
+      });
+
+      const result = await gateway.createPayment(paymentRequest);
+
+      expect(result.success).toBe(true);
+      expect(result.redirectUrl).toBe(
+        "https://checkout.cinetpay.com/payment/tok123"
+      );
+      expect(result.token).toBe("tok123");
+      expect(result.paymentId).toBe("order-123");
+      expect(result.status).toBe(TransactionStatus.PENDING);
+
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        CINETPAY_ENDPOINTS.INIT_PAYMENT,
+        expect.objectContaining({
+          apikey: "test_api_key",
+          site_id: "123456",
+          transaction_id: "order-123",
+          amount: 5000,
+          currency: "XOF",
+          channels: "ALL",
+          customer_name: "Awa",
+          customer_surname: "Kone Diallo",
+          notify_url: "https://example.com/webhook",
+        })
+      );
+    });
+
+    it("should handle failed payment creation", async () => {
+      mockAxios.post.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: {
+          status: 400,
+          data: {
+            code: "608",
+            message: "MINIMUM_REQUIRED_FIELDS",
+            description: "Le champ amount est requis",
+          },
+        },
+      });
+
+      const error = await gateway.createPayment(paymentRequest).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toBe("Le champ amount est requis");
+      expect(error.providerCode).toBe("608");
+    });
+
+    it("should map rejected credentials to authentication errors", async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: { code: "609", message: "AUTH_NOT_FOUND" },
+      });
+
+      await expect(gateway.createPayment(paymentRequest)).rejects.toThrow(
+        AuthenticationError
+      );
+    });
+
+    it("should handle network errors", async () => {
+      mockAxios.post.mockRejectedValueOnce(new Error("Network error"));
+
+      await expect(gateway.createPayment(paymentRequest)).rejects.toMatchObject(
+        {
+          name: "ProviderUnavailableError",
+          message: "Payment request failed: Network error",
+        }
+      );
+    });
+
+    it("should reject amounts that are not a multiple of 5", async () => {
+      await expect(
+        gateway.createPayment({ ...paymentRequest, amount: 5001 })
+      ).rejects.toThrow("Invalid amount");
+    });
+
+    it("should reject amounts below the CinetPay minimum", async () => {
+      await expect(
+        gateway.createPayment({ ...paymentRequest, amount: 50 })
+      ).rejects.toThrow(
+        "Invalid amount: 50 XOF is below the cinetpay minimum of 100 XOF"
+      );
+    });
+
+    it("should apply the configured amount limits", async () => {
+      await gateway.initialize({
+        ...config,
+        amountLimits: { XOF: { max: 1000 } },
+      });
+
+      await expect(gateway.createPayment(paymentRequest)).rejects.toThrow(
+        "Invalid amount: 5000 XOF is above the cinetpay maximum of 1000 XOF"
+      );
+    });
+
+    it("should reject unsupported currencies", async () => {
+      await expect(
+        gateway.createPayment({ ...paymentRequest, currency: "MAD" })
+      ).rejects.toThrow("Unsupported currency");
+    });
+
+    it("should throw error if gateway is not initialized", async () => {
+      await expect(
+        new CinetpayGateway().createPayment(paymentRequest)
+      ).rejects.toThrow("Gateway not initialized");
+    });
+  });
+
+  describe("verifyPayment", () => {
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should verify an accepted payment", async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: {
+          code: "00",
+          message: "SUCCES",
+          data: { amount: "5000", currency: "XOF", status: "ACCEPTED" },
+        },
+      });
+
+      const status = await gateway.verifyPayment("order-123");
+
+      expect(status).toBe(TransactionStatus.COMPLETED);
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        CINETPAY_ENDPOINTS.CHECK_STATUS,
+        {
+          apikey: "test_api_key",
+          site_id: "123456",
+          transaction_id: "order-123",
+        }
+      );
+    });
+
+    it("should map waiting payments to pending", async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: {
+          code: "662",
+          message: "WAITING_CUSTOMER_PAYMENT",
+          data: { status: "WAITING_FOR_CUSTOMER" },
+        },
+      });
+
+      expect(await gateway.verifyPayment("order-123")).toBe(
+        TransactionStatus.PENDING
+      );
+    });
+
+    it("should map error codes returned with an HTTP error", async () => {
+      mockAxios.post.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: {
+          status: 400,
+          data: { code: "627", message: "TRANSACTION_CANCEL" },
+        },
+      });
+
+      expect(await gateway.verifyPayment("order-123")).toBe(
+        TransactionStatus.CANCELED
+      );
+    });
+
+    it("should throw API errors instead of mapping them to a status", async () => {
+      mockAxios.post.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: {
+          status: 403,
+          data: { code: "609", message: "AUTH_NOT_FOUND" },
+        },
+      });
+
+      await expect(gateway.verifyPayment("order-123")).rejects.toThrow(
+        AuthenticationError
+      );
+    });
+
+    it("should throw error for network issues", async () => {
+      mockAxios.post.mockRejectedValueOnce(new Error("Network error"));
+
+      await expect(gateway.verifyPayment("order-123")).rejects.toMatchObject({
+        name: "ProviderUnavailableError",
+        message: "Failed to verify payment: Network error",
+      });
+    });
+  });
+
+  describe("getTransaction", () => {
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should return the transaction details", async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: {
+          code: "00",
+          message: "SUCCES",
+          data: {
+            amount: "5000",
+            currency: "XOF",
+            status: "ACCEPTED",
+            payment_method: "OM",
+            description: "Order #123",
+            metadata: '{"orderId":"123"}',
+            operator_id: "MP220915.1234.A12345",
+            payment_date: "2022-09-15 12:34:56",
+          },
+        },
+      });
+
+      const transaction = await gateway.getTransaction("order-123");
+
+      expect(transaction).toMatchObject({
+        paymentId: "order-123",
+        reference: "order-123",
+        status: TransactionStatus.COMPLETED,
+        amount: 5000,
+        currency: "XOF",
+        paymentMethod: "OM",
+        gatewayReference: "MP220915.1234.A12345",
+        metadata: { orderId: "123" },
+        paidAt: new Date("2022-09-15 12:34:56"),
+        gatewayName: "cinetpay",
+      });
+    });
+
+    it("should report payment states returned with an HTTP error", async () => {
+      const body = { code: "627", message: "TRANSACTION_CANCEL" };
+      mockAxios.post.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: { status: 400, data: body },
+      });
+
+      const transaction = await gateway.getTransaction("order-123");
+
+      expect(transaction.status).toBe(TransactionStatus.CANCELED);
+      expect(transaction.raw).toEqual(body);
+    });
+  });
+
+  describe("refundPayment", () => {
+    it("should report refunds as unsupported", async () => {
+      await gateway.initialize(config);
+
+      await expect(gateway.refundPayment("order-123")).rejects.toThrow(
+        UnsupportedOperationError
+      );
+      expect(mockAxios.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("webhook handling", () => {
+    const payload = {
+      cpm_site_id: "123456",
+      cpm_trans_id: "order-123",
+      cpm_trans_date: "2023-01-01 12:00:00",
+      cpm_amount: "5000",
+      cpm_currency: "XOF",
+      signature: "sig",
+      payment_method: "OM",
+      cel_phone_num: "0700000000",
+      cpm_phone_prefixe: "225",
+      cpm_custom: JSON.stringify({ orderId: "123" }),
+      cpm_result: "00",
+      cpm_error_message: "SUCCES",
+      cpm_payid: "cp-789",
+    };
+
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should validate a correctly signed notification", async () => {
+      const token = createCinetpaySignature(payload, "test_secret_key");
+
+      const result = await gateway.validateWebhook(payload, {
+        "x-token": token,
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should reject a notification with an invalid token", async () => {
+      const result = await gateway.validateWebhook(payload, {
+        "x-token": "forged",
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.reason).toBe("Invalid signature");
+    });
+
+    it("should check the signature over the raw body when required", async () => {
+      await gateway.initialize({
+        ...config,
+        webhookSignature: {
+          secret: "relay_secret",
+          header: "x-relay-signature",
+        },
+      });
+      const body = JSON.stringify(payload);
+      const altered = JSON.stringify({ ...payload, cpm_amount: "9000" });
+      const headers = {
+        "x-token": createCinetpaySignature(payload, "test_secret_key"),
+        "x-relay-signature": createHmac("sha256", "relay_secret")
+          .update(body)
+          .digest("base64"),
+      };
+
+      expect(
+        await gateway.validateWebhook(payload, headers, Buffer.from(body))
+      ).toEqual({ isValid: true });
+      expect(
+        await gateway.validateWebhook(
+          JSON.parse(altered),
+          headers,
+          Buffer.from(altered)
+        )
+      ).toEqual({ isValid: false, reason: "Invalid signature" });
+    });
+
+    it("should reject a notification for another site", async () => {
+      const result = await gateway.validateWebhook(
+        { ...payload, cpm_site_id: "999" },
+        {}
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.reason).toBe("Site ID mismatch");
+    });
+
+    it("should process a successful payment notification", async () => {
+      const event = await gateway.processWebhook(payload);
+
+      expect(event.type).toBe(WebhookEventType.PAYMENT_SUCCESS);
+      expect(event.data.reference).toBe("order-123");
+      expect(event.data.amount).toBe(5000);
+      expect(event.data.status).toBe(TransactionStatus.COMPLETED);
+      expect(event.data.gatewayReference).toBe("cp-789");
+      expect(event.data.metadata).toEqual({ orderId: "123" });
+      expect(event.data.customerPhone).toBe("2250700000000");
+      expect(event.gatewayName).toBe("cinetpay");
+    });
+
+    it("should process a canceled payment notification", async () => {
+      const event = await gateway.processWebhook({
+        ...payload,
+        cpm_result: "627",
+        cpm_error_message: "TRANSACTION_CANCEL",
+      });
+
+      expect(event.type).toBe(WebhookEventType.PAYMENT_CANCELED);
+      expect(event.data.status).toBe(TransactionStatus.CANCELED);
+    });
+  });
+});
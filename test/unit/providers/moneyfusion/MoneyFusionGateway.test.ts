@@ -0,0 +1,378 @@
+import { MoneyFusionGateway } from "../../../../src/providers/moneyfusion/MoneyFusionGateway";
+import {
+  GatewayConfig,
+  PaymentRequest,
+  TransactionStatus,
+  WebhookEventType,
+} from "../../../../src/types";
+import axios from "axios";
+import {
+  NotFoundError,
+  PaymentError,
+  UnsupportedOperationError,
+  ValidationError,
+} from "../../../../src/core/errors";
+import { MONEY_FUSION_ENDPOINTS } from "../../../../src/providers/moneyfusion/constants";
+import { jest, describe, it, beforeEach, expect } from "@jest/globals";
+import { createHmac } from "crypto";
+
+// Mock axios
+jest.mock("axios");
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+const API_URL = "https://www.pay.moneyfusion.net/merchant/abc/pay/";
+
+describe("MoneyFusionGateway", () => {
+  let gateway: MoneyFusionGateway;
+  let config: GatewayConfig;
+
+  beforeEach(() => {
+    // Reset mocks
+    jest.clearAllMocks();
+
+    // Create axios create mock
+    mockAxios.create.mockReturnValue(mockAxios);
+
+    // Set up a fresh gateway instance before each test
+    gateway = new MoneyFusionGateway();
+
+    // Prepare test configuration
+    config = {
+      apiKey: "unused",
+      apiSecret: "unused",
+      environment: "test",
+      additionalConfig: {
+        apiUrl: API_URL,
+        defaultWebhookUrl: "https://example.com/webhook",
+      },
+    };
+  });
+
+  describe("initialize", () => {
+    it("should initialize the gateway with valid config", async () => {
+      expect(await gateway.initialize(config)).toBe(true);
+    });
+
+    it("should require the merchant API URL", async () => {
+      await expect(
+        gateway.initialize({ ...config, additionalConfig: {} })
+      ).rejects.toThrow("additionalConfig.apiUrl is required");
+    });
+  });
+
+  describe("createPayment", () => {
+    const paymentRequest: PaymentRequest = {
+      amount: 5000,
+      currency: "XOF",
+      reference: "order-123",
+      description: "Test payment",
+      customerName: "Test User",
+      customerPhone: "0700000000",
+      returnUrl: "https://example.com/success",
+      metadata: { orderId: "123" },
+    };
+
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should create a payment link successfully", async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: {
+          statut: true,
+          token: "tok123",
+          message: "paiement en cours",
+          url: "https://payin.moneyfusion.net/payment/tok123",
+        },
+      });
+
+      const result = await gateway.createPayment(paymentRequest);
+
+      expect(result.success).toBe(true);
+      expect(result.redirectUrl).toBe(
+        "https://payin.moneyfusion.net/payment/tok123"
+      );
+      expect(result.paymentId).toBe("tok123");
+      expect(result.status).toBe(TransactionStatus.PENDING);
+
+      expect(mockAxios.post).toHaveBeenCalledWith(API_URL, {
+        totalPrice: 5000,
+        article: [{ "Test payment": 5000 }],
+        personal_Info: [{ orderId: "123", reference: "order-123" }],
+        numeroSend: "0700000000",
+        nomclient: "Test User",
+        return_url: "https://example.com/success",
+        webhook_url: "https://example.com/webhook",
+      });
+    });
+
+    it("should handle failed payment creation", async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: { statut: false, message: "Numero invalide" },
+      });
+
+      await expect(gateway.createPayment(paymentRequest)).rejects.toThrow(
+        new PaymentError("Numero invalide")
+      );
+    });
+
+    it("should require a customer phone number", async () => {
+      await expect(
+        gateway.createPayment({ ...paymentRequest, customerPhone: undefined })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("should reject fractional amounts", async () => {
+      await expect(
+        gateway.createPayment({ ...paymentRequest, amount: 10.5 })
+      ).rejects.toThrow("Invalid amount");
+    });
+  });
+
+  describe("verifyPayment", () => {
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should verify a paid payment", async () => {
+      mockAxios.get.mockResolvedValueOnce({
+        data: {
+          statut: true,
+          data: { tokenPay: "tok123", statut: "paid", Montant: 5000 },
+        },
+      });
+
+      const status = await gateway.verifyPayment("tok123");
+
+      expect(status).toBe(TransactionStatus.COMPLETED);
+      expect(mockAxios.get).toHaveBeenCalledWith(
+        `${MONEY_FUSION_ENDPOINTS.CHECK_STATUS}/tok123`
+      );
+    });
+
+    it("should map unpaid payments to canceled", async () => {
+      mockAxios.get.mockResolvedValueOnce({
+        data: { statut: true, data: { tokenPay: "tok123", statut: "no paid" } },
+      });
+
+      expect(await gateway.verifyPayment("tok123")).toBe(
+        TransactionStatus.CANCELED
+      );
+    });
+
+    it("should throw when the payment is unknown", async () => {
+      mockAxios.get.mockResolvedValueOnce({
+        data: { statut: false, message: "Paiement introuvable" },
+      });
+
+      await expect(gateway.verifyPayment("tok123")).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it("should throw error for network issues", async () => {
+      mockAxios.get.mockRejectedValueOnce(new Error("Network error"));
+
+      await expect(gateway.verifyPayment("tok123")).rejects.toMatchObject({
+        name: "ProviderUnavailableError",
+        message: "Failed to verify payment: Network error",
+      });
+    });
+  });
+
+  describe("getTransaction", () => {
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should return the transaction details", async () => {
+      mockAxios.get.mockResolvedValueOnce({
+        data: {
+          statut: true,
+          data: {
+            tokenPay: "tok123",
+            statut: "paid",
+            Montant: 5000,
+            frais: 150,
+            moyen: "orange",
+            nomclient: "Awa Diop",
+            numeroSend: "0700000000",
+            numeroTransaction: "OM123",
+            personal_Info: [{ reference: "order-123", orderId: 123 }],
+            createdAt: "2024-01-01T12:00:00.000Z",
+          },
+        },
+      });
+
+      const transaction = await gateway.getTransaction("tok123");
+
+      expect(transaction).toMatchObject({
+        paymentId: "tok123",
+        reference: "order-123",
+        status: TransactionStatus.COMPLETED,
+        amount: 5000,
+        fees: 150,
+        paymentMethod: "orange",
+        customer: { name: "Awa Diop", phone: "0700000000" },
+        gatewayReference: "OM123",
+        metadata: { orderId: 123 },
+        createdAt: new Date("2024-01-01T12:00:00.000Z"),
+        gatewayName: "moneyfusion",
+      });
+    });
+  });
+
+  describe("refundPayment", () => {
+    it("should report refunds as unsupported", async () => {
+      await gateway.initialize(config);
+
+      await expect(gateway.refundPayment("tok123")).rejects.toThrow(
+        UnsupportedOperationError
+      );
+    });
+  });
+
+  describe("webhook handling", () => {
+    const payload = {
+      event: "payin.session.completed",
+      tokenPay: "tok123",
+      numeroSend: "0700000000",
+      nomclient: "Test User",
+      personal_Info: [{ orderId: "123", reference: "order-123" }],
+      numeroTransaction: "MP230101.1200.A00001",
+      Montant: 5000,
+      frais: 100,
+      moyen: "orange",
+      createdAt: "2023-01-01T12:00:00.000Z",
+    };
+
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should validate a well formed webhook", async () => {
+      expect((await gateway.validateWebhook(payload)).isValid).toBe(true);
+    });
+
+    it("should check the signature over the raw body when required", async () => {
+      await gateway.initialize({
+        ...config,
+        webhookSignature: { secret: "relay_secret" },
+      });
+      const body = JSON.stringify(payload);
+      const altered = JSON.stringify({ ...payload, Montant: 9000 });
+      const headers = {
+        "x-signature": `sha256=${createHmac("sha256", "relay_secret")
+          .update(body)
+          .digest("hex")}`,
+      };
+
+      expect(
+        await gateway.validateWebhook(payload, headers, Buffer.from(body))
+      ).toEqual({ isValid: true });
+      expect(
+        await gateway.validateWebhook(
+          JSON.parse(altered),
+          headers,
+          Buffer.from(altered)
+        )
+      ).toEqual({ isValid: false, reason: "Invalid signature" });
+      expect(
+        await gateway.validateWebhook(payload, {}, Buffer.from(body))
+      ).toEqual({ isValid: false, reason: "Missing signature header" });
+    });
+
+    it("should reject unknown events", async () => {
+      const result = await gateway.validateWebhook({
+        ...payload,
+        event: "payout.session.completed",
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.reason).toContain("Unknown event");
+    });
+
+    const statusOf = (statut: string) => ({
+      data: {
+        statut: true,
+        data: {
+          ...payload,
+          statut,
+          personal_Info: [{ orderId: "123", reference: "order-123" }],
+        },
+      },
+    });
+
+    it("should process a completed payment webhook", async () => {
+      mockAxios.get.mockResolvedValueOnce(statusOf("paid"));
+
+      const event = await gateway.processWebhook(payload);
+
+      expect(mockAxios.get).toHaveBeenCalledWith(
+        `${MONEY_FUSION_ENDPOINTS.CHECK_STATUS}/tok123`
+      );
+      expect(event.type).toBe(WebhookEventType.PAYMENT_SUCCESS);
+      expect(event.data.reference).toBe("order-123");
+      expect(event.data.paymentId).toBe("tok123");
+      expect(event.data.amount).toBe(5000);
+      expect(event.data.fees).toBe(100);
+      expect(event.data.status).toBe(TransactionStatus.COMPLETED);
+      expect(event.data.metadata).toEqual({ orderId: "123" });
+      expect(event.gatewayName).toBe("moneyfusion");
+    });
+
+    it("should report the status Money Fusion confirms, not the one posted", async () => {
+      mockAxios.get.mockResolvedValueOnce(statusOf("pending"));
+
+      const forged = await gateway.processWebhook({
+        ...payload,
+        Montant: 1,
+      });
+
+      expect(forged.type).toBe(WebhookEventType.PAYMENT_PENDING);
+      expect(forged.data.status).toBe(TransactionStatus.PENDING);
+      expect(forged.data.amount).toBe(5000);
+
+      mockAxios.get.mockResolvedValueOnce({
+        data: { statut: false, message: "Paiement introuvable" },
+      });
+
+      await expect(
+        gateway.processWebhook({ ...payload, tokenPay: "forged" })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it("should confirm a notification once when validated and processed", async () => {
+      mockAxios.get
+        .mockRejectedValueOnce(new Error("Network error"))
+        .mockResolvedValueOnce(statusOf("paid"));
+
+      await expect(gateway.processWebhook(payload)).rejects.toThrow();
+      const validated = await gateway.processWebhook(payload);
+      const processed = await gateway.processWebhook(payload);
+
+      expect(validated.data.status).toBe(TransactionStatus.COMPLETED);
+      expect(processed).toEqual(validated);
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it("should map cancelled and unknown events without a payment outcome", async () => {
+      mockAxios.get.mockResolvedValueOnce(statusOf("no paid"));
+
+      const canceled = await gateway.processWebhook({
+        ...payload,
+        event: "payin.session.cancelled",
+      });
+      const unknown = await gateway.processWebhook({
+        ...payload,
+        event: "payout.session.completed",
+      });
+
+      expect(canceled.type).toBe(WebhookEventType.PAYMENT_CANCELED);
+      expect(canceled.data.status).toBe(TransactionStatus.CANCELED);
+      expect(unknown.type).toBe(WebhookEventType.UNKNOWN);
+      expect(unknown.data.status).toBe(TransactionStatus.PENDING);
+      expect(mockAxios.get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
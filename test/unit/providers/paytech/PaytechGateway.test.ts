@@ -6,19 +6,28 @@ import {
   WebhookEventType,
 } from "../../../../src/types";
 import axios from "axios";
+import {
+  AuthenticationError,
+  ConfigurationError,
+  NotFoundError,
+  PaymentError,
+  ProviderUnavailableError,
+  ValidationError,
+} from "../../../../src/core/errors";
 import {
   PAYTECH_API_BASE_URL,
   PAYTECH_ENDPOINTS,
 } from "../../../../src/providers/paytech/constants";
 import { jest, describe, it, beforeEach, expect } from "@jest/globals";
+import { createHash, createHmac } from "crypto";
 
 // Mock axios
 jest.mock("axios");
 const mockAxios = axios as jest.Mocked<typeof axios>;
 
-// Mock webhook utility functions
+// Mock validation utility functions, keeping the real IPN cryptography
 jest.mock("../../../../src/providers/paytech/utils", () => ({
-  verifyWebhookSignature: jest.fn(),
+  ...(jest.requireActual("../../../../src/providers/paytech/utils") as object),
   isValidPaytechCurrency: jest
     .fn()
     .mockImplementation((currency) =>
@@ -38,7 +47,7 @@ describe("PaytechGateway", () => {
     jest.clearAllMocks();
 
     // Create axios create mock
-    mockAxios.create.mockReturnValue(mockAxios as any);
+    mockAxios.create.mockReturnValue(mockAxios);
 
     // Set up a fresh gateway instance before each test
     gateway = new PaytechGateway();
@@ -138,6 +147,24 @@ describe("PaytechGateway", () => {
       );
     });
 
+    it("should send decimal amounts with the precision of the currency", async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: { success: 1, redirect_url: "https://paytech.sn", token: "eur" },
+      });
+
+      await gateway.createPayment({
+        ...paymentRequest,
+        amount: 19.9,
+        currency: "EUR",
+      });
+
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        PAYTECH_ENDPOINTS.REQUEST_PAYMENT,
+        expect.objectContaining({ item_price: "19.90", currency: "EUR" }),
+        expect.any(Object)
+      );
+    });
+
     it("should handle failed payment creation", async () => {
       // Mock failed payment creation response
       mockAxios.post.mockResolvedValueOnce({
@@ -147,22 +174,23 @@ describe("PaytechGateway", () => {
         },
       });
 
-      const result = await gateway.createPayment(paymentRequest);
+      const error = await gateway.createPayment(paymentRequest).catch((e) => e);
 
-      expect(result.success).toBe(false);
-      expect(result.message).toBe("Invalid currency");
-      expect(result.status).toBe(TransactionStatus.FAILED);
+      expect(error).toBeInstanceOf(PaymentError);
+      expect(error.message).toBe("Invalid currency");
+      expect(error.provider).toBe("paytech");
+      expect(error.retryable).toBe(false);
     });
 
     it("should handle network errors", async () => {
       // Mock network error
       mockAxios.post.mockRejectedValueOnce(new Error("Network error"));
 
-      const result = await gateway.createPayment(paymentRequest);
+      const error = await gateway.createPayment(paymentRequest).catch((e) => e);
 
-      expect(result.success).toBe(false);
-      expect(result.message).toContain("Network error");
-      expect(result.status).toBe(TransactionStatus.FAILED);
+      expect(error).toBeInstanceOf(ProviderUnavailableError);
+      expect(error.message).toBe("Payment request failed: Network error");
+      expect(error.retryable).toBe(true);
     });
 
     it("should handle API errors", async () => {
@@ -178,11 +206,63 @@ describe("PaytechGateway", () => {
       };
       mockAxios.post.mockRejectedValueOnce(axiosError);
 
+      const error = await gateway.createPayment(paymentRequest).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toBe("Bad request");
+      expect(error.httpStatus).toBe(400);
+      expect(error.retryable).toBe(false);
+    });
+
+    it("should only retry payment creation Paytech did not process", async () => {
+      await gateway.initialize({ ...config, retry: { baseDelayMs: 0 } });
+      const outage = { isAxiosError: true, response: { status: 502 } };
+      const throttled = { isAxiosError: true, response: { status: 429 } };
+      mockAxios.post
+        .mockRejectedValueOnce(outage)
+        .mockRejectedValueOnce(throttled)
+        .mockResolvedValueOnce({
+          data: { success: 1, token: "tok", redirect_url: "https://pay" },
+        });
+
+      await expect(gateway.createPayment(paymentRequest)).rejects.toThrow(
+        ProviderUnavailableError
+      );
       const result = await gateway.createPayment(paymentRequest);
 
-      expect(result.success).toBe(false);
-      expect(result.message).toContain("Bad request");
-      expect(result.status).toBe(TransactionStatus.FAILED);
+      expect(result.paymentId).toBe("tok");
+      expect(mockAxios.post).toHaveBeenCalledTimes(3);
+    });
+
+    it("should retry payment creation with an idempotency key", async () => {
+      await gateway.initialize({ ...config, retry: { baseDelayMs: 0 } });
+      mockAxios.post
+        .mockRejectedValueOnce({
+          isAxiosError: true,
+          response: { status: 503 },
+        })
+        .mockResolvedValueOnce({
+          data: { success: 1, token: "tok", redirect_url: "https://pay" },
+        });
+
+      const result = await gateway.createPayment({
+        ...paymentRequest,
+        idempotencyKey: "order-123",
+      });
+
+      expect(result.paymentId).toBe("tok");
+      expect(mockAxios.post).toHaveBeenCalledTimes(2);
+    });
+
+    it("should map rejected credentials to authentication errors", async () => {
+      mockAxios.post.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: { status: 401, data: { error: "Invalid API key" } },
+      });
+
+      await expect(gateway.createPayment(paymentRequest)).rejects.toThrow(
+        AuthenticationError
+      );
     });
 
     it("should throw error if gateway is not initialized", async () => {
@@ -191,7 +271,7 @@ describe("PaytechGateway", () => {
 
       await expect(
         uninitializedGateway.createPayment(paymentRequest)
-      ).rejects.toThrow("Gateway not initialized");
+      ).rejects.toThrow(ConfigurationError);
     });
 
     it("should throw error for invalid request", async () => {
@@ -202,7 +282,7 @@ describe("PaytechGateway", () => {
       } as PaymentRequest;
 
       await expect(gateway.createPayment(invalidRequest)).rejects.toThrow(
-        "Invalid payment request: missing required fields"
+        new ValidationError("Invalid payment request: missing required fields")
       );
     });
 
@@ -279,17 +359,18 @@ describe("PaytechGateway", () => {
       };
       mockAxios.get.mockRejectedValueOnce(axiosError);
 
-      const status = await gateway.verifyPayment("invalid-payment");
-
-      expect(status).toBe(TransactionStatus.FAILED);
+      await expect(gateway.verifyPayment("invalid-payment")).rejects.toThrow(
+        NotFoundError
+      );
     });
 
     it("should throw error for network issues", async () => {
       mockAxios.get.mockRejectedValueOnce(new Error("Network error"));
 
-      await expect(gateway.verifyPayment("payment-123")).rejects.toThrow(
-        "Failed to verify payment"
-      );
+      await expect(gateway.verifyPayment("payment-123")).rejects.toMatchObject({
+        name: "ProviderUnavailableError",
+        message: "Failed to verify payment: Network error",
+      });
     });
 
     it("should throw error if no payment ID is provided", async () => {
@@ -297,6 +378,103 @@ describe("PaytechGateway", () => {
         "Payment ID is required"
       );
     });
+    it("should retry transient failures", async () => {
+      const onAttempt = jest.fn();
+      await gateway.initialize({
+        ...config,
+        retry: { baseDelayMs: 0, onAttempt },
+      });
+      mockAxios.get
+        .mockRejectedValueOnce({ isAxiosError: true, code: "ECONNRESET" })
+        .mockResolvedValueOnce({ data: { success: 1, status: "completed" } });
+
+      const status = await gateway.verifyPayment("payment-123");
+
+      expect(status).toBe(TransactionStatus.COMPLETED);
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+      expect(onAttempt).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fail fast once the circuit breaker opens", async () => {
+      await gateway.initialize({
+        ...config,
+        retry: false,
+        circuitBreaker: { failureThreshold: 2 },
+      });
+      mockAxios.get.mockRejectedValue({
+        isAxiosError: true,
+        response: { status: 503 },
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(gateway.verifyPayment("payment-123")).rejects.toThrow(
+          ProviderUnavailableError
+        );
+      }
+
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+      expect(gateway.getHealth().state).toBe("open");
+      mockAxios.get.mockReset();
+    });
+
+    it("should not retry when retries are disabled", async () => {
+      await gateway.initialize({ ...config, retry: false });
+      mockAxios.get.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: { status: 503 },
+      });
+
+      await expect(gateway.verifyPayment("payment-123")).rejects.toThrow(
+        ProviderUnavailableError
+      );
+      expect(mockAxios.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("getTransaction", () => {
+    beforeEach(async () => {
+      await gateway.initialize(config);
+    });
+
+    it("should return the transaction details", async () => {
+      const statusResponse = {
+        success: 1,
+        status: "completed",
+        ref_command: "order-123",
+        amount: "5000",
+        currency: "XOF",
+        date: "2023-01-01T12:00:00Z",
+        transaction_id: "txn-456",
+        customer_info: { name: "Awa Diop", phone: "+221770000000" },
+      };
+      mockAxios.get.mockResolvedValueOnce({ data: statusResponse });
+
+      const transaction = await gateway.getTransaction("payment-123");
+
+      expect(transaction).toEqual({
+        paymentId: "payment-123",
+        reference: "order-123",
+        status: TransactionStatus.COMPLETED,
+        amount: 5000,
+        currency: "XOF",
+        customer: { name: "Awa Diop", phone: "+221770000000" },
+        gatewayReference: "txn-456",
+        createdAt: new Date("2023-01-01T12:00:00Z"),
+        gatewayName: "paytech",
+        raw: statusResponse,
+      });
+    });
+
+    it("should throw when the lookup fails", async () => {
+      mockAxios.get.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: { status: 404 },
+      });
+
+      await expect(gateway.getTransaction("invalid-payment")).rejects.toThrow(
+        NotFoundError
+      );
+    });
   });
 
   describe("refundPayment", () => {
@@ -332,6 +510,14 @@ describe("PaytechGateway", () => {
     });
 
     it("should process a partial refund", async () => {
+      mockAxios.get.mockResolvedValueOnce({
+        data: {
+          success: 1,
+          status: "completed",
+          amount: "5000",
+          currency: "XOF",
+        },
+      });
       mockAxios.post.mockResolvedValueOnce({
         data: {
           success: 1,
@@ -341,19 +527,41 @@ describe("PaytechGateway", () => {
         },
       });
 
-      const result = await gateway.refundPayment("payment-123", 2000);
+      const result = await gateway.refundPayment("payment-123", 2000, {
+        reason: "Damaged item",
+      });
 
       expect(result.success).toBe(true);
       expect(result.amount).toBe(2000);
+      expect(result.status).toBe(TransactionStatus.PARTIALLY_REFUNDED);
 
-      // Verify request included amount
+      // Verify request included amount and reason
       expect(mockAxios.post).toHaveBeenCalledWith(
         PAYTECH_ENDPOINTS.REFUND,
-        { token: "payment-123", amount: 2000 },
+        { token: "payment-123", amount: 2000, reason: "Damaged item" },
         expect.any(Object)
       );
     });
 
+    it("should report a refund of the payment amount as full", async () => {
+      mockAxios.get.mockResolvedValueOnce({
+        data: {
+          success: 1,
+          status: "completed",
+          amount: "5000",
+          currency: "XOF",
+        },
+      });
+      mockAxios.post.mockResolvedValueOnce({
+        data: { success: 1, refund_id: "refund-123", status: "refunded" },
+      });
+
+      const result = await gateway.refundPayment("payment-123", 5000);
+
+      expect(result.amount).toBe(5000);
+      expect(result.status).toBe(TransactionStatus.REFUNDED);
+    });
+
     it("should handle failed refund", async () => {
       mockAxios.post.mockResolvedValueOnce({
         data: {
@@ -362,11 +570,9 @@ describe("PaytechGateway", () => {
         },
       });
 
-      const result = await gateway.refundPayment("payment-123");
-
-      expect(result.success).toBe(false);
-      expect(result.message).toBe("Payment already refunded");
-      expect(result.status).toBe(TransactionStatus.FAILED);
+      await expect(gateway.refundPayment("payment-123")).rejects.toThrow(
+        new PaymentError("Payment already refunded")
+      );
     });
 
     it("should handle API errors", async () => {
@@ -381,10 +587,9 @@ describe("PaytechGateway", () => {
       };
       mockAxios.post.mockRejectedValueOnce(axiosError);
 
-      const result = await gateway.refundPayment("invalid-payment");
-
-      expect(result.success).toBe(false);
-      expect(result.message).toBe("Invalid payment ID");
+      await expect(gateway.refundPayment("invalid-payment")).rejects.toThrow(
+        new ValidationError("Invalid payment ID")
+      );
     });
   });
 
@@ -395,60 +600,154 @@ describe("PaytechGateway", () => {
     });
 
     describe("validateWebhook", () => {
-      it("should validate a valid webhook", async () => {
-        const payload = {
-          token: "payment-123",
-          ref_command: "order-123",
-          type: "payment_success",
-          status: "completed",
-        };
+      const sha256 = (value: string) =>
+        createHash("sha256").update(value).digest("hex");
+
+      const ipn = {
+        type_event: "sale_complete",
+        token: "payment-123",
+        ref_command: "order-123",
+        item_price: "5000",
+        final_item_price: "5000",
+        devise: "XOF",
+      };
 
-        const headers = {
-          "x-paytech-signature": "valid-signature",
-        };
+      it("should validate a notification carrying the credential hashes", async () => {
+        const result = await gateway.validateWebhook({
+          ...ipn,
+          api_key_sha256: sha256("test_api_key"),
+          api_secret_sha256: sha256("test_api_secret"),
+        });
+
+        expect(result).toEqual({ isValid: true });
+      });
 
-        // Mock signature verification
-        const utils = require("../../../../src/providers/paytech/utils");
-        utils.verifyWebhookSignature.mockReturnValue(true);
+      it("should validate a notification carrying an HMAC", async () => {
+        const hmac = createHmac("sha256", "test_api_secret")
+          .update("5000|order-123|test_api_key")
+          .digest("hex");
 
-        const result = await gateway.validateWebhook(payload, headers);
+        const result = await gateway.validateWebhook({
+          ...ipn,
+          hmac_compute: hmac,
+        });
 
-        expect(result.isValid).toBe(true);
-        expect(utils.verifyWebhookSignature).toHaveBeenCalled();
+        expect(result).toEqual({ isValid: true });
       });
 
-      it("should reject webhook with missing required fields", async () => {
-        const payload = {
-          // Missing required fields
-          ref_command: "order-123",
-        };
+      it("should reject credential hashes that do not match", async () => {
+        const result = await gateway.validateWebhook({
+          ...ipn,
+          api_key_sha256: sha256("test_api_key"),
+          api_secret_sha256: sha256("other_api_secret"),
+        });
+
+        expect(result).toEqual({ isValid: false, reason: "Invalid signature" });
+      });
 
-        const result = await gateway.validateWebhook(payload, {});
+      it("should reject an HMAC computed over another amount", async () => {
+        const hmac = createHmac("sha256", "test_api_secret")
+          .update("100|order-123|test_api_key")
+          .digest("hex");
 
-        expect(result.isValid).toBe(false);
-        expect(result.reason).toContain("Missing required field");
+        const result = await gateway.validateWebhook({
+          ...ipn,
+          hmac_compute: hmac,
+        });
+
+        expect(result).toEqual({ isValid: false, reason: "Invalid signature" });
       });
 
-      it("should reject webhook with invalid signature", async () => {
-        const payload = {
-          token: "payment-123",
-          ref_command: "order-123",
-          type: "payment_success",
-          status: "completed",
-        };
+      it("should reject a notification without verification fields", async () => {
+        const result = await gateway.validateWebhook(ipn);
+
+        expect(result).toEqual({
+          isValid: false,
+          reason: "Missing IPN verification fields",
+        });
+      });
 
+      it("should require an HMAC when configured to", async () => {
+        await gateway.initialize({
+          ...config,
+          additionalConfig: { ipnVerification: "hmac" },
+        });
+
+        const result = await gateway.validateWebhook({
+          ...ipn,
+          api_key_sha256: sha256("test_api_key"),
+          api_secret_sha256: sha256("test_api_secret"),
+        });
+
+        expect(result).toEqual({
+          isValid: false,
+          reason: "Missing IPN verification fields",
+        });
+      });
+
+      it("should skip verification when disabled", async () => {
+        await gateway.initialize({
+          ...config,
+          additionalConfig: { ipnVerification: "none" },
+        });
+
+        const result = await gateway.validateWebhook(ipn);
+
+        expect(result).toEqual({ isValid: true });
+      });
+
+      it("should check the signature over the raw body when required", async () => {
+        await gateway.initialize({
+          ...config,
+          webhookSignature: { secret: "relay_secret" },
+        });
+        const body = new URLSearchParams({
+          ...ipn,
+          api_key_sha256: sha256("test_api_key"),
+          api_secret_sha256: sha256("test_api_secret"),
+        }).toString();
         const headers = {
-          "x-paytech-signature": "invalid-signature",
+          "X-Signature": createHmac("sha256", "relay_secret")
+            .update(body)
+            .digest("hex"),
         };
+        const altered = body.replace("5000", "9000");
+
+        expect(
+          await gateway.validateWebhook(
+            Object.fromEntries(new URLSearchParams(body)),
+            headers,
+            Buffer.from(body)
+          )
+        ).toEqual({ isValid: true });
+        expect(
+          await gateway.validateWebhook(
+            Object.fromEntries(new URLSearchParams(altered)),
+            headers,
+            Buffer.from(altered)
+          )
+        ).toEqual({ isValid: false, reason: "Invalid signature" });
+        expect(
+          await gateway.validateWebhook(
+            Object.fromEntries(new URLSearchParams(body)),
+            headers
+          )
+        ).toEqual({
+          isValid: false,
+          reason: "Raw body required to verify the webhook signature",
+        });
+      });
 
-        // Mock signature verification
-        const utils = require("../../../../src/providers/paytech/utils");
-        utils.verifyWebhookSignature.mockReturnValue(false);
+      it("should reject webhook with missing required fields", async () => {
+        const payload = {
+          // Missing required fields
+          ref_command: "order-123",
+        };
 
-        const result = await gateway.validateWebhook(payload, headers);
+        const result = await gateway.validateWebhook(payload);
 
         expect(result.isValid).toBe(false);
-        expect(result.reason).toBe("Invalid signature");
+        expect(result.reason).toContain("Missing required field");
       });
     });
 
@@ -482,6 +781,110 @@ describe("PaytechGateway", () => {
         expect(event.data.metadata).toEqual({ orderId: "123" });
         expect(event.data.customerEmail).toBe("test@example.com");
         expect(event.gatewayName).toBe("paytech");
+        expect(event.createdAt).toEqual(new Date("2023-01-01T12:00:00Z"));
+        expect(event.timestampMissing).toBeUndefined();
+      });
+
+      it("should process an IPN sale notification", async () => {
+        const event = await gateway.processWebhook({
+          type_event: "sale_complete",
+          token: "payment-123",
+          ref_command: "order-123",
+          item_price: "5000",
+          final_item_price: "4500",
+          devise: "XOF",
+        });
+
+        expect(event.type).toBe(WebhookEventType.PAYMENT_SUCCESS);
+        expect(event.data.amount).toBe(4500);
+        expect(event.data.currency).toBe("XOF");
+        expect(event.data.status).toBe(TransactionStatus.COMPLETED);
+        expect(event.timestampMissing).toBe(true);
+      });
+
+      it("should map canceled payments to their own event", async () => {
+        const event = await gateway.processWebhook({
+          type_event: "sale_canceled",
+          token: "payment-123",
+          ref_command: "order-123",
+        });
+
+        expect(event.type).toBe(WebhookEventType.PAYMENT_CANCELED);
+        expect(event.data.status).toBe(TransactionStatus.CANCELED);
+      });
+
+      it("should not map unknown events to a payment outcome", async () => {
+        const event = await gateway.processWebhook({
+          type_event: "sale_disputed",
+          token: "payment-123",
+          ref_command: "order-123",
+          status: "completed",
+        });
+
+        expect(event.type).toBe(WebhookEventType.UNKNOWN);
+        expect(event.data.status).toBe(TransactionStatus.COMPLETED);
+      });
+
+      it("should refuse events contradicting their status", async () => {
+        await expect(
+          gateway.processWebhook({
+            type: "payment_success",
+            token: "payment-123",
+            ref_command: "order-123",
+            status: "failed",
+          })
+        ).rejects.toThrow(
+          new ValidationError(
+            "Contradictory webhook: payment_success event with status failed"
+          )
+        );
+      });
+
+      it("should only accept refund statuses on refund events", async () => {
+        const refund = {
+          type_event: "refund_success",
+          token: "payment-123",
+          ref_command: "order-123",
+          amount: "2000",
+          devise: "XOF",
+        };
+
+        const event = await gateway.processWebhook(refund);
+
+        expect(event.type).toBe(WebhookEventType.REFUND_SUCCESS);
+        expect(event.data.amount).toBe(2000);
+        expect(event.data.status).toBe(TransactionStatus.REFUNDED);
+        await expect(
+          gateway.processWebhook({ ...refund, status: "completed" })
+        ).rejects.toThrow(ValidationError);
+      });
+
+      it("should decode an encoded custom field", async () => {
+        const customField = JSON.stringify({ orderId: "123" });
+        const payload = {
+          type_event: "sale_complete",
+          token: "payment-123",
+          ref_command: "order-123",
+          item_price: "5000",
+          devise: "XOF",
+        };
+
+        const base64 = await gateway.processWebhook({
+          ...payload,
+          custom_field: Buffer.from(customField).toString("base64"),
+        });
+        const urlEncoded = await gateway.processWebhook({
+          ...payload,
+          custom_field: encodeURIComponent(customField),
+        });
+        const plain = await gateway.processWebhook({
+          ...payload,
+          custom_field: "order-123",
+        });
+
+        expect(base64.data.metadata).toEqual({ orderId: "123" });
+        expect(urlEncoded.data.metadata).toEqual({ orderId: "123" });
+        expect(plain.data.metadata).toEqual({ raw: "order-123" });
       });
 
       it("should throw error for invalid payload", async () => {
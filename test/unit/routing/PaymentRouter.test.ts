@@ -0,0 +1,252 @@
+import {
+  GatewayConfig,
+  MultiPaymentGateway,
+  PaymentGateway,
+  PaymentRequest,
+  PaymentResponse,
+  PaymentRouter,
+  TransactionStatus,
+  WebhookEventType,
+  registerProvider,
+  unregisterProvider,
+} from "../../../src";
+import {
+  PaymentError,
+  ProviderUnavailableError,
+  ValidationError,
+} from "../../../src/core/errors";
+import {
+  jest,
+  describe,
+  it,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  expect,
+} from "@jest/globals";
+
+/**
+ * Responses returned, or errors thrown, by the fake gateways, keyed by merchant code
+ */
+const outcomes: Record<string, PaymentResponse | PaymentError> = {};
+
+/**
+ * Merchant codes of the fake gateways whose circuit breaker is open
+ */
+const openCircuits = new Set<string>();
+
+function createFakeGateway(): PaymentGateway {
+  let merchant = "";
+  let currencies = ["XOF", "XAF", "MAD"];
+
+  return {
+    initialize: jest.fn(async (config: GatewayConfig) => {
+      merchant = config.apiKey;
+      currencies =
+        (config.additionalConfig?.currencies as string[]) || currencies;
+      return true;
+    }),
+    getSupportedCurrencies: () => currencies,
+    getHealth: () => ({
+      provider: "fake",
+      state: openCircuits.has(merchant) ? "open" : "closed",
+      available: !openCircuits.has(merchant),
+      failures: 0,
+    }),
+    createPayment: jest.fn(async () => {
+      const outcome = outcomes[merchant];
+      if (outcome instanceof PaymentError) {
+        throw outcome;
+      }
+      return outcome;
+    }),
+    verifyPayment: jest.fn(async () => TransactionStatus.COMPLETED),
+    refundPayment: jest.fn(async () => ({ success: true })),
+    validateWebhook: jest.fn(async () => ({ isValid: true })),
+    processWebhook: jest.fn(async () => ({
+      type: WebhookEventType.PAYMENT_SUCCESS,
+      data: { reference: "ref", status: TransactionStatus.COMPLETED },
+      createdAt: new Date(),
+      gatewayName: "fake",
+    })),
+  };
+}
+
+const ok = (paymentId: string): PaymentResponse => ({
+  success: true,
+  paymentId,
+  status: TransactionStatus.PENDING,
+});
+
+const outage = new ProviderUnavailableError(
+  "Payment request failed: socket hang up"
+);
+
+const declined = new ValidationError("Invalid currency");
+
+const request: PaymentRequest = {
+  amount: 5000,
+  currency: "XOF",
+  reference: "order-1",
+  description: "Order 1",
+  metadata: { country: "SN" },
+};
+
+describe("PaymentRouter", () => {
+  let hub: MultiPaymentGateway;
+  let router: PaymentRouter;
+
+  beforeAll(() => {
+    registerProvider("fake", createFakeGateway);
+  });
+
+  afterAll(() => {
+    unregisterProvider("fake");
+  });
+
+  beforeEach(async () => {
+    hub = new MultiPaymentGateway();
+    for (const alias of ["primary", "backup", "ivory", "morocco"]) {
+      await hub.addGateway(alias, "fake", {
+        apiKey: alias,
+        apiSecret: "secret",
+        environment: "test",
+        additionalConfig:
+          alias === "ivory" ? { currencies: ["XOF", "XAF"] } : undefined,
+      });
+    }
+
+    openCircuits.clear();
+    outcomes.primary = ok("primary-1");
+    outcomes.backup = ok("backup-1");
+    outcomes.ivory = ok("ivory-1");
+    outcomes.morocco = ok("morocco-1");
+
+    router = new PaymentRouter(hub, {
+      routes: [
+        { name: "ivory-coast", country: "CI", providers: ["ivory"] },
+        { name: "cameroon", country: "CM", providers: ["ivory", "primary"] },
+        { name: "morocco", currency: "MAD", providers: ["ivory", "morocco"] },
+        {
+          name: "xof-small",
+          currency: "XOF",
+          maxAmount: 100000,
+          providers: ["primary", "backup"],
+        },
+        {
+          name: "wave",
+          paymentMethod: ["Wave", "Orange Money"],
+          providers: ["backup", "unknown"],
+        },
+      ],
+      defaultProviders: ["backup"],
+    });
+  });
+
+  it("should serve the payment with the first provider of the route", async () => {
+    const result = await router.createPayment(request);
+
+    expect(result.paymentId).toBe("primary-1");
+    expect(result.provider).toBe("primary");
+  });
+
+  it("should pick routes by country", async () => {
+    const result = await router.createPayment({
+      ...request,
+      metadata: { country: "ci" },
+    });
+
+    expect(result.provider).toBe("ivory");
+  });
+
+  it("should fail over on retryable errors", async () => {
+    outcomes.primary = outage;
+
+    const result = await router.createPayment(request);
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe("backup");
+  });
+
+  it("should not fail over on business errors", async () => {
+    outcomes.primary = declined;
+
+    await expect(router.createPayment(request)).rejects.toBe(declined);
+  });
+
+  it("should report the last failure when every provider is down", async () => {
+    outcomes.primary = outage;
+    outcomes.backup = new ProviderUnavailableError("Payment request failed");
+
+    await expect(router.createPayment(request)).rejects.toBe(outcomes.backup);
+  });
+
+  it("should skip providers whose circuit breaker is open", async () => {
+    openCircuits.add("primary");
+
+    const result = await router.createPayment(request);
+
+    expect(result.provider).toBe("backup");
+    expect(result.routing?.skipped).toEqual([
+      { provider: "primary", reason: "circuit breaker open" },
+    ]);
+  });
+
+  it("should route by amount", async () => {
+    const decision = router.route({ ...request, amount: 100000 });
+
+    expect(decision.rule).toBeNull();
+    expect(decision.providers).toEqual(["backup"]);
+    expect(decision.explanation).toBe(
+      "No rule matched, using default providers; candidates: backup"
+    );
+  });
+
+  it("should route by payment method", async () => {
+    const decision = router.route({
+      ...request,
+      amount: 150000,
+      paymentMethod: "orange money",
+    });
+
+    expect(decision.rule).toBe("wave");
+    expect(decision.providers).toEqual(["backup"]);
+    expect(decision.skipped).toEqual([
+      { provider: "unknown", reason: "gateway not configured" },
+    ]);
+  });
+
+  it("should skip providers that do not support the currency", async () => {
+    const result = await router.createPayment({ ...request, currency: "MAD" });
+
+    expect(result.provider).toBe("morocco");
+    expect(result.routing?.rule).toBe("morocco");
+    expect(result.routing?.explanation).toBe(
+      'Rule "morocco" matched (currency MAD); candidates: morocco; skipped: ivory (currency MAD not supported)'
+    );
+  });
+
+  it("should explain the matching rule", async () => {
+    const result = await router.createPayment({
+      ...request,
+      metadata: { country: "CM" },
+      currency: "XAF",
+    });
+
+    expect(result.provider).toBe("ivory");
+    expect(result.routing?.matchedCriteria).toEqual(["country CM"]);
+  });
+
+  it("should throw when no provider is eligible", async () => {
+    await expect(
+      router.createPayment({
+        ...request,
+        currency: "EUR",
+        metadata: {},
+        amount: 200000,
+      })
+    ).rejects.toThrow(
+      "No payment provider available: No rule matched, using default providers; candidates: none; skipped: backup (currency EUR not supported)"
+    );
+  });
+});
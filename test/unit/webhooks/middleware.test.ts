@@ -0,0 +1,410 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { once } from "events";
+import { Readable } from "stream";
+import {
+  GatewayConfig,
+  MultiPaymentGateway,
+  PaymentGateway,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookEventType,
+  createFastifyWebhookHandler,
+  createWebhookHandler,
+  handleWebhookRequest,
+  registerProvider,
+  unregisterProvider,
+} from "../../../src";
+import { ConfigurationError, ValidationError } from "../../../src/core/errors";
+import {
+  jest,
+  describe,
+  it,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  expect,
+} from "@jest/globals";
+
+/**
+ * Payloads seen by the fake gateways, keyed by merchant code
+ */
+const received: Record<string, unknown[]> = {};
+
+function createFakeGateway(): PaymentGateway {
+  let merchant = "";
+
+  return {
+    initialize: jest.fn(async (config: GatewayConfig) => {
+      merchant = config.apiKey;
+      received[merchant] = [];
+      return true;
+    }),
+    createPayment: jest.fn(async () => ({ success: true })),
+    verifyPayment: jest.fn(async () => TransactionStatus.COMPLETED),
+    refundPayment: jest.fn(async () => ({ success: true })),
+    validateWebhook: jest.fn(async (payload: unknown) => {
+      received[merchant].push(payload);
+      const { signature } = payload as { signature?: string };
+      return signature === "valid"
+        ? { isValid: true }
+        : { isValid: false, reason: "Invalid signature" };
+    }),
+    processWebhook: jest.fn(async (payload: unknown) => {
+      const { reference } = payload as { reference?: string };
+      if (!reference) {
+        throw new ValidationError("Missing reference");
+      }
+      return {
+        type: WebhookEventType.PAYMENT_SUCCESS,
+        data: { reference, status: TransactionStatus.COMPLETED },
+        createdAt: new Date(),
+        gatewayName: merchant,
+      };
+    }),
+    acknowledgeWebhook: (success: boolean, message?: string) => ({
+      merchant,
+      success,
+      message: message ?? null,
+    }),
+  };
+}
+
+const body = JSON.stringify({ signature: "valid", reference: "order-1" });
+
+describe("webhook middleware", () => {
+  let hub: MultiPaymentGateway;
+  let events: WebhookEvent[];
+
+  beforeAll(() => {
+    registerProvider("fake", createFakeGateway);
+  });
+
+  afterAll(() => {
+    unregisterProvider("fake");
+  });
+
+  beforeEach(async () => {
+    hub = new MultiPaymentGateway();
+    await hub.addGateway("paytech-sn", "fake", {
+      apiKey: "sn",
+      apiSecret: "secret",
+      environment: "test",
+    });
+    await hub.addGateway("cinetpay-ci", "fake", {
+      apiKey: "ci",
+      apiSecret: "secret",
+      environment: "test",
+    });
+    events = [];
+  });
+
+  const handle = (
+    url: string,
+    rawBody: string,
+    headers = {},
+    aliasHeader?: string
+  ) =>
+    handleWebhookRequest(
+      { hub, onEvent: (event) => void events.push(event), aliasHeader },
+      { url, rawBody, headers }
+    );
+
+  it("should route by path and acknowledge with the provider format", async () => {
+    const response = await handle("/webhooks/cinetpay-ci?x=1", body);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["content-type"]).toContain("application/json");
+    expect(JSON.parse(response.body)).toEqual({
+      merchant: "ci",
+      success: true,
+      message: null,
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0].gatewayName).toBe("ci");
+  });
+
+  it("should route by header when configured", async () => {
+    const headers = { "x-payment-gateway": "cinetpay-ci" };
+
+    const routed = await handle(
+      "/webhooks",
+      body,
+      headers,
+      "X-Payment-Gateway"
+    );
+    const ignored = await handle("/webhooks", body, headers);
+    const spoofed = await handle(
+      "/webhooks/paytech-sn",
+      body,
+      headers,
+      "x-payment-gateway"
+    );
+
+    expect(JSON.parse(routed.body).merchant).toBe("ci");
+    expect(JSON.parse(ignored.body).merchant).toBe("sn");
+    expect(JSON.parse(spoofed.body).merchant).toBe("sn");
+  });
+
+  it("should fall back to the default instance", async () => {
+    const response = await handle("/webhooks", body);
+
+    expect(JSON.parse(response.body).merchant).toBe("sn");
+  });
+
+  it("should reply 400 for malformed paths", async () => {
+    const response = await handle("/webhooks/%E0%A4%A", body);
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body).toBe("Malformed webhook URL");
+  });
+
+  it("should reply 404 for unknown gateways", async () => {
+    const response = await handle(
+      "/webhooks",
+      body,
+      { "x-payment-gateway": "wave" },
+      "x-payment-gateway"
+    );
+
+    expect(response.statusCode).toBe(404);
+    expect(response.body).toBe("Unknown payment gateway: wave");
+  });
+
+  it("should parse form encoded bodies", async () => {
+    await handle("/webhooks/paytech-sn", "signature=valid&reference=order-2", {
+      "content-type": "application/x-www-form-urlencoded",
+    });
+
+    expect(received.sn).toEqual([{ signature: "valid", reference: "order-2" }]);
+    expect(events[0].data.reference).toBe("order-2");
+  });
+
+  it("should reply 400 on invalid webhooks", async () => {
+    const invalid = await handle(
+      "/webhooks/paytech-sn",
+      JSON.stringify({ signature: "forged", reference: "order-1" })
+    );
+    const malformed = await handle("/webhooks/paytech-sn", "{oops", {
+      "content-type": "application/json",
+    });
+    const rejected = await handle(
+      "/webhooks/paytech-sn",
+      JSON.stringify({ signature: "valid" })
+    );
+
+    expect(invalid.statusCode).toBe(400);
+    expect(JSON.parse(invalid.body).message).toBe("Invalid signature");
+    expect(malformed.statusCode).toBe(400);
+    expect(rejected.statusCode).toBe(400);
+    expect(events).toHaveLength(0);
+  });
+
+  it("should reply 500 when the event listener fails", async () => {
+    const response = await handleWebhookRequest(
+      {
+        hub,
+        onEvent: async () => {
+          throw new Error("Database down");
+        },
+      },
+      { url: "/webhooks/paytech-sn", rawBody: body, headers: {} }
+    );
+
+    expect(response.statusCode).toBe(500);
+    expect(JSON.parse(response.body).success).toBe(false);
+  });
+
+  it("should reply 500 when a hub listener fails", async () => {
+    const failing = new MultiPaymentGateway({ onEventError: () => undefined });
+    await failing.initialize("fake", {
+      apiKey: "sn",
+      apiSecret: "secret",
+      environment: "test",
+    });
+    const onEvent = jest.fn(async () => undefined);
+    failing.on(WebhookEventType.PAYMENT_SUCCESS, async () => {
+      throw new Error("Fulfilment failed");
+    });
+
+    const response = await handleWebhookRequest(
+      { hub: failing, onEvent },
+      { url: "/webhooks", rawBody: body, headers: {} }
+    );
+
+    expect(response.statusCode).toBe(500);
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it("should acknowledge duplicate deliveries without processing them again", async () => {
+    const first = await handle("/webhooks/paytech-sn", body);
+    const redelivery = await handle("/webhooks/paytech-sn", body);
+
+    expect(first.statusCode).toBe(200);
+    expect(redelivery.statusCode).toBe(200);
+    expect(JSON.parse(redelivery.body).success).toBe(true);
+    expect(events).toHaveLength(1);
+  });
+
+  it("should process deliveries again after a failure", async () => {
+    let attempts = 0;
+    const onEvent = async () => {
+      attempts++;
+      if (attempts === 1) {
+        throw new Error("Database down");
+      }
+    };
+    const send = () =>
+      handleWebhookRequest(
+        { hub, onEvent },
+        { url: "/webhooks/paytech-sn", rawBody: body, headers: {} }
+      );
+
+    expect((await send()).statusCode).toBe(500);
+    expect((await send()).statusCode).toBe(200);
+    expect((await send()).statusCode).toBe(200);
+    expect(attempts).toBe(2);
+  });
+
+  describe("createWebhookHandler", () => {
+    function createResponse() {
+      const res = {
+        writeHead: jest.fn(),
+        end: jest.fn(),
+      };
+      return res;
+    }
+
+    it("should read the raw body from the request stream", async () => {
+      const req = Object.assign(Readable.from([Buffer.from(body)]), {
+        url: "/webhooks/cinetpay-ci",
+        headers: { "Content-Type": "application/json" },
+      });
+      const res = createResponse();
+
+      await createWebhookHandler({ hub })(
+        req as unknown as IncomingMessage,
+        res as unknown as ServerResponse
+      );
+
+      expect(res.writeHead).toHaveBeenCalledWith(200, {
+        "content-type": "application/json; charset=utf-8",
+      });
+      expect(res.end).toHaveBeenCalledWith(
+        JSON.stringify({ merchant: "ci", success: true, message: null })
+      );
+    });
+
+    it("should use the raw body kept by express.raw()", async () => {
+      const req = Object.assign(Readable.from([]), {
+        url: "/cinetpay-ci",
+        originalUrl: "/webhooks/cinetpay-ci",
+        headers: {},
+        body: Buffer.from(body),
+      });
+      const res = createResponse();
+      const onEvent = jest.fn(async () => undefined);
+
+      await createWebhookHandler({ hub, onEvent })(
+        req as unknown as IncomingMessage,
+        res as unknown as ServerResponse
+      );
+
+      expect(res.writeHead).toHaveBeenCalledWith(200, expect.any(Object));
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ gatewayName: "ci" }),
+        expect.objectContaining({
+          alias: "cinetpay-ci",
+          rawBody: Buffer.from(body),
+        })
+      );
+    });
+
+    it("should read form bodies a JSON parser skipped", async () => {
+      const req = Object.assign(
+        Readable.from([Buffer.from("signature=valid&reference=order-2")]),
+        {
+          url: "/webhooks/paytech-sn",
+          headers: { "content-type": "application/x-www-form-urlencoded" },
+          body: {},
+        }
+      );
+      const res = createResponse();
+
+      await createWebhookHandler({ hub })(
+        req as unknown as IncomingMessage,
+        res as unknown as ServerResponse
+      );
+
+      expect(res.writeHead).toHaveBeenCalledWith(200, expect.any(Object));
+      expect(received.sn).toEqual([
+        { signature: "valid", reference: "order-2" },
+      ]);
+    });
+
+    it("should fail when a body parser already read the body", async () => {
+      const req = Object.assign(Readable.from([Buffer.from(body)]), {
+        url: "/webhooks/paytech-sn",
+        headers: { "content-type": "application/x-www-form-urlencoded" },
+        body: { signature: "valid", reference: "order-1" },
+      });
+      req.resume();
+      await once(req, "end");
+      const res = createResponse();
+      const next = jest.fn();
+
+      await createWebhookHandler({ hub })(
+        req as unknown as IncomingMessage,
+        res as unknown as ServerResponse,
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(expect.any(ConfigurationError));
+      expect(received.sn).toEqual([]);
+    });
+  });
+
+  describe("createFastifyWebhookHandler", () => {
+    it("should reply through the Fastify reply", async () => {
+      const reply = {
+        code: jest.fn(() => reply),
+        headers: jest.fn(() => reply),
+        send: jest.fn(),
+      };
+
+      await createFastifyWebhookHandler({ hub })(
+        { url: "/webhooks/paytech-sn", headers: {}, body },
+        reply
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(200);
+      expect(reply.send).toHaveBeenCalledWith(
+        JSON.stringify({ merchant: "sn", success: true, message: null })
+      );
+    });
+
+    it("should fail when the body was parsed without keeping it", async () => {
+      const reply = {
+        code: jest.fn(() => reply),
+        headers: jest.fn(() => reply),
+        send: jest.fn(),
+      };
+
+      for (const contentType of [
+        "application/x-www-form-urlencoded",
+        "application/json",
+      ]) {
+        await expect(
+          createFastifyWebhookHandler({ hub })(
+            {
+              url: "/webhooks/paytech-sn",
+              headers: { "content-type": contentType },
+              body: { signature: "valid", reference: "order-1" },
+            },
+            reply
+          )
+        ).rejects.toThrow(ConfigurationError);
+      }
+      expect(reply.send).not.toHaveBeenCalled();
+    });
+  });
+});